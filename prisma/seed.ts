@@ -1,4 +1,9 @@
 import { PrismaClient } from '@prisma/client'
+import airlineReference from './reference/airlines.json'
+import { seedAirportResources } from '../src/lib/airport-resources'
+import { seedCapacityDeclarations } from '../src/lib/capacity'
+import { seedDelayCodes } from '../src/lib/delay-codes'
+import { parseAnalyticsPayload } from '../src/lib/analytics-payloads'
 
 const prisma = new PrismaClient()
 
@@ -7,9 +12,23 @@ async function main() {
 
   // Clear existing data
   await prisma.optimization.deleteMany()
+  await prisma.slot.deleteMany()
+  await prisma.flightEvent.deleteMany()
+  await prisma.delayAnalysis.deleteMany()
+  await prisma.flightDelay.deleteMany()
+  await prisma.connection.deleteMany()
   await prisma.flight.deleteMany()
+  await prisma.schedule.deleteMany()
   await prisma.analytics.deleteMany()
+  await prisma.gate.deleteMany()
+  await prisma.terminal.deleteMany()
+  await prisma.capacityDeclaration.deleteMany()
+  await prisma.runwayConfiguration.deleteMany()
+  await prisma.runway.deleteMany()
+  await prisma.minimumConnectingTime.deleteMany()
   await prisma.airport.deleteMany()
+  await prisma.aircraft.deleteMany()
+  await prisma.airline.deleteMany()
 
   // Create airports
   const airports = await Promise.all([
@@ -20,10 +39,10 @@ async function main() {
         city: 'Mumbai',
         country: 'India',
         timezone: 'Asia/Kolkata',
-        coordinates: JSON.stringify({ lat: 19.0896, lng: 72.8656 }),
+        latitude: 19.0896,
+        longitude: 72.8656,
         terminals: 2,
-        runways: 2,
-        capacity: 40
+        runways: 2
       }
     }),
     prisma.airport.create({
@@ -33,10 +52,10 @@ async function main() {
         city: 'New Delhi',
         country: 'India',
         timezone: 'Asia/Kolkata',
-        coordinates: JSON.stringify({ lat: 28.5562, lng: 77.1000 }),
+        latitude: 28.5562,
+        longitude: 77.1000,
         terminals: 3,
-        runways: 3,
-        capacity: 45
+        runways: 3
       }
     }),
     prisma.airport.create({
@@ -46,10 +65,10 @@ async function main() {
         city: 'Bangalore',
         country: 'India',
         timezone: 'Asia/Kolkata',
-        coordinates: JSON.stringify({ lat: 13.1986, lng: 77.7066 }),
+        latitude: 13.1986,
+        longitude: 77.7066,
         terminals: 2,
-        runways: 2,
-        capacity: 35
+        runways: 2
       }
     }),
     prisma.airport.create({
@@ -59,10 +78,10 @@ async function main() {
         city: 'Chennai',
         country: 'India',
         timezone: 'Asia/Kolkata',
-        coordinates: JSON.stringify({ lat: 12.9846, lng: 80.1743 }),
+        latitude: 12.9846,
+        longitude: 80.1743,
         terminals: 4,
-        runways: 2,
-        capacity: 30
+        runways: 2
       }
     }),
     prisma.airport.create({
@@ -72,10 +91,10 @@ async function main() {
         city: 'Hyderabad',
         country: 'India',
         timezone: 'Asia/Kolkata',
-        coordinates: JSON.stringify({ lat: 17.2403, lng: 78.4294 }),
+        latitude: 17.2403,
+        longitude: 78.4294,
         terminals: 1,
-        runways: 2,
-        capacity: 25
+        runways: 2
       }
     }),
     prisma.airport.create({
@@ -85,22 +104,45 @@ async function main() {
         city: 'Kolkata',
         country: 'India',
         timezone: 'Asia/Kolkata',
-        coordinates: JSON.stringify({ lat: 22.6541, lng: 88.4464 }),
+        latitude: 22.6541,
+        longitude: 88.4464,
         terminals: 2,
-        runways: 2,
-        capacity: 28
+        runways: 2
       }
     })
   ])
 
   console.log(`Created ${airports.length} airports`)
 
+  // Create airlines from the reference file
+  const airlines = await Promise.all(
+    airlineReference.map(airline => prisma.airline.create({ data: airline }))
+  )
+
+  console.log(`Created ${airlines.length} airlines`)
+
+  // Create terminals, gates and runways from the reference file
+  const resourceAirports = await seedAirportResources()
+
+  console.log(`Created terminals, gates and runways for ${resourceAirports} airports`)
+
+  // Declared capacity per runway configuration and season
+  const declarations = await seedCapacityDeclarations()
+
+  console.log(`Created ${declarations} capacity declarations`)
+
+  // IATA delay code catalogue
+  const delayCodes = await seedDelayCodes()
+
+  console.log(`Created ${delayCodes} delay codes`)
+
   // Create some sample flights based on the real data
   const flights = await Promise.all([
     prisma.flight.create({
       data: {
         flightNumber: 'AI101',
         airline: 'Air India',
+        airlineCode: 'AI',
         origin: 'DEL',
         destination: 'BOM',
         scheduledDeparture: new Date('2025-07-25T08:00:00'),
@@ -115,6 +157,7 @@ async function main() {
       data: {
         flightNumber: '6E203',
         airline: 'IndiGo',
+        airlineCode: '6E',
         origin: 'BOM',
         destination: 'DEL',
         scheduledDeparture: new Date('2025-07-25T09:15:00'),
@@ -129,6 +172,7 @@ async function main() {
       data: {
         flightNumber: 'SG305',
         airline: 'SpiceJet',
+        airlineCode: 'SG',
         origin: 'BLR',
         destination: 'BOM',
         scheduledDeparture: new Date('2025-07-25T10:30:00'),
@@ -141,6 +185,7 @@ async function main() {
       data: {
         flightNumber: 'UK407',
         airline: 'Vistara',
+        airlineCode: 'UK',
         origin: 'BOM',
         destination: 'MAA',
         scheduledDeparture: new Date('2025-07-25T11:45:00'),
@@ -153,6 +198,7 @@ async function main() {
       data: {
         flightNumber: 'AI509',
         airline: 'Air India',
+        airlineCode: 'AI',
         origin: 'BOM',
         destination: 'CCU',
         scheduledDeparture: new Date('2025-07-25T13:00:00'),
@@ -171,11 +217,11 @@ async function main() {
       data: {
         airportCode: 'BOM',
         type: 'PEAK_HOURS',
-        data: JSON.stringify({
-          peakHours: ['06:00', '14:00', '18:00'],
-          peakHourFlights: [12, 18, 15],
-          recommendations: ['Redistribute flights from 14:00-16:00', 'Add morning slots']
-        }),
+        data: parseAnalyticsPayload('PEAK_HOURS', [
+          { hour: 6, flightCount: 12, utilization: null },
+          { hour: 14, flightCount: 18, utilization: null },
+          { hour: 18, flightCount: 15, utilization: null }
+        ]),
         confidence: 0.85
       }
     }),
@@ -183,11 +229,16 @@ async function main() {
       data: {
         airportCode: 'BOM',
         type: 'DELAYS',
-        data: JSON.stringify({
-          totalDelayedFlights: 4,
-          averageDelay: 17.8,
+        data: parseAnalyticsPayload('DELAYS', {
+          totalFlights: flights.length,
+          delayedFlights: 4,
+          avgDelay: 17.8,
+          peakHour: 14,
+          peakFlights: 18,
           delayDistribution: { minor: 2, major: 1, critical: 1 },
-          cascadingRisk: { level: 'medium', affectedFlights: 2 }
+          capacityUtilization: null,
+          peakHourUtilization: null,
+          completenessScore: 100
         }),
         confidence: 0.92
       }
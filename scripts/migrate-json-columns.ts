@@ -0,0 +1,124 @@
+import { z } from 'zod'
+import { db } from '../src/lib/db'
+import { analyticsPayloadSchemas } from '../src/lib/analytics-payloads'
+import { expectedImprovementSchema, riskAssessmentSchema } from '../src/lib/optimization-payloads'
+
+// Converts rows written when these fields were JSON strings. Run after `npm run db:push`,
+// which keeps the old columns as the nullable legacy* fields; converted rows have them cleared.
+
+const coordinatesSchema = z.object({ lat: z.number().min(-90).max(90), lng: z.number().min(-180).max(180) })
+const flightIdsSchema = z.array(z.string().min(1))
+const entitiesSchema = z.array(z.object({ type: z.string().trim().toLowerCase().min(1), value: z.coerce.string().trim().min(1) }))
+
+async function migrateAirportCoordinates(): Promise<number> {
+  const airports = await db.airport.findMany({ where: { legacyCoordinates: { not: null } } })
+
+  for (const airport of airports) {
+    const coordinates = coordinatesSchema.safeParse(parseJson(airport.legacyCoordinates))
+    if (!coordinates.success) console.warn(`Airport ${airport.code}: unreadable coordinates ${airport.legacyCoordinates}`)
+
+    await db.airport.update({
+      where: { id: airport.id },
+      data: {
+        latitude: coordinates.success ? coordinates.data.lat : null,
+        longitude: coordinates.success ? coordinates.data.lng : null,
+        legacyCoordinates: null
+      }
+    })
+  }
+
+  return airports.length
+}
+
+async function migrateAffectedFlights(): Promise<number> {
+  const analyses = await db.delayAnalysis.findMany({ where: { legacyAffectedFlights: { not: null } } })
+
+  for (const analysis of analyses) {
+    const flightIds = flightIdsSchema.safeParse(parseJson(analysis.legacyAffectedFlights))
+    if (!flightIds.success) console.warn(`Delay analysis ${analysis.id}: unreadable affected flights ${analysis.legacyAffectedFlights}`)
+
+    // Flights deleted since the analysis was written are dropped
+    const existing = flightIds.success
+      ? await db.flight.findMany({ where: { id: { in: flightIds.data } }, select: { id: true } })
+      : []
+
+    await db.$transaction([
+      db.delayAnalysisAffectedFlight.createMany({
+        data: existing.map(flight => ({ delayAnalysisId: analysis.id, flightId: flight.id }))
+      }),
+      db.delayAnalysis.update({ where: { id: analysis.id }, data: { legacyAffectedFlights: null } })
+    ])
+  }
+
+  return analyses.length
+}
+
+async function migrateQueryEntities(): Promise<number> {
+  const queries = await db.nLPQuery.findMany({ where: { legacyEntities: { not: null } } })
+
+  for (const query of queries) {
+    const entities = entitiesSchema.safeParse(parseJson(query.legacyEntities))
+    if (!entities.success) console.warn(`NLP query ${query.id}: unreadable entities ${query.legacyEntities}`)
+
+    await db.nLPQuery.update({
+      where: { id: query.id },
+      data: {
+        entities: { create: entities.success ? entities.data : [] },
+        legacyEntities: null
+      }
+    })
+  }
+
+  return queries.length
+}
+
+// Analytics and optimization payloads keep their JSON text; report the rows that do not fit their schema
+async function checkPayloads(): Promise<number> {
+  let invalid = 0
+
+  for (const record of await db.analytics.findMany()) {
+    if (!analyticsPayloadSchemas[record.type].safeParse(record.data).success) {
+      console.warn(`Analytics ${record.id}: ${record.type} data does not match its schema`)
+      invalid++
+    }
+  }
+
+  for (const optimization of await db.optimization.findMany()) {
+    if (!expectedImprovementSchema.safeParse(optimization.expectedImprovement).success ||
+        !riskAssessmentSchema.safeParse(optimization.riskAssessment).success) {
+      console.warn(`Optimization ${optimization.id}: expected improvement or risk assessment does not match its schema`)
+      invalid++
+    }
+  }
+
+  return invalid
+}
+
+function parseJson(value: string | null): unknown {
+  try {
+    return value === null ? null : JSON.parse(value)
+  } catch {
+    return null
+  }
+}
+
+async function migrateJsonColumns() {
+  console.log(`Airports converted: ${await migrateAirportCoordinates()}`)
+  console.log(`Delay analyses converted: ${await migrateAffectedFlights()}`)
+  console.log(`NLP queries converted: ${await migrateQueryEntities()}`)
+  console.log(`Payloads not matching their schema: ${await checkPayloads()}`)
+}
+
+if (require.main === module) {
+  migrateJsonColumns()
+    .then(() => {
+      console.log('JSON column migration completed successfully')
+      process.exit(0)
+    })
+    .catch((error) => {
+      console.error('JSON column migration failed:', error)
+      process.exit(1)
+    })
+}
+
+export { migrateJsonColumns }
@@ -1,5 +1,12 @@
 import { db } from '../src/lib/db'
 import { FlightDataProcessor } from '../src/lib/flight-data-processor'
+import { AirlineRegistry, seedAirlines } from '../src/lib/airlines'
+import { registerAircraft } from '../src/lib/aircraft'
+import { allocateGates, seedAirportResources } from '../src/lib/airport-resources'
+import { seedCapacityDeclarations } from '../src/lib/capacity'
+import { seedDelayCodes } from '../src/lib/delay-codes'
+import { createAnalytics } from '../src/lib/analytics-payloads'
+import { toAnalyticsPayload } from '../src/lib/delay-propagation'
 
 async function seedDatabase() {
   try {
@@ -10,7 +17,19 @@ async function seedDatabase() {
     
     // Clear existing data
     console.log('Clearing existing data...')
+    await db.slot.deleteMany()
+    await db.flightEvent.deleteMany()
+    await db.delayAnalysis.deleteMany()
+    await db.flightDelay.deleteMany()
+    await db.connection.deleteMany()
     await db.flight.deleteMany()
+    await db.schedule.deleteMany()
+    await db.gate.deleteMany()
+    await db.terminal.deleteMany()
+    await db.capacityDeclaration.deleteMany()
+    await db.runwayConfiguration.deleteMany()
+    await db.runway.deleteMany()
+    await db.minimumConnectingTime.deleteMany()
     await db.airport.deleteMany()
     await db.analytics.deleteMany()
     await db.nLPQuery.deleteMany()
@@ -27,10 +46,10 @@ async function seedDatabase() {
           city: 'Mumbai',
           country: 'India',
           timezone: 'Asia/Kolkata',
-          coordinates: JSON.stringify({ lat: 19.0896, lng: 72.8656 }),
+          latitude: 19.0896,
+          longitude: 72.8656,
           terminals: 2,
-          runways: 2,
-          capacity: 950
+          runways: 2
         }
       }),
       db.airport.create({
@@ -40,10 +59,10 @@ async function seedDatabase() {
           city: 'Delhi',
           country: 'India',
           timezone: 'Asia/Kolkata',
-          coordinates: JSON.stringify({ lat: 28.5562, lng: 77.1000 }),
+          latitude: 28.5562,
+          longitude: 77.1000,
           terminals: 3,
-          runways: 3,
-          capacity: 1200
+          runways: 3
         }
       }),
       db.airport.create({
@@ -53,10 +72,10 @@ async function seedDatabase() {
           city: 'Bangalore',
           country: 'India',
           timezone: 'Asia/Kolkata',
-          coordinates: JSON.stringify({ lat: 13.1989, lng: 77.7065 }),
+          latitude: 13.1989,
+          longitude: 77.7065,
           terminals: 2,
-          runways: 1,
-          capacity: 800
+          runways: 1
         }
       }),
       db.airport.create({
@@ -66,10 +85,10 @@ async function seedDatabase() {
           city: 'Hyderabad',
           country: 'India',
           timezone: 'Asia/Kolkata',
-          coordinates: JSON.stringify({ lat: 17.2403, lng: 78.4294 }),
+          latitude: 17.2403,
+          longitude: 78.4294,
           terminals: 1,
-          runways: 1,
-          capacity: 600
+          runways: 1
         }
       }),
       db.airport.create({
@@ -79,20 +98,37 @@ async function seedDatabase() {
           city: 'Chennai',
           country: 'India',
           timezone: 'Asia/Kolkata',
-          coordinates: JSON.stringify({ lat: 12.9944, lng: 80.1709 }),
+          latitude: 12.9944,
+          longitude: 80.1709,
           terminals: 4,
-          runways: 2,
-          capacity: 700
+          runways: 2
         }
       })
     ])
 
     console.log(`Created ${airports.length} airports`)
 
+    console.log('Creating airlines from reference file...')
+    const airlineCount = await seedAirlines()
+    const airlines = AirlineRegistry.getInstance()
+    console.log(`Upserted ${airlineCount} airlines`)
+
+    console.log('Creating terminals, gates and runways from reference file...')
+    const resourceAirports = await seedAirportResources()
+    console.log(`Created resources for ${resourceAirports} airports`)
+
+    console.log('Creating capacity declarations from reference file...')
+    const declarationCount = await seedCapacityDeclarations()
+    console.log(`Created ${declarationCount} capacity declarations`)
+
+    console.log('Creating IATA delay codes from reference file...')
+    const delayCodeCount = await seedDelayCodes()
+    console.log(`Upserted ${delayCodeCount} delay codes`)
+
     console.log('Loading flight data...')
     
-    // Get flight data for each airport
-    const airportCodes = ['BOM', 'DEL', 'BLR']
+    // Get flight data for each airport with a configured data source
+    const airportCodes = processor.getConfiguredAirports()
     let totalFlights = 0
 
     for (const airportCode of airportCodes) {
@@ -100,13 +136,16 @@ async function seedDatabase() {
       
       try {
         const flightData = await processor.getFlightData(airportCode)
+        const gates = await allocateGates(airportCode, flightData)
         
         // Create flights for this airport
         for (const flight of flightData) {
+          const carrier = await airlines.getFlightAirlineFields(flight.flightNumber)
+          const gate = gates.get(flight.id)
           await db.flight.create({
             data: {
               flightNumber: flight.flightNumber,
-              airline: extractAirline(flight.flightNumber),
+              ...carrier,
               origin: flight.origin,
               destination: flight.destination,
               scheduledDeparture: flight.scheduledDeparture,
@@ -116,9 +155,11 @@ async function seedDatabase() {
               status: flight.status as any,
               delayMinutes: flight.delayMinutes,
               aircraft: flight.aircraft,
+              registration: await registerAircraft(flight.aircraft, carrier.airlineCode),
               airportCode: flight.airportCode,
-              gate: generateRandomGate(),
-              terminal: generateRandomTerminal()
+              gate: gate?.gate,
+              terminal: gate?.terminal,
+              gateId: gate?.gateId
             }
           })
         }
@@ -130,37 +171,15 @@ async function seedDatabase() {
         const stats = await processor.getAirportStatistics(airportCode)
         const peakHourData = await processor.getPeakHourAnalysis(airportCode)
         
-        await db.analytics.create({
-          data: {
-            airportCode,
-            type: 'PEAK_HOURS',
-            data: JSON.stringify(peakHourData),
-            confidence: 0.95
-          }
-        })
-        
-        await db.analytics.create({
-          data: {
-            airportCode,
-            type: 'DELAYS',
-            data: JSON.stringify(stats),
-            confidence: 0.90
-          }
-        })
-        
-        await db.analytics.create({
-          data: {
-            airportCode,
-            type: 'CAPACITY',
-            data: JSON.stringify({
-              currentUtilization: stats.capacityUtilization,
-              maxSustainableCapacity: 95,
-              bottlenecks: ['Runway capacity', 'Gate availability'],
-              recommendations: ['Optimize scheduling', 'Improve efficiency']
-            }),
-            confidence: 0.85
-          }
-        })
+        await createAnalytics(airportCode, 'PEAK_HOURS', peakHourData, 0.95)
+        await createAnalytics(airportCode, 'DELAYS', stats, 0.90)
+        await createAnalytics(airportCode, 'DELAY_PROPAGATION', toAnalyticsPayload(await processor.getDelayPropagation(airportCode)), 0.80)
+        await createAnalytics(airportCode, 'CAPACITY', {
+          currentUtilization: stats.capacityUtilization,
+          peakHourUtilization: stats.peakHourUtilization,
+          bottlenecks: ['Runway capacity', 'Gate availability'],
+          recommendations: ['Optimize scheduling', 'Improve efficiency']
+        }, 0.85)
         
         console.log(`Created analytics for ${airportCode}`)
         
@@ -172,6 +191,7 @@ async function seedDatabase() {
     console.log(`Database seeding completed successfully!`)
     console.log(`Summary:`)
     console.log(`- Airports: ${airports.length}`)
+    console.log(`- Airlines: ${airlineCount}`)
     console.log(`- Total Flights: ${totalFlights}`)
     console.log(`- Analytics records: ${airports.length * 3}`)
     
@@ -181,40 +201,6 @@ async function seedDatabase() {
   }
 }
 
-function extractAirline(flightNumber: string): string {
-  const airlineCodes: Record<string, string> = {
-    'AI': 'Air India',
-    '6E': 'IndiGo',
-    'SG': 'SpiceJet',
-    'UK': 'Vistara',
-    'G8': 'GoAir',
-    'IX': 'Air India Express',
-    'QP': 'Akasa Air',
-    'WY': 'Oman Air',
-    'B7': 'Boeing', // For flight numbers starting with B7
-    'A2': 'Air Asia',
-    'A3': 'Air Asia',
-    'A4': 'Air Arabia',
-    'A9': 'Air Arabia',
-    'VT': 'Various' // For registration prefixes
-  }
-
-  const code = flightNumber.substring(0, 2).toUpperCase()
-  return airlineCodes[code] || 'Unknown Airline'
-}
-
-function generateRandomGate(): string {
-  const terminals = ['A', 'B', 'C', 'D']
-  const terminal = terminals[Math.floor(Math.random() * terminals.length)]
-  const number = Math.floor(Math.random() * 50) + 1
-  return `${terminal}${number}`
-}
-
-function generateRandomTerminal(): string {
-  const terminals = ['T1', 'T2', 'T3', 'T4']
-  return terminals[Math.floor(Math.random() * terminals.length)]
-}
-
 // Run the seeding
 if (require.main === module) {
   seedDatabase()
@@ -1,4 +1,5 @@
 import { FlightDataProcessor } from '../src/lib/flight-data-processor'
+import { AirlineRegistry } from '../src/lib/airlines'
 
 async function testIntegration() {
   console.log('Testing flight data integration...')
@@ -28,9 +29,9 @@ async function testIntegration() {
     
     // Test 5: Test airline extraction
     console.log('\n5. Testing airline extraction...')
-    const testFlights = ['AI101', '6E203', 'SG305', 'UK407']
+    const testFlights = ['AI101', '6E203', 'SG305', 'UK407', 'IGO5312']
     for (const flight of testFlights) {
-      const airline = processor['extractAirline'] ? processor['extractAirline'](flight) : 'Unknown'
+      const airline = await AirlineRegistry.getInstance().getAirlineName(flight)
       console.log(`✓ ${flight} -> ${airline}`)
     }
     
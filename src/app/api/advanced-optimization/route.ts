@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import ZAI from 'z-ai-web-dev-sdk'
 import { db } from '@/lib/db'
+import { ExpectedImprovement, RiskAssessment, normalizeExpectedImprovement, normalizeRiskAssessment } from '@/lib/optimization-payloads'
 
 interface AdvancedOptimizationRequest {
   airportCode: string
@@ -32,7 +33,7 @@ interface AdvancedOptimizationResponse {
     convergence: number
     results: {
       objectiveValue: number
-      improvements: any
+      improvements: ExpectedImprovement
       optimizedSchedule: any[]
       kpiChanges: any
     }
@@ -40,7 +41,7 @@ interface AdvancedOptimizationResponse {
     confidence: number
     recommendations: any[]
     appliedChanges?: any[]
-    riskAssessment: any
+    riskAssessment: RiskAssessment
   }
   error?: string
 }
@@ -97,8 +98,8 @@ export async function POST(request: NextRequest) {
           impact: `Objective value: ${result.results.objectiveValue}`,
           implementation: JSON.stringify(result.recommendations),
           status: applyOptimization ? 'IN_PROGRESS' as any : 'PENDING' as any,
-          expectedImprovement: JSON.stringify(result.results.improvements),
-          riskAssessment: JSON.stringify(result.riskAssessment)
+          expectedImprovement: result.results.improvements,
+          riskAssessment: result.riskAssessment
         }
       })
       optimizationId = savedOptimization.id
@@ -247,14 +248,14 @@ async function processAdvancedOptimization(
         convergence: result.convergence || 0.95,
         results: {
           objectiveValue: result.results?.objectiveValue || 0.85,
-          improvements: result.results?.improvements || {},
+          improvements: normalizeExpectedImprovement(result.results?.improvements),
           optimizedSchedule: result.results?.optimizedSchedule || [],
           kpiChanges: result.results?.kpiChanges || {}
         },
         confidence: result.confidence || 0.90,
         recommendations: result.recommendations || [],
         appliedChanges: result.appliedChanges || [],
-        riskAssessment: result.riskAssessment || {}
+        riskAssessment: normalizeRiskAssessment(result.riskAssessment)
       }
     }
   } catch (error) {
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Aircraft, Flight, FlightEventSource, Prisma } from '@prisma/client'
+import { db } from '@/lib/db'
+import { updateFlightsWithHistory } from '@/lib/flight-events'
+import { aircraftSchema } from '@/lib/aircraft'
+
+interface AircraftResponse {
+  success: boolean
+  data?: Aircraft & { flights?: Flight[] }
+  error?: string
+  details?: string[]
+}
+
+interface RouteContext {
+  params: Promise<{ registration: string }>
+}
+
+const aircraftUpdateSchema = aircraftSchema.omit({ registration: true }).partial()
+
+/**
+ * Get one tail with its flights in schedule order
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { registration } = await params
+    const aircraft = await db.aircraft.findUnique({
+      where: { registration: registration.toUpperCase() },
+      include: { flights: { orderBy: { scheduledDeparture: 'asc' } } }
+    })
+
+    if (!aircraft) {
+      return NextResponse.json<AircraftResponse>(
+        { success: false, error: `Unknown aircraft ${registration.toUpperCase()}` },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json<AircraftResponse>({
+      success: true,
+      data: aircraft
+    })
+
+  } catch (error) {
+    console.error('Aircraft fetch error:', error)
+    return NextResponse.json<AircraftResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Update a tail's type, wake category, seat count or operator
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { registration } = await params
+    const parsed = aircraftUpdateSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json<AircraftResponse>(
+        {
+          success: false,
+          error: 'Invalid aircraft',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const aircraft = await db.aircraft.update({
+      where: { registration: registration.toUpperCase() },
+      data: parsed.data
+    })
+
+    return NextResponse.json<AircraftResponse>({
+      success: true,
+      data: aircraft
+    })
+
+  } catch (error) {
+    return handleWriteError(error, 'Aircraft update error:')
+  }
+}
+
+export const PUT = PATCH
+
+/**
+ * Delete a tail. Its flights keep the aircraft string but lose the link.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { registration } = await params
+    const code = registration.toUpperCase()
+
+    const aircraft = await db.$transaction(async tx => {
+      await updateFlightsWithHistory({ registration: code }, { registration: null }, FlightEventSource.REFERENCE_DATA, `aircraft ${code} deleted`, tx)
+      return tx.aircraft.delete({ where: { registration: code } })
+    })
+
+    return NextResponse.json<AircraftResponse>({
+      success: true,
+      data: aircraft
+    })
+
+  } catch (error) {
+    return handleWriteError(error, 'Aircraft delete error:')
+  }
+}
+
+function handleWriteError(error: unknown, context: string) {
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    if (error.code === 'P2025') {
+      return NextResponse.json<AircraftResponse>(
+        { success: false, error: 'Aircraft not found' },
+        { status: 404 }
+      )
+    }
+    if (error.code === 'P2003') {
+      return NextResponse.json<AircraftResponse>(
+        { success: false, error: 'Unknown operator airline' },
+        { status: 400 }
+      )
+    }
+  }
+
+  console.error(context, error)
+  return NextResponse.json<AircraftResponse>(
+    { success: false, error: 'Internal server error' },
+    { status: 500 }
+  )
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Aircraft, Prisma, WakeCategory } from '@prisma/client'
+import { db } from '@/lib/db'
+import { aircraftSchema, loadAircraftTypes } from '@/lib/aircraft'
+
+interface AircraftListResponse {
+  success: boolean
+  data?: Aircraft[]
+  error?: string
+}
+
+interface AircraftResponse {
+  success: boolean
+  data?: Aircraft
+  error?: string
+  details?: string[]
+}
+
+/**
+ * List registered tails, optionally filtered by `icaoType`, `operator` and `wakeCategory`
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const icaoType = searchParams.get('icaoType')
+    const operator = searchParams.get('operator')
+    const wakeCategory = searchParams.get('wakeCategory')?.toUpperCase()
+
+    if (wakeCategory && !(wakeCategory in WakeCategory)) {
+      return NextResponse.json<AircraftListResponse>(
+        { success: false, error: `Invalid wake category. Use one of: ${Object.keys(WakeCategory).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const aircraft = await db.aircraft.findMany({
+      where: {
+        ...(icaoType && { icaoType: icaoType.toUpperCase() }),
+        ...(operator && { operatorCode: operator.toUpperCase() }),
+        ...(wakeCategory && { wakeCategory: wakeCategory as WakeCategory })
+      },
+      orderBy: { registration: 'asc' }
+    })
+
+    return NextResponse.json<AircraftListResponse>({
+      success: true,
+      data: aircraft
+    })
+
+  } catch (error) {
+    console.error('Aircraft list error:', error)
+    return NextResponse.json<AircraftListResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Register a tail. Wake category and seats default from the aircraft type reference.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = aircraftSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json<AircraftResponse>(
+        {
+          success: false,
+          error: 'Invalid aircraft',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const type = parsed.data.icaoType ? (await loadAircraftTypes()).get(parsed.data.icaoType) : undefined
+    const aircraft = await db.aircraft.create({
+      data: {
+        ...parsed.data,
+        wakeCategory: parsed.data.wakeCategory ?? type?.wakeCategory,
+        seats: parsed.data.seats ?? type?.seats
+      }
+    })
+
+    return NextResponse.json<AircraftResponse>(
+      { success: true, data: aircraft },
+      { status: 201 }
+    )
+
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      if (error.code === 'P2002') {
+        return NextResponse.json<AircraftResponse>(
+          { success: false, error: 'An aircraft with this registration already exists' },
+          { status: 409 }
+        )
+      }
+      if (error.code === 'P2003') {
+        return NextResponse.json<AircraftResponse>(
+          { success: false, error: 'Unknown operator airline' },
+          { status: 400 }
+        )
+      }
+    }
+
+    console.error('Aircraft create error:', error)
+    return NextResponse.json<AircraftResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { linkFlightsToAircraft } from '@/lib/aircraft'
+import { FlightDataProcessor } from '@/lib/flight-data-processor'
+
+interface AircraftSyncResponse {
+  success: boolean
+  data?: { linkedFlights: number }
+  error?: string
+}
+
+/**
+ * Parse the aircraft strings of unlinked flights into the Aircraft registry.
+ * Pass `airportCode` to limit the backfill to one airport.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const airportCode = searchParams.get('airportCode')?.toUpperCase()
+
+    const linkedFlights = await linkFlightsToAircraft(airportCode)
+    FlightDataProcessor.getInstance().invalidateCache(airportCode)
+
+    return NextResponse.json<AircraftSyncResponse>({
+      success: true,
+      data: { linkedFlights }
+    })
+
+  } catch (error) {
+    console.error('Aircraft sync error:', error)
+    return NextResponse.json<AircraftSyncResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
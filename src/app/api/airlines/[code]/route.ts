@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Airline, FlightEventSource, Prisma } from '@prisma/client'
+import { db } from '@/lib/db'
+import { updateFlightsWithHistory } from '@/lib/flight-events'
+import { AirlineRegistry, airlineSchema } from '@/lib/airlines'
+
+interface AirlineResponse {
+  success: boolean
+  data?: Airline & { flightCount?: number }
+  error?: string
+  details?: string[]
+}
+
+interface RouteContext {
+  params: Promise<{ code: string }>
+}
+
+const airlineUpdateSchema = airlineSchema.omit({ iataCode: true }).partial()
+
+/**
+ * Get one airline by IATA code
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code } = await params
+    const airline = await db.airline.findUnique({
+      where: { iataCode: code.toUpperCase() },
+      include: { _count: { select: { flights: true } } }
+    })
+
+    if (!airline) {
+      return NextResponse.json<AirlineResponse>(
+        { success: false, error: `Unknown airline ${code.toUpperCase()}` },
+        { status: 404 }
+      )
+    }
+
+    const { _count, ...data } = airline
+    return NextResponse.json<AirlineResponse>({
+      success: true,
+      data: { ...data, flightCount: _count.flights }
+    })
+
+  } catch (error) {
+    console.error('Airline fetch error:', error)
+    return NextResponse.json<AirlineResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Update an airline's ICAO code, name, country or low-cost flag
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code } = await params
+    const parsed = airlineUpdateSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json<AirlineResponse>(
+        {
+          success: false,
+          error: 'Invalid airline',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const airline = await db.airline.update({
+      where: { iataCode: code.toUpperCase() },
+      data: parsed.data
+    })
+
+    // Keep the denormalised airline name on flights in step
+    if (parsed.data.name) {
+      await updateFlightsWithHistory(
+        { airlineCode: airline.iataCode },
+        { airline: airline.name },
+        FlightEventSource.REFERENCE_DATA,
+        `airline ${airline.iataCode} updated`
+      )
+    }
+    AirlineRegistry.getInstance().invalidate()
+
+    return NextResponse.json<AirlineResponse>({
+      success: true,
+      data: airline
+    })
+
+  } catch (error) {
+    return handleWriteError(error, 'Airline update error:')
+  }
+}
+
+export const PUT = PATCH
+
+/**
+ * Delete an airline. Its flights keep their airline name but lose the link.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code } = await params
+    const iataCode = code.toUpperCase()
+
+    const airline = await db.$transaction(async tx => {
+      await updateFlightsWithHistory({ airlineCode: iataCode }, { airlineCode: null }, FlightEventSource.REFERENCE_DATA, `airline ${iataCode} deleted`, tx)
+      return tx.airline.delete({ where: { iataCode } })
+    })
+    AirlineRegistry.getInstance().invalidate()
+
+    return NextResponse.json<AirlineResponse>({
+      success: true,
+      data: airline
+    })
+
+  } catch (error) {
+    return handleWriteError(error, 'Airline delete error:')
+  }
+}
+
+function handleWriteError(error: unknown, context: string) {
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    if (error.code === 'P2025') {
+      return NextResponse.json<AirlineResponse>(
+        { success: false, error: 'Airline not found' },
+        { status: 404 }
+      )
+    }
+    if (error.code === 'P2002') {
+      return NextResponse.json<AirlineResponse>(
+        { success: false, error: 'An airline with this ICAO code already exists' },
+        { status: 409 }
+      )
+    }
+  }
+
+  console.error(context, error)
+  return NextResponse.json<AirlineResponse>(
+    { success: false, error: 'Internal server error' },
+    { status: 500 }
+  )
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Airline, Prisma } from '@prisma/client'
+import { db } from '@/lib/db'
+import { AirlineRegistry, airlineSchema, linkFlightsToAirline } from '@/lib/airlines'
+
+interface AirlinesResponse {
+  success: boolean
+  data?: Airline[]
+  error?: string
+}
+
+interface AirlineResponse {
+  success: boolean
+  data?: Airline & { linkedFlights?: number }
+  error?: string
+  details?: string[]
+}
+
+/**
+ * List airlines, optionally filtered by `country` and `isLowCost`
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const country = searchParams.get('country')
+    const isLowCost = searchParams.get('isLowCost')
+
+    const airlines = await db.airline.findMany({
+      where: {
+        ...(country && { country }),
+        ...(isLowCost !== null && { isLowCost: isLowCost === 'true' })
+      },
+      orderBy: { iataCode: 'asc' }
+    })
+
+    return NextResponse.json<AirlinesResponse>({
+      success: true,
+      data: airlines
+    })
+
+  } catch (error) {
+    console.error('Airline list error:', error)
+    return NextResponse.json<AirlinesResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Create an airline and link existing flights carrying its designator
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = airlineSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json<AirlineResponse>(
+        {
+          success: false,
+          error: 'Invalid airline',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const airline = await db.airline.create({ data: parsed.data })
+    const linkedFlights = await linkFlightsToAirline(airline.iataCode)
+    AirlineRegistry.getInstance().invalidate()
+
+    return NextResponse.json<AirlineResponse>(
+      { success: true, data: { ...airline, linkedFlights } },
+      { status: 201 }
+    )
+
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json<AirlineResponse>(
+        { success: false, error: 'An airline with this IATA or ICAO code already exists' },
+        { status: 409 }
+      )
+    }
+
+    console.error('Airline create error:', error)
+    return NextResponse.json<AirlineResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { CapacityDeclaration, Prisma } from '@prisma/client'
+import { db } from '@/lib/db'
+import { capacityDeclarationSchema } from '@/lib/capacity'
+
+interface CapacityDeclarationResponse {
+  success: boolean
+  data?: CapacityDeclaration
+  error?: string
+  details?: string[]
+}
+
+interface RouteContext {
+  params: Promise<{ code: string; id: string }>
+}
+
+// A declaration stays tied to its runway configuration; declare a new one to change it
+const capacityDeclarationUpdateSchema = capacityDeclarationSchema.omit({ runwayConfiguration: true }).partial()
+
+/**
+ * Update a declaration's season or limits
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code, id } = await params
+    const parsed = capacityDeclarationUpdateSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json<CapacityDeclarationResponse>(
+        {
+          success: false,
+          error: 'Invalid capacity declaration',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const declaration = await db.capacityDeclaration.update({
+      where: { id, airportCode: code.toUpperCase() },
+      data: parsed.data
+    })
+
+    return NextResponse.json<CapacityDeclarationResponse>({
+      success: true,
+      data: declaration
+    })
+
+  } catch (error) {
+    return handleWriteError(error, 'Capacity declaration update error:')
+  }
+}
+
+export const PUT = PATCH
+
+/**
+ * Delete a capacity declaration
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code, id } = await params
+    const declaration = await db.capacityDeclaration.delete({
+      where: { id, airportCode: code.toUpperCase() }
+    })
+
+    return NextResponse.json<CapacityDeclarationResponse>({
+      success: true,
+      data: declaration
+    })
+
+  } catch (error) {
+    return handleWriteError(error, 'Capacity declaration delete error:')
+  }
+}
+
+function handleWriteError(error: unknown, context: string) {
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    if (error.code === 'P2025') {
+      return NextResponse.json<CapacityDeclarationResponse>(
+        { success: false, error: 'Capacity declaration not found' },
+        { status: 404 }
+      )
+    }
+    if (error.code === 'P2002') {
+      return NextResponse.json<CapacityDeclarationResponse>(
+        { success: false, error: 'Capacity is already declared for this runway configuration and season' },
+        { status: 409 }
+      )
+    }
+  }
+
+  console.error(context, error)
+  return NextResponse.json<CapacityDeclarationResponse>(
+    { success: false, error: 'Internal server error' },
+    { status: 500 }
+  )
+}
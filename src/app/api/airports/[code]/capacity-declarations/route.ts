@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { db } from '@/lib/db'
+import { CapacityDeclarationWithConfiguration, capacityDeclarationSchema } from '@/lib/capacity'
+
+interface CapacityDeclarationsResponse {
+  success: boolean
+  data?: CapacityDeclarationWithConfiguration[]
+  error?: string
+}
+
+interface CapacityDeclarationResponse {
+  success: boolean
+  data?: CapacityDeclarationWithConfiguration
+  error?: string
+  details?: string[]
+}
+
+interface RouteContext {
+  params: Promise<{ code: string }>
+}
+
+/**
+ * List an airport's capacity declarations, optionally for one `season`
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code } = await params
+    const { searchParams } = new URL(request.url)
+    const season = searchParams.get('season')
+
+    const declarations = await db.capacityDeclaration.findMany({
+      where: {
+        airportCode: code.toUpperCase(),
+        ...(season && { season: season.toUpperCase() })
+      },
+      include: { runwayConfiguration: true },
+      orderBy: [{ season: 'asc' }, { movementsPerHour: 'desc' }]
+    })
+
+    return NextResponse.json<CapacityDeclarationsResponse>({
+      success: true,
+      data: declarations
+    })
+
+  } catch (error) {
+    console.error('Capacity declaration list error:', error)
+    return NextResponse.json<CapacityDeclarationsResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Declare capacity for a runway configuration, given by name, in a season
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code } = await params
+    const airportCode = code.toUpperCase()
+    const parsed = capacityDeclarationSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json<CapacityDeclarationResponse>(
+        {
+          success: false,
+          error: 'Invalid capacity declaration',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const { runwayConfiguration, ...limits } = parsed.data
+    const configuration = await db.runwayConfiguration.findUnique({
+      where: { airportCode_name: { airportCode, name: runwayConfiguration } }
+    })
+    if (!configuration) {
+      return NextResponse.json<CapacityDeclarationResponse>(
+        { success: false, error: `Unknown runway configuration ${runwayConfiguration} at ${airportCode}` },
+        { status: 400 }
+      )
+    }
+
+    const declaration = await db.capacityDeclaration.create({
+      data: { ...limits, airportCode, runwayConfigurationId: configuration.id },
+      include: { runwayConfiguration: true }
+    })
+
+    return NextResponse.json<CapacityDeclarationResponse>(
+      { success: true, data: declaration },
+      { status: 201 }
+    )
+
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json<CapacityDeclarationResponse>(
+        { success: false, error: 'Capacity is already declared for this runway configuration and season' },
+        { status: 409 }
+      )
+    }
+
+    console.error('Capacity declaration create error:', error)
+    return NextResponse.json<CapacityDeclarationResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Connection, Prisma } from '@prisma/client'
+import { db } from '@/lib/db'
+import { connectionSchema } from '@/lib/connections'
+
+interface ConnectionResponse {
+  success: boolean
+  data?: Connection
+  error?: string
+  details?: string[]
+}
+
+interface RouteContext {
+  params: Promise<{ code: string; id: string }>
+}
+
+// A connection stays between the same two flights; record a new one to change them
+const connectionUpdateSchema = connectionSchema.pick({ passengers: true })
+
+/**
+ * Update the number of connecting passengers
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code, id } = await params
+    const parsed = connectionUpdateSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json<ConnectionResponse>(
+        {
+          success: false,
+          error: 'Invalid connection',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const connection = await db.connection.update({
+      where: { id, airportCode: code.toUpperCase() },
+      data: parsed.data
+    })
+
+    return NextResponse.json<ConnectionResponse>({
+      success: true,
+      data: connection
+    })
+
+  } catch (error) {
+    return handleWriteError(error, 'Connection update error:')
+  }
+}
+
+export const PUT = PATCH
+
+/**
+ * Delete a connection
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code, id } = await params
+    const connection = await db.connection.delete({
+      where: { id, airportCode: code.toUpperCase() }
+    })
+
+    return NextResponse.json<ConnectionResponse>({
+      success: true,
+      data: connection
+    })
+
+  } catch (error) {
+    return handleWriteError(error, 'Connection delete error:')
+  }
+}
+
+function handleWriteError(error: unknown, context: string) {
+  if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+    return NextResponse.json<ConnectionResponse>(
+      { success: false, error: 'Connection not found' },
+      { status: 404 }
+    )
+  }
+
+  console.error(context, error)
+  return NextResponse.json<ConnectionResponse>(
+    { success: false, error: 'Internal server error' },
+    { status: 500 }
+  )
+}
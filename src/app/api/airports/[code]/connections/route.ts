@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { db } from '@/lib/db'
+import { FlightDataProcessor } from '@/lib/flight-data-processor'
+import { ConnectionWithFlights, InvalidConnectionError, connectionSchema, createConnection } from '@/lib/connections'
+import { InvalidDateFilterError, dateFilterFromSearchParams, resolveDateFilter, scheduledDepartureWhere } from '@/lib/date-filter'
+
+interface ConnectionsResponse {
+  success: boolean
+  data?: ConnectionWithFlights[]
+  error?: string
+}
+
+interface ConnectionResponse {
+  success: boolean
+  data?: ConnectionWithFlights
+  error?: string
+  details?: string[]
+}
+
+interface RouteContext {
+  params: Promise<{ code: string }>
+}
+
+/**
+ * List passenger connections at an airport, optionally limited by the outbound
+ * flight's departure with `date`, `from` and `to`
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code } = await params
+    const airportCode = code.toUpperCase()
+    const { searchParams } = new URL(request.url)
+    const timeZone = await FlightDataProcessor.getInstance().getAirportTimeZone(airportCode)
+    const resolved = resolveDateFilter(dateFilterFromSearchParams(searchParams), timeZone)
+
+    const connections = await db.connection.findMany({
+      where: { airportCode, outbound: scheduledDepartureWhere(resolved) },
+      include: { inbound: true, outbound: true },
+      orderBy: { outbound: { scheduledDeparture: 'asc' } }
+    })
+
+    return NextResponse.json<ConnectionsResponse>({
+      success: true,
+      data: connections
+    })
+
+  } catch (error) {
+    if (error instanceof InvalidDateFilterError) {
+      return NextResponse.json<ConnectionsResponse>(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Connection list error:', error)
+    return NextResponse.json<ConnectionsResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Record passengers connecting from an inbound to an outbound flight
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code } = await params
+    const parsed = connectionSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json<ConnectionResponse>(
+        {
+          success: false,
+          error: 'Invalid connection',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const connection = await createConnection(code.toUpperCase(), parsed.data)
+
+    return NextResponse.json<ConnectionResponse>(
+      { success: true, data: connection },
+      { status: 201 }
+    )
+
+  } catch (error) {
+    if (error instanceof InvalidConnectionError) {
+      return NextResponse.json<ConnectionResponse>(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      if (error.code === 'P2002') {
+        return NextResponse.json<ConnectionResponse>(
+          { success: false, error: 'These flights are already connected; update the existing connection' },
+          { status: 409 }
+        )
+      }
+      if (error.code === 'P2003') {
+        return NextResponse.json<ConnectionResponse>(
+          { success: false, error: 'Unknown airport' },
+          { status: 404 }
+        )
+      }
+    }
+
+    console.error('Connection create error:', error)
+    return NextResponse.json<ConnectionResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FlightEventSource, Gate, Prisma } from '@prisma/client'
+import { db } from '@/lib/db'
+import { updateFlightsWithHistory } from '@/lib/flight-events'
+import { gateSchema, getTerminalId } from '@/lib/airport-resources'
+
+interface GateResponse {
+  success: boolean
+  data?: Gate
+  error?: string
+  details?: string[]
+}
+
+interface RouteContext {
+  params: Promise<{ code: string; id: string }>
+}
+
+const gateUpdateSchema = gateSchema.partial()
+
+/**
+ * Update a gate. Setting `terminal` to null detaches it from its terminal.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code, id } = await params
+    const airportCode = code.toUpperCase()
+    const parsed = gateUpdateSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json<GateResponse>(
+        {
+          success: false,
+          error: 'Invalid gate',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const { terminal, ...data } = parsed.data
+    const terminalId = terminal ? await getTerminalId(airportCode, terminal) : null
+    if (terminal && !terminalId) {
+      return NextResponse.json<GateResponse>(
+        { success: false, error: `Unknown terminal ${terminal} at ${airportCode}` },
+        { status: 400 }
+      )
+    }
+
+    const gate = await db.gate.update({
+      where: { id, airportCode },
+      data: {
+        ...data,
+        ...(terminal !== undefined && { terminalId })
+      }
+    })
+
+    // Keep the denormalised gate and terminal codes on flights in step
+    if (data.code || terminal !== undefined) {
+      await updateFlightsWithHistory(
+        { gateId: gate.id },
+        {
+          gate: gate.code,
+          ...(terminal !== undefined && { terminal: terminal || null })
+        },
+        FlightEventSource.REFERENCE_DATA,
+        `gate ${gate.code} updated`
+      )
+    }
+
+    return NextResponse.json<GateResponse>({
+      success: true,
+      data: gate
+    })
+
+  } catch (error) {
+    return handleWriteError(error, 'Gate update error:')
+  }
+}
+
+export const PUT = PATCH
+
+/**
+ * Delete a gate. Its flights keep their gate code but lose the link.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code, id } = await params
+    const airportCode = code.toUpperCase()
+
+    // Unlink nothing unless the gate really is at this airport
+    const existing = await db.gate.findFirst({ where: { id, airportCode } })
+    if (!existing) {
+      return NextResponse.json<GateResponse>(
+        { success: false, error: 'Gate not found' },
+        { status: 404 }
+      )
+    }
+
+    const gate = await db.$transaction(async tx => {
+      await updateFlightsWithHistory({ gateId: id }, { gateId: null }, FlightEventSource.REFERENCE_DATA, `gate ${existing.code} deleted`, tx)
+      return tx.gate.delete({ where: { id, airportCode } })
+    })
+
+    return NextResponse.json<GateResponse>({
+      success: true,
+      data: gate
+    })
+
+  } catch (error) {
+    return handleWriteError(error, 'Gate delete error:')
+  }
+}
+
+function handleWriteError(error: unknown, context: string) {
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    if (error.code === 'P2025') {
+      return NextResponse.json<GateResponse>(
+        { success: false, error: 'Gate not found' },
+        { status: 404 }
+      )
+    }
+    if (error.code === 'P2002') {
+      return NextResponse.json<GateResponse>(
+        { success: false, error: 'A gate with this code already exists at the airport' },
+        { status: 409 }
+      )
+    }
+  }
+
+  console.error(context, error)
+  return NextResponse.json<GateResponse>(
+    { success: false, error: 'Internal server error' },
+    { status: 500 }
+  )
+}
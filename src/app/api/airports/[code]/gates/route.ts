@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Gate, Prisma, StandType, TrafficType } from '@prisma/client'
+import { db } from '@/lib/db'
+import { GateWithTerminal, gateSchema, getTerminalId } from '@/lib/airport-resources'
+
+interface GatesResponse {
+  success: boolean
+  data?: GateWithTerminal[]
+  error?: string
+}
+
+interface GateResponse {
+  success: boolean
+  data?: Gate
+  error?: string
+  details?: string[]
+}
+
+interface RouteContext {
+  params: Promise<{ code: string }>
+}
+
+/**
+ * List an airport's gates, optionally filtered by `terminal`, `type`, `traffic` and `isActive`
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code } = await params
+    const { searchParams } = new URL(request.url)
+    const terminal = searchParams.get('terminal')
+    const type = searchParams.get('type')?.toUpperCase()
+    const traffic = searchParams.get('traffic')?.toUpperCase()
+    const isActive = searchParams.get('isActive')
+
+    const gates = await db.gate.findMany({
+      where: {
+        airportCode: code.toUpperCase(),
+        ...(terminal && { terminal: { code: terminal.toUpperCase() } }),
+        ...(type && type in StandType && { type: type as StandType }),
+        ...(traffic && traffic in TrafficType && { traffic: traffic as TrafficType }),
+        ...(isActive !== null && { isActive: isActive === 'true' })
+      },
+      include: { terminal: true },
+      orderBy: { code: 'asc' }
+    })
+
+    return NextResponse.json<GatesResponse>({
+      success: true,
+      data: gates
+    })
+
+  } catch (error) {
+    console.error('Gate list error:', error)
+    return NextResponse.json<GatesResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Add a gate or stand to an airport, optionally in a terminal given by code
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code } = await params
+    const airportCode = code.toUpperCase()
+    const parsed = gateSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json<GateResponse>(
+        {
+          success: false,
+          error: 'Invalid gate',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const { terminal, ...data } = parsed.data
+    const terminalId = terminal ? await getTerminalId(airportCode, terminal) : null
+    if (terminal && !terminalId) {
+      return NextResponse.json<GateResponse>(
+        { success: false, error: `Unknown terminal ${terminal} at ${airportCode}` },
+        { status: 400 }
+      )
+    }
+
+    const gate = await db.gate.create({
+      data: { ...data, terminalId, airportCode }
+    })
+
+    return NextResponse.json<GateResponse>(
+      { success: true, data: gate },
+      { status: 201 }
+    )
+
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      if (error.code === 'P2002') {
+        return NextResponse.json<GateResponse>(
+          { success: false, error: 'A gate with this code already exists at the airport' },
+          { status: 409 }
+        )
+      }
+      if (error.code === 'P2003') {
+        return NextResponse.json<GateResponse>(
+          { success: false, error: 'Unknown airport' },
+          { status: 404 }
+        )
+      }
+    }
+
+    console.error('Gate create error:', error)
+    return NextResponse.json<GateResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
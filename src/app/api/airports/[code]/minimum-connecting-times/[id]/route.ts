@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { MinimumConnectingTime, Prisma } from '@prisma/client'
+import { db } from '@/lib/db'
+import { minimumConnectingTimeSchema } from '@/lib/airport-resources'
+
+interface MinimumConnectingTimeResponse {
+  success: boolean
+  data?: MinimumConnectingTime
+  error?: string
+  details?: string[]
+}
+
+interface RouteContext {
+  params: Promise<{ code: string; id: string }>
+}
+
+/**
+ * Update a minimum connecting time's terminals or minutes
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code, id } = await params
+    const parsed = minimumConnectingTimeSchema.partial().safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json<MinimumConnectingTimeResponse>(
+        {
+          success: false,
+          error: 'Invalid minimum connecting time',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const mct = await db.minimumConnectingTime.update({
+      where: { id, airportCode: code.toUpperCase() },
+      data: parsed.data
+    })
+
+    return NextResponse.json<MinimumConnectingTimeResponse>({
+      success: true,
+      data: mct
+    })
+
+  } catch (error) {
+    return handleWriteError(error, 'Minimum connecting time update error:')
+  }
+}
+
+export const PUT = PATCH
+
+/**
+ * Delete a minimum connecting time
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code, id } = await params
+    const mct = await db.minimumConnectingTime.delete({
+      where: { id, airportCode: code.toUpperCase() }
+    })
+
+    return NextResponse.json<MinimumConnectingTimeResponse>({
+      success: true,
+      data: mct
+    })
+
+  } catch (error) {
+    return handleWriteError(error, 'Minimum connecting time delete error:')
+  }
+}
+
+function handleWriteError(error: unknown, context: string) {
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    if (error.code === 'P2025') {
+      return NextResponse.json<MinimumConnectingTimeResponse>(
+        { success: false, error: 'Minimum connecting time not found' },
+        { status: 404 }
+      )
+    }
+    if (error.code === 'P2002') {
+      return NextResponse.json<MinimumConnectingTimeResponse>(
+        { success: false, error: 'A minimum connecting time already exists for these terminals' },
+        { status: 409 }
+      )
+    }
+  }
+
+  console.error(context, error)
+  return NextResponse.json<MinimumConnectingTimeResponse>(
+    { success: false, error: 'Internal server error' },
+    { status: 500 }
+  )
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { MinimumConnectingTime, Prisma } from '@prisma/client'
+import { db } from '@/lib/db'
+import { minimumConnectingTimeSchema } from '@/lib/airport-resources'
+
+interface MinimumConnectingTimesResponse {
+  success: boolean
+  data?: MinimumConnectingTime[]
+  error?: string
+}
+
+interface MinimumConnectingTimeResponse {
+  success: boolean
+  data?: MinimumConnectingTime
+  error?: string
+  details?: string[]
+}
+
+interface RouteContext {
+  params: Promise<{ code: string }>
+}
+
+/**
+ * List an airport's minimum connecting times by terminal pair
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code } = await params
+    const mcts = await db.minimumConnectingTime.findMany({
+      where: { airportCode: code.toUpperCase() },
+      orderBy: [{ fromTerminal: 'asc' }, { toTerminal: 'asc' }]
+    })
+
+    return NextResponse.json<MinimumConnectingTimesResponse>({
+      success: true,
+      data: mcts
+    })
+
+  } catch (error) {
+    console.error('Minimum connecting time list error:', error)
+    return NextResponse.json<MinimumConnectingTimesResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Declare the minimum connecting time from one terminal to another
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code } = await params
+    const parsed = minimumConnectingTimeSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json<MinimumConnectingTimeResponse>(
+        {
+          success: false,
+          error: 'Invalid minimum connecting time',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const mct = await db.minimumConnectingTime.create({
+      data: { ...parsed.data, airportCode: code.toUpperCase() }
+    })
+
+    return NextResponse.json<MinimumConnectingTimeResponse>(
+      { success: true, data: mct },
+      { status: 201 }
+    )
+
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      if (error.code === 'P2002') {
+        return NextResponse.json<MinimumConnectingTimeResponse>(
+          { success: false, error: 'A minimum connecting time already exists for these terminals' },
+          { status: 409 }
+        )
+      }
+      if (error.code === 'P2003') {
+        return NextResponse.json<MinimumConnectingTimeResponse>(
+          { success: false, error: 'Unknown airport' },
+          { status: 404 }
+        )
+      }
+    }
+
+    console.error('Minimum connecting time create error:', error)
+    return NextResponse.json<MinimumConnectingTimeResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
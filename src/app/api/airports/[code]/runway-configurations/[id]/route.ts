@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma, Runway, RunwayConfiguration } from '@prisma/client'
+import { db } from '@/lib/db'
+import { activateRunwayConfiguration, getRunwayIds, runwayConfigurationSchema } from '@/lib/airport-resources'
+
+interface RunwayConfigurationResponse {
+  success: boolean
+  data?: RunwayConfiguration & { runways?: Runway[] }
+  error?: string
+  details?: string[]
+}
+
+interface RouteContext {
+  params: Promise<{ code: string; id: string }>
+}
+
+const runwayConfigurationUpdateSchema = runwayConfigurationSchema.partial()
+
+/**
+ * Update a runway configuration. `runways` replaces its runway list; setting
+ * `isActive` deactivates the airport's other configurations.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code, id } = await params
+    const airportCode = code.toUpperCase()
+    const parsed = runwayConfigurationUpdateSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json<RunwayConfigurationResponse>(
+        {
+          success: false,
+          error: 'Invalid runway configuration',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const { runways, ...data } = parsed.data
+    const resolved = runways ? await getRunwayIds(airportCode, runways) : null
+    if (resolved && resolved.missing.length > 0) {
+      return NextResponse.json<RunwayConfigurationResponse>(
+        { success: false, error: `Unknown runways at ${airportCode}: ${resolved.missing.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const configuration = await db.runwayConfiguration.update({
+      where: { id, airportCode },
+      data: {
+        ...data,
+        ...(resolved && { runways: { set: resolved.ids.map(runwayId => ({ id: runwayId })) } })
+      },
+      include: { runways: true }
+    })
+    if (data.isActive) {
+      await activateRunwayConfiguration(airportCode, configuration.id)
+    }
+
+    return NextResponse.json<RunwayConfigurationResponse>({
+      success: true,
+      data: configuration
+    })
+
+  } catch (error) {
+    return handleWriteError(error, 'Runway configuration update error:')
+  }
+}
+
+export const PUT = PATCH
+
+/**
+ * Delete a runway configuration. Its runways are kept.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code, id } = await params
+    const configuration = await db.runwayConfiguration.delete({
+      where: { id, airportCode: code.toUpperCase() }
+    })
+
+    return NextResponse.json<RunwayConfigurationResponse>({
+      success: true,
+      data: configuration
+    })
+
+  } catch (error) {
+    return handleWriteError(error, 'Runway configuration delete error:')
+  }
+}
+
+function handleWriteError(error: unknown, context: string) {
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    if (error.code === 'P2025') {
+      return NextResponse.json<RunwayConfigurationResponse>(
+        { success: false, error: 'Runway configuration not found' },
+        { status: 404 }
+      )
+    }
+    if (error.code === 'P2002') {
+      return NextResponse.json<RunwayConfigurationResponse>(
+        { success: false, error: 'A runway configuration with this name already exists at the airport' },
+        { status: 409 }
+      )
+    }
+    if (error.code === 'P2003') {
+      return NextResponse.json<RunwayConfigurationResponse>(
+        { success: false, error: 'The runway configuration has capacity declarations; delete those first' },
+        { status: 409 }
+      )
+    }
+  }
+
+  console.error(context, error)
+  return NextResponse.json<RunwayConfigurationResponse>(
+    { success: false, error: 'Internal server error' },
+    { status: 500 }
+  )
+}
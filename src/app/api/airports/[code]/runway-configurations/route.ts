@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma, Runway, RunwayConfiguration } from '@prisma/client'
+import { db } from '@/lib/db'
+import { activateRunwayConfiguration, getRunwayIds, runwayConfigurationSchema } from '@/lib/airport-resources'
+
+type RunwayConfigurationWithRunways = RunwayConfiguration & { runways: Runway[] }
+
+interface RunwayConfigurationsResponse {
+  success: boolean
+  data?: RunwayConfigurationWithRunways[]
+  error?: string
+}
+
+interface RunwayConfigurationResponse {
+  success: boolean
+  data?: RunwayConfigurationWithRunways
+  error?: string
+  details?: string[]
+}
+
+interface RouteContext {
+  params: Promise<{ code: string }>
+}
+
+/**
+ * List an airport's runway configurations with their runways
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code } = await params
+    const configurations = await db.runwayConfiguration.findMany({
+      where: { airportCode: code.toUpperCase() },
+      include: { runways: { orderBy: { designator: 'asc' } } },
+      orderBy: { name: 'asc' }
+    })
+
+    return NextResponse.json<RunwayConfigurationsResponse>({
+      success: true,
+      data: configurations
+    })
+
+  } catch (error) {
+    console.error('Runway configuration list error:', error)
+    return NextResponse.json<RunwayConfigurationsResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Add a runway configuration from runway designators. Creating it active
+ * deactivates the airport's other configurations.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code } = await params
+    const airportCode = code.toUpperCase()
+    const parsed = runwayConfigurationSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json<RunwayConfigurationResponse>(
+        {
+          success: false,
+          error: 'Invalid runway configuration',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const { runways, ...data } = parsed.data
+    const { ids, missing } = await getRunwayIds(airportCode, runways)
+    if (missing.length > 0) {
+      return NextResponse.json<RunwayConfigurationResponse>(
+        { success: false, error: `Unknown runways at ${airportCode}: ${missing.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const configuration = await db.runwayConfiguration.create({
+      data: { ...data, airportCode, runways: { connect: ids.map(id => ({ id })) } },
+      include: { runways: true }
+    })
+    if (configuration.isActive) {
+      await activateRunwayConfiguration(airportCode, configuration.id)
+    }
+
+    return NextResponse.json<RunwayConfigurationResponse>(
+      { success: true, data: configuration },
+      { status: 201 }
+    )
+
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json<RunwayConfigurationResponse>(
+        { success: false, error: 'A runway configuration with this name already exists at the airport' },
+        { status: 409 }
+      )
+    }
+
+    console.error('Runway configuration create error:', error)
+    return NextResponse.json<RunwayConfigurationResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma, Runway } from '@prisma/client'
+import { db } from '@/lib/db'
+import { runwaySchema } from '@/lib/airport-resources'
+
+interface RunwayResponse {
+  success: boolean
+  data?: Runway
+  error?: string
+  details?: string[]
+}
+
+interface RouteContext {
+  params: Promise<{ code: string; id: string }>
+}
+
+const runwayUpdateSchema = runwaySchema.partial()
+
+/**
+ * Update a runway's designator, dimensions or active flag
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code, id } = await params
+    const parsed = runwayUpdateSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json<RunwayResponse>(
+        {
+          success: false,
+          error: 'Invalid runway',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const runway = await db.runway.update({
+      where: { id, airportCode: code.toUpperCase() },
+      data: parsed.data
+    })
+
+    return NextResponse.json<RunwayResponse>({
+      success: true,
+      data: runway
+    })
+
+  } catch (error) {
+    return handleWriteError(error, 'Runway update error:')
+  }
+}
+
+export const PUT = PATCH
+
+/**
+ * Delete a runway and remove it from any runway configuration
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code, id } = await params
+    const runway = await db.runway.delete({
+      where: { id, airportCode: code.toUpperCase() }
+    })
+
+    return NextResponse.json<RunwayResponse>({
+      success: true,
+      data: runway
+    })
+
+  } catch (error) {
+    return handleWriteError(error, 'Runway delete error:')
+  }
+}
+
+function handleWriteError(error: unknown, context: string) {
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    if (error.code === 'P2025') {
+      return NextResponse.json<RunwayResponse>(
+        { success: false, error: 'Runway not found' },
+        { status: 404 }
+      )
+    }
+    if (error.code === 'P2002') {
+      return NextResponse.json<RunwayResponse>(
+        { success: false, error: 'A runway with this designator already exists at the airport' },
+        { status: 409 }
+      )
+    }
+  }
+
+  console.error(context, error)
+  return NextResponse.json<RunwayResponse>(
+    { success: false, error: 'Internal server error' },
+    { status: 500 }
+  )
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma, Runway } from '@prisma/client'
+import { db } from '@/lib/db'
+import { runwaySchema } from '@/lib/airport-resources'
+
+interface RunwaysResponse {
+  success: boolean
+  data?: Runway[]
+  error?: string
+}
+
+interface RunwayResponse {
+  success: boolean
+  data?: Runway
+  error?: string
+  details?: string[]
+}
+
+interface RouteContext {
+  params: Promise<{ code: string }>
+}
+
+/**
+ * List an airport's runways, optionally filtered by `isActive`
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code } = await params
+    const { searchParams } = new URL(request.url)
+    const isActive = searchParams.get('isActive')
+
+    const runways = await db.runway.findMany({
+      where: {
+        airportCode: code.toUpperCase(),
+        ...(isActive !== null && { isActive: isActive === 'true' })
+      },
+      orderBy: { designator: 'asc' }
+    })
+
+    return NextResponse.json<RunwaysResponse>({
+      success: true,
+      data: runways
+    })
+
+  } catch (error) {
+    console.error('Runway list error:', error)
+    return NextResponse.json<RunwaysResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Add a runway to an airport
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code } = await params
+    const parsed = runwaySchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json<RunwayResponse>(
+        {
+          success: false,
+          error: 'Invalid runway',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const runway = await db.runway.create({
+      data: { ...parsed.data, airportCode: code.toUpperCase() }
+    })
+
+    return NextResponse.json<RunwayResponse>(
+      { success: true, data: runway },
+      { status: 201 }
+    )
+
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      if (error.code === 'P2002') {
+        return NextResponse.json<RunwayResponse>(
+          { success: false, error: 'A runway with this designator already exists at the airport' },
+          { status: 409 }
+        )
+      }
+      if (error.code === 'P2003') {
+        return NextResponse.json<RunwayResponse>(
+          { success: false, error: 'Unknown airport' },
+          { status: 404 }
+        )
+      }
+    }
+
+    console.error('Runway create error:', error)
+    return NextResponse.json<RunwayResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
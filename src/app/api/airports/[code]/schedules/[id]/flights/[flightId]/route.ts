@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ScheduledFlight } from '@prisma/client'
+import { z } from 'zod'
+import {
+  ScheduleConflictError,
+  ScheduleNotFoundError,
+  ScheduleStateError,
+  deleteScheduledFlight,
+  scheduledFlightFields,
+  updateScheduledFlight
+} from '@/lib/schedules'
+
+interface ScheduledFlightResponse {
+  success: boolean
+  data?: ScheduledFlight
+  error?: string
+  details?: string[]
+}
+
+interface RouteContext {
+  params: Promise<{ code: string; id: string; flightId: string }>
+}
+
+/**
+ * Change a flight in a draft schedule version
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code, id, flightId } = await params
+    const parsed = scheduledFlightFields.partial().safeParse(await request.json())
+    if (!parsed.success) {
+      return handleScheduledFlightError(parsed.error, 'Scheduled flight update error:')
+    }
+
+    const flight = await updateScheduledFlight(code.toUpperCase(), id, flightId, parsed.data)
+
+    return NextResponse.json<ScheduledFlightResponse>({
+      success: true,
+      data: flight
+    })
+
+  } catch (error) {
+    return handleScheduledFlightError(error, 'Scheduled flight update error:')
+  }
+}
+
+export const PUT = PATCH
+
+/**
+ * Remove a flight from a draft schedule version
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code, id, flightId } = await params
+    const flight = await deleteScheduledFlight(code.toUpperCase(), id, flightId)
+
+    return NextResponse.json<ScheduledFlightResponse>({
+      success: true,
+      data: flight
+    })
+
+  } catch (error) {
+    return handleScheduledFlightError(error, 'Scheduled flight delete error:')
+  }
+}
+
+function handleScheduledFlightError(error: unknown, context: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json<ScheduledFlightResponse>(
+      {
+        success: false,
+        error: 'Invalid scheduled flight',
+        details: error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+      },
+      { status: 400 }
+    )
+  }
+  if (error instanceof ScheduleNotFoundError) {
+    return NextResponse.json<ScheduledFlightResponse>(
+      { success: false, error: error.message },
+      { status: 404 }
+    )
+  }
+  if (error instanceof ScheduleStateError || error instanceof ScheduleConflictError) {
+    return NextResponse.json<ScheduledFlightResponse>(
+      { success: false, error: error.message },
+      { status: 409 }
+    )
+  }
+
+  console.error(context, error)
+  return NextResponse.json<ScheduledFlightResponse>(
+    { success: false, error: 'Internal server error' },
+    { status: 500 }
+  )
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ScheduledFlight } from '@prisma/client'
+import { z } from 'zod'
+import {
+  ScheduleConflictError,
+  ScheduleNotFoundError,
+  ScheduleStateError,
+  addScheduledFlights,
+  scheduledFlightSchema
+} from '@/lib/schedules'
+
+interface ScheduledFlightsResponse {
+  success: boolean
+  data?: ScheduledFlight[]
+  error?: string
+  details?: string[]
+}
+
+interface RouteContext {
+  params: Promise<{ code: string; id: string }>
+}
+
+const scheduledFlightsSchema = z.object({
+  flights: z.array(scheduledFlightSchema).min(1)
+})
+
+/**
+ * Add `{ flights: [...] }` to a draft schedule version
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code, id } = await params
+    const parsed = scheduledFlightsSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json<ScheduledFlightsResponse>(
+        {
+          success: false,
+          error: 'Invalid scheduled flights',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const flights = await addScheduledFlights(code.toUpperCase(), id, parsed.data.flights)
+
+    return NextResponse.json<ScheduledFlightsResponse>(
+      { success: true, data: flights },
+      { status: 201 }
+    )
+
+  } catch (error) {
+    if (error instanceof ScheduleNotFoundError) {
+      return NextResponse.json<ScheduledFlightsResponse>(
+        { success: false, error: error.message },
+        { status: 404 }
+      )
+    }
+    if (error instanceof ScheduleStateError || error instanceof ScheduleConflictError) {
+      return NextResponse.json<ScheduledFlightsResponse>(
+        { success: false, error: error.message },
+        { status: 409 }
+      )
+    }
+
+    console.error('Scheduled flight create error:', error)
+    return NextResponse.json<ScheduledFlightsResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
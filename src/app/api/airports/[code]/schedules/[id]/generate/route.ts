@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  FlightGenerationReport,
+  ScheduleNotFoundError,
+  ScheduleStateError,
+  flightGenerationSchema,
+  generateFlights
+} from '@/lib/schedules'
+
+interface FlightGenerationResponse {
+  success: boolean
+  data?: FlightGenerationReport
+  error?: string
+  details?: string[]
+}
+
+interface RouteContext {
+  params: Promise<{ code: string; id: string }>
+}
+
+/**
+ * Generate the airport's flights from a published schedule version, for the rest
+ * of its season or the local dates `from` to `to`
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code, id } = await params
+    const parsed = flightGenerationSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json<FlightGenerationResponse>(
+        {
+          success: false,
+          error: 'Invalid generation period',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const report = await generateFlights(code.toUpperCase(), id, parsed.data)
+
+    return NextResponse.json<FlightGenerationResponse>({
+      success: true,
+      data: report
+    })
+
+  } catch (error) {
+    if (error instanceof ScheduleNotFoundError) {
+      return NextResponse.json<FlightGenerationResponse>(
+        { success: false, error: error.message },
+        { status: 404 }
+      )
+    }
+    if (error instanceof ScheduleStateError) {
+      return NextResponse.json<FlightGenerationResponse>(
+        { success: false, error: error.message },
+        { status: 409 }
+      )
+    }
+
+    console.error('Flight generation error:', error)
+    return NextResponse.json<FlightGenerationResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
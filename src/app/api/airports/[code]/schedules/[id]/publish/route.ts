@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Schedule } from '@prisma/client'
+import { ScheduleNotFoundError, ScheduleStateError, publishSchedule } from '@/lib/schedules'
+
+interface SchedulePublishResponse {
+  success: boolean
+  data?: Schedule
+  error?: string
+}
+
+interface RouteContext {
+  params: Promise<{ code: string; id: string }>
+}
+
+/**
+ * Publish a draft schedule version, superseding the season's previously published one
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code, id } = await params
+    const schedule = await publishSchedule(code.toUpperCase(), id)
+
+    return NextResponse.json<SchedulePublishResponse>({
+      success: true,
+      data: schedule
+    })
+
+  } catch (error) {
+    if (error instanceof ScheduleNotFoundError) {
+      return NextResponse.json<SchedulePublishResponse>(
+        { success: false, error: error.message },
+        { status: 404 }
+      )
+    }
+    if (error instanceof ScheduleStateError) {
+      return NextResponse.json<SchedulePublishResponse>(
+        { success: false, error: error.message },
+        { status: 409 }
+      )
+    }
+
+    console.error('Schedule publish error:', error)
+    return NextResponse.json<SchedulePublishResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
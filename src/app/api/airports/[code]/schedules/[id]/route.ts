@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma, ScheduleStatus } from '@prisma/client'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { ScheduleNotFoundError, ScheduleStateError, ScheduleWithFlights, getSchedule } from '@/lib/schedules'
+
+interface ScheduleResponse {
+  success: boolean
+  data?: ScheduleWithFlights
+  error?: string
+  details?: string[]
+}
+
+interface RouteContext {
+  params: Promise<{ code: string; id: string }>
+}
+
+// Season and version are fixed once a version exists; flights change through /flights
+const scheduleUpdateSchema = z.object({
+  name: z.string().trim().min(1).nullable()
+})
+
+/**
+ * Get a schedule version with its flights
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code, id } = await params
+    const schedule = await getSchedule(code.toUpperCase(), id)
+
+    return NextResponse.json<ScheduleResponse>({
+      success: true,
+      data: schedule
+    })
+
+  } catch (error) {
+    return handleScheduleError(error, 'Schedule fetch error:')
+  }
+}
+
+/**
+ * Rename a schedule version
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code, id } = await params
+    const parsed = scheduleUpdateSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json<ScheduleResponse>(
+        {
+          success: false,
+          error: 'Invalid schedule',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const schedule = await db.schedule.update({
+      where: { id, airportCode: code.toUpperCase() },
+      data: parsed.data,
+      include: { flights: { orderBy: [{ departureTime: 'asc' }, { flightNumber: 'asc' }] } }
+    })
+
+    return NextResponse.json<ScheduleResponse>({
+      success: true,
+      data: schedule
+    })
+
+  } catch (error) {
+    return handleScheduleError(error, 'Schedule update error:')
+  }
+}
+
+export const PUT = PATCH
+
+/**
+ * Delete a draft schedule version and its flights
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code, id } = await params
+    const schedule = await getSchedule(code.toUpperCase(), id)
+    if (schedule.status !== ScheduleStatus.DRAFT) {
+      throw new ScheduleStateError(`Schedule ${schedule.season} v${schedule.version} is ${schedule.status}; only drafts can be deleted`)
+    }
+
+    await db.schedule.delete({ where: { id } })
+
+    return NextResponse.json<ScheduleResponse>({
+      success: true,
+      data: schedule
+    })
+
+  } catch (error) {
+    return handleScheduleError(error, 'Schedule delete error:')
+  }
+}
+
+function handleScheduleError(error: unknown, context: string) {
+  if (error instanceof ScheduleNotFoundError ||
+      (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025')) {
+    return NextResponse.json<ScheduleResponse>(
+      { success: false, error: 'Schedule not found' },
+      { status: 404 }
+    )
+  }
+  if (error instanceof ScheduleStateError) {
+    return NextResponse.json<ScheduleResponse>(
+      { success: false, error: error.message },
+      { status: 409 }
+    )
+  }
+
+  console.error(context, error)
+  return NextResponse.json<ScheduleResponse>(
+    { success: false, error: 'Internal server error' },
+    { status: 500 }
+  )
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ScheduleDiff, ScheduleNotFoundError, diffSchedules, getSchedule } from '@/lib/schedules'
+
+interface ScheduleDiffResponse {
+  success: boolean
+  data?: ScheduleDiff
+  error?: string
+}
+
+interface RouteContext {
+  params: Promise<{ code: string }>
+}
+
+/**
+ * Compare schedule version `from` with version `to`: flights added, cancelled,
+ * retimed or otherwise changed, by day of the week
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code } = await params
+    const airportCode = code.toUpperCase()
+    const { searchParams } = new URL(request.url)
+    const from = searchParams.get('from')
+    const to = searchParams.get('to')
+
+    if (!from || !to) {
+      return NextResponse.json<ScheduleDiffResponse>(
+        { success: false, error: 'Both "from" and "to" schedule ids are required' },
+        { status: 400 }
+      )
+    }
+
+    const [before, after] = await Promise.all([getSchedule(airportCode, from), getSchedule(airportCode, to)])
+
+    return NextResponse.json<ScheduleDiffResponse>({
+      success: true,
+      data: diffSchedules(before, after)
+    })
+
+  } catch (error) {
+    if (error instanceof ScheduleNotFoundError) {
+      return NextResponse.json<ScheduleDiffResponse>(
+        { success: false, error: error.message },
+        { status: 404 }
+      )
+    }
+
+    console.error('Schedule diff error:', error)
+    return NextResponse.json<ScheduleDiffResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
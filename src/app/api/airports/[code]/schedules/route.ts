@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma, Schedule, ScheduleStatus } from '@prisma/client'
+import { db } from '@/lib/db'
+import { ScheduleNotFoundError, ScheduleWithFlights, createSchedule, scheduleSchema } from '@/lib/schedules'
+
+interface SchedulesResponse {
+  success: boolean
+  data?: (Schedule & { flightCount: number })[]
+  error?: string
+}
+
+interface ScheduleResponse {
+  success: boolean
+  data?: ScheduleWithFlights
+  error?: string
+  details?: string[]
+}
+
+interface RouteContext {
+  params: Promise<{ code: string }>
+}
+
+/**
+ * List an airport's schedule versions, optionally for one `season` or `status`
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code } = await params
+    const { searchParams } = new URL(request.url)
+    const season = searchParams.get('season')
+    const status = searchParams.get('status')?.toUpperCase()
+
+    if (status && !(status in ScheduleStatus)) {
+      return NextResponse.json<SchedulesResponse>(
+        { success: false, error: `Unknown schedule status "${status}". Use one of ${Object.keys(ScheduleStatus).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const schedules = await db.schedule.findMany({
+      where: {
+        airportCode: code.toUpperCase(),
+        ...(season && { season: season.toUpperCase() }),
+        ...(status && { status: status as ScheduleStatus })
+      },
+      include: { _count: { select: { flights: true } } },
+      orderBy: [{ season: 'asc' }, { version: 'desc' }]
+    })
+
+    return NextResponse.json<SchedulesResponse>({
+      success: true,
+      data: schedules.map(({ _count, ...schedule }) => ({ ...schedule, flightCount: _count.flights }))
+    })
+
+  } catch (error) {
+    console.error('Schedule list error:', error)
+    return NextResponse.json<SchedulesResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Start a new draft version for a season, optionally copying the flights of `copyFrom`
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code } = await params
+    const parsed = scheduleSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json<ScheduleResponse>(
+        {
+          success: false,
+          error: 'Invalid schedule',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const schedule = await createSchedule(code.toUpperCase(), parsed.data)
+
+    return NextResponse.json<ScheduleResponse>(
+      { success: true, data: schedule },
+      { status: 201 }
+    )
+
+  } catch (error) {
+    if (error instanceof ScheduleNotFoundError) {
+      return NextResponse.json<ScheduleResponse>(
+        { success: false, error: error.message },
+        { status: 404 }
+      )
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      if (error.code === 'P2002') {
+        return NextResponse.json<ScheduleResponse>(
+          { success: false, error: 'Another version of this schedule was created at the same time; try again' },
+          { status: 409 }
+        )
+      }
+      if (error.code === 'P2003') {
+        return NextResponse.json<ScheduleResponse>(
+          { success: false, error: 'Unknown airport' },
+          { status: 404 }
+        )
+      }
+    }
+
+    console.error('Schedule create error:', error)
+    return NextResponse.json<ScheduleResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Slot } from '@prisma/client'
+import { db } from '@/lib/db'
+import { FlightDataProcessor } from '@/lib/flight-data-processor'
+import { allocateSlots, saveSlots } from '@/lib/capacity'
+import { FlightDateFilter, InvalidDateFilterError, dateFilterFromSearchParams, resolveDateFilter } from '@/lib/date-filter'
+import { formatLocalDateTime } from '@/lib/timezone'
+
+interface SlotAllocationRequest extends FlightDateFilter {
+  runwayConfiguration?: string
+}
+
+interface SlotsResponse {
+  success: boolean
+  data?: (Slot & { flightNumber: string; localSlotTime: string; shiftMinutes: number })[]
+  error?: string
+}
+
+interface SlotAllocationResponse {
+  success: boolean
+  data?: {
+    allocated: number
+    shifted: number
+    refused: { id: string; flightNumber: string; scheduledDeparture: string }[]
+  }
+  error?: string
+}
+
+interface RouteContext {
+  params: Promise<{ code: string }>
+}
+
+/**
+ * List an airport's allocated slots, optionally limited with `date`, `from` and `to`
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code } = await params
+    const airportCode = code.toUpperCase()
+    const { searchParams } = new URL(request.url)
+    const timeZone = await FlightDataProcessor.getInstance().getAirportTimeZone(airportCode)
+    const resolved = resolveDateFilter(dateFilterFromSearchParams(searchParams), timeZone)
+
+    const slots = await db.slot.findMany({
+      where: {
+        airportCode,
+        ...(resolved && (resolved.start || resolved.end) && {
+          slotTime: {
+            ...(resolved.start && { gte: resolved.start }),
+            ...(resolved.end && { lt: resolved.end })
+          }
+        })
+      },
+      include: { flight: { select: { flightNumber: true } } },
+      orderBy: { slotTime: 'asc' }
+    })
+
+    return NextResponse.json<SlotsResponse>({
+      success: true,
+      data: slots.map(({ flight, ...slot }) => ({
+        ...slot,
+        flightNumber: flight.flightNumber,
+        localSlotTime: formatLocalDateTime(slot.slotTime, timeZone),
+        shiftMinutes: Math.round((slot.slotTime.getTime() - slot.requestedTime.getTime()) / 60000)
+      }))
+    })
+
+  } catch (error) {
+    if (error instanceof InvalidDateFilterError) {
+      return NextResponse.json<SlotsResponse>(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Slot list error:', error)
+    return NextResponse.json<SlotsResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Allocate slots to the airport's stored flights in a period against the declared
+ * capacity, replacing their existing slots
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code } = await params
+    const airportCode = code.toUpperCase()
+    const body: SlotAllocationRequest = await request.json().catch(() => ({}))
+    const { date, from, to, dayOfWeek, runwayConfiguration } = body
+
+    const processor = FlightDataProcessor.getInstance()
+    const timeZone = await processor.getAirportTimeZone(airportCode)
+    const flights = await processor.queryFlightData(airportCode, { date, from, to, dayOfWeek })
+
+    const { allocated, refused } = await allocateSlots(airportCode, flights, timeZone, { runwayConfiguration })
+    await saveSlots(airportCode, allocated)
+
+    return NextResponse.json<SlotAllocationResponse>({
+      success: true,
+      data: {
+        allocated: allocated.length,
+        shifted: allocated.filter(slot => slot.slotTime.getTime() !== slot.requestedTime.getTime()).length,
+        refused: refused.map(flight => ({
+          id: flight.id,
+          flightNumber: flight.flightNumber,
+          scheduledDeparture: formatLocalDateTime(flight.scheduledDeparture, timeZone)
+        }))
+      }
+    })
+
+  } catch (error) {
+    if (error instanceof InvalidDateFilterError) {
+      return NextResponse.json<SlotAllocationResponse>(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Slot allocation error:', error)
+    return NextResponse.json<SlotAllocationResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
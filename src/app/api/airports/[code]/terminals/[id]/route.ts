@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FlightEventSource, Prisma, Terminal } from '@prisma/client'
+import { db } from '@/lib/db'
+import { updateFlightsWithHistory } from '@/lib/flight-events'
+import { terminalSchema } from '@/lib/airport-resources'
+
+interface TerminalResponse {
+  success: boolean
+  data?: Terminal
+  error?: string
+  details?: string[]
+}
+
+interface RouteContext {
+  params: Promise<{ code: string; id: string }>
+}
+
+const terminalUpdateSchema = terminalSchema.partial()
+
+/**
+ * Update a terminal's code, name or traffic type
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code, id } = await params
+    const parsed = terminalUpdateSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json<TerminalResponse>(
+        {
+          success: false,
+          error: 'Invalid terminal',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const terminal = await db.terminal.update({
+      where: { id, airportCode: code.toUpperCase() },
+      data: parsed.data
+    })
+
+    // Keep the denormalised terminal code on flights at its gates in step
+    if (parsed.data.code) {
+      await updateFlightsWithHistory(
+        { assignedGate: { terminalId: terminal.id } },
+        { terminal: terminal.code },
+        FlightEventSource.REFERENCE_DATA,
+        `terminal ${terminal.code} updated`
+      )
+    }
+
+    return NextResponse.json<TerminalResponse>({
+      success: true,
+      data: terminal
+    })
+
+  } catch (error) {
+    return handleWriteError(error, 'Terminal update error:')
+  }
+}
+
+export const PUT = PATCH
+
+/**
+ * Delete a terminal. Its gates stay at the airport without a terminal.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code, id } = await params
+    const airportCode = code.toUpperCase()
+
+    // Detach no gates unless the terminal really is at this airport
+    const existing = await db.terminal.findFirst({ where: { id, airportCode } })
+    if (!existing) {
+      return NextResponse.json<TerminalResponse>(
+        { success: false, error: 'Terminal not found' },
+        { status: 404 }
+      )
+    }
+
+    const [, terminal] = await db.$transaction([
+      db.gate.updateMany({
+        where: { terminalId: id },
+        data: { terminalId: null }
+      }),
+      db.terminal.delete({
+        where: { id, airportCode }
+      })
+    ])
+
+    return NextResponse.json<TerminalResponse>({
+      success: true,
+      data: terminal
+    })
+
+  } catch (error) {
+    return handleWriteError(error, 'Terminal delete error:')
+  }
+}
+
+function handleWriteError(error: unknown, context: string) {
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    if (error.code === 'P2025') {
+      return NextResponse.json<TerminalResponse>(
+        { success: false, error: 'Terminal not found' },
+        { status: 404 }
+      )
+    }
+    if (error.code === 'P2002') {
+      return NextResponse.json<TerminalResponse>(
+        { success: false, error: 'A terminal with this code already exists at the airport' },
+        { status: 409 }
+      )
+    }
+  }
+
+  console.error(context, error)
+  return NextResponse.json<TerminalResponse>(
+    { success: false, error: 'Internal server error' },
+    { status: 500 }
+  )
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma, Terminal } from '@prisma/client'
+import { db } from '@/lib/db'
+import { terminalSchema } from '@/lib/airport-resources'
+
+interface TerminalsResponse {
+  success: boolean
+  data?: (Terminal & { gateCount: number })[]
+  error?: string
+}
+
+interface TerminalResponse {
+  success: boolean
+  data?: Terminal
+  error?: string
+  details?: string[]
+}
+
+interface RouteContext {
+  params: Promise<{ code: string }>
+}
+
+/**
+ * List an airport's terminals with their gate counts
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code } = await params
+    const terminals = await db.terminal.findMany({
+      where: { airportCode: code.toUpperCase() },
+      include: { _count: { select: { gates: true } } },
+      orderBy: { code: 'asc' }
+    })
+
+    return NextResponse.json<TerminalsResponse>({
+      success: true,
+      data: terminals.map(({ _count, ...terminal }) => ({ ...terminal, gateCount: _count.gates }))
+    })
+
+  } catch (error) {
+    console.error('Terminal list error:', error)
+    return NextResponse.json<TerminalsResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Add a terminal to an airport
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code } = await params
+    const parsed = terminalSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json<TerminalResponse>(
+        {
+          success: false,
+          error: 'Invalid terminal',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const terminal = await db.terminal.create({
+      data: { ...parsed.data, airportCode: code.toUpperCase() }
+    })
+
+    return NextResponse.json<TerminalResponse>(
+      { success: true, data: terminal },
+      { status: 201 }
+    )
+
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      if (error.code === 'P2002') {
+        return NextResponse.json<TerminalResponse>(
+          { success: false, error: 'A terminal with this code already exists at the airport' },
+          { status: 409 }
+        )
+      }
+      if (error.code === 'P2003') {
+        return NextResponse.json<TerminalResponse>(
+          { success: false, error: 'Unknown airport' },
+          { status: 404 }
+        )
+      }
+    }
+
+    console.error('Terminal create error:', error)
+    return NextResponse.json<TerminalResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
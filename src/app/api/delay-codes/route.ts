@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DelayCodeGroup } from '@prisma/client'
+import { DELAY_CODE_GROUP_NAMES, DelayCodeReference, loadDelayCodes } from '@/lib/delay-codes'
+
+interface DelayCodesResponse {
+  success: boolean
+  data?: (DelayCodeReference & { groupName: string })[]
+  error?: string
+}
+
+/**
+ * List the IATA delay code catalogue, optionally filtered by `group`
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const group = searchParams.get('group')?.toUpperCase()
+
+    if (group && !(group in DelayCodeGroup)) {
+      return NextResponse.json<DelayCodesResponse>(
+        { success: false, error: `Unknown delay code group "${group}". Use one of ${Object.keys(DelayCodeGroup).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const codes = await loadDelayCodes()
+
+    return NextResponse.json<DelayCodesResponse>({
+      success: true,
+      data: codes
+        .filter(code => !group || code.group === group)
+        .map(code => ({ ...code, groupName: DELAY_CODE_GROUP_NAMES[code.group] }))
+    })
+
+  } catch (error) {
+    console.error('Delay code list error:', error)
+    return NextResponse.json<DelayCodesResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Analytics } from '@prisma/client'
+import { FlightDataProcessor, AirportDataNotConfiguredError } from '@/lib/flight-data-processor'
+import { FlightDateFilter, InvalidDateFilterError, dateFilterFromSearchParams } from '@/lib/date-filter'
+import { DelayPropagationReport, recordDelayPropagation } from '@/lib/delay-propagation'
+
+interface DelayPropagationRequest extends FlightDateFilter {
+  airportCode: string
+}
+
+interface DelayPropagationResponse {
+  success: boolean
+  data?: DelayPropagationReport & { analysesRecorded?: number; analytics?: Analytics }
+  error?: string
+}
+
+/**
+ * Split an airport's delays into primary and reactionary minutes along each
+ * aircraft's rotation, without storing anything.
+ *
+ * Query params: `airportCode` (required) and the usual `date` / `from` / `to` /
+ * `dayOfWeek` filters.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const airportCode = searchParams.get('airportCode')?.toUpperCase()
+
+    if (!airportCode) {
+      return NextResponse.json<DelayPropagationResponse>(
+        { success: false, error: 'Airport code is required' },
+        { status: 400 }
+      )
+    }
+
+    const report = await FlightDataProcessor.getInstance().getDelayPropagation(airportCode, dateFilterFromSearchParams(searchParams))
+
+    return NextResponse.json<DelayPropagationResponse>({
+      success: true,
+      data: report
+    })
+
+  } catch (error) {
+    return handleError(error, 'Delay propagation analysis error:')
+  }
+}
+
+/**
+ * Run the attribution and store it as DelayAnalysis rows and a
+ * DELAY_PROPAGATION analytics record
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { airportCode, date, from, to, dayOfWeek }: DelayPropagationRequest = await request.json()
+
+    if (!airportCode) {
+      return NextResponse.json<DelayPropagationResponse>(
+        { success: false, error: 'Airport code is required' },
+        { status: 400 }
+      )
+    }
+
+    const report = await FlightDataProcessor.getInstance().getDelayPropagation(airportCode, { date, from, to, dayOfWeek })
+    const { analyses, analytics } = await recordDelayPropagation(report)
+
+    return NextResponse.json<DelayPropagationResponse>(
+      { success: true, data: { ...report, analysesRecorded: analyses, analytics } },
+      { status: 201 }
+    )
+
+  } catch (error) {
+    return handleError(error, 'Delay propagation record error:')
+  }
+}
+
+function handleError(error: unknown, context: string) {
+  if (error instanceof InvalidDateFilterError) {
+    return NextResponse.json<DelayPropagationResponse>(
+      { success: false, error: error.message },
+      { status: 400 }
+    )
+  }
+
+  if (error instanceof AirportDataNotConfiguredError) {
+    return NextResponse.json<DelayPropagationResponse>(
+      { success: false, error: error.message },
+      { status: 404 }
+    )
+  }
+
+  console.error(context, error)
+  return NextResponse.json<DelayPropagationResponse>(
+    { success: false, error: 'Internal server error' },
+    { status: 500 }
+  )
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { importFlights, parseImportPayload, FlightImportReport, ImportFormat } from '@/lib/flight-import'
+import { FlightDataProcessor } from '@/lib/flight-data-processor'
+
+interface FlightImportResponse {
+  success: boolean
+  data?: FlightImportReport
+  error?: string
+}
+
+/**
+ * Import a flight schedule without reseeding.
+ *
+ * Accepts a multipart upload (`file`, `airportCode`, optional `dryRun` fields),
+ * a raw `text/csv` body, or a JSON body (`{ airportCode, flights: [...] }` or
+ * a bare array). `airportCode` and `dryRun` may also be given as query params.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const contentType = request.headers.get('content-type') || ''
+
+    let airportCode = searchParams.get('airportCode')
+    let dryRun = searchParams.get('dryRun') === 'true'
+    let content: string
+    let format: ImportFormat
+
+    if (contentType.includes('multipart/form-data')) {
+      const formData = await request.formData()
+      const file = formData.get('file')
+      if (!file || typeof file === 'string') {
+        return NextResponse.json<FlightImportResponse>(
+          { success: false, error: 'A "file" upload is required' },
+          { status: 400 }
+        )
+      }
+
+      content = await file.text()
+      format = file.name.toLowerCase().endsWith('.json') || file.type === 'application/json' ? 'json' : 'csv'
+      const formAirportCode = formData.get('airportCode')
+      if (formAirportCode !== null && typeof formAirportCode !== 'string') {
+        return NextResponse.json<FlightImportResponse>(
+          { success: false, error: 'Airport code must be a string' },
+          { status: 400 }
+        )
+      }
+      airportCode = formAirportCode || airportCode
+      dryRun = formData.get('dryRun') === 'true' || dryRun
+    } else if (contentType.includes('application/json')) {
+      content = await request.text()
+      format = 'json'
+      let body: any
+      try {
+        body = JSON.parse(content)
+      } catch {
+        return NextResponse.json<FlightImportResponse>(
+          { success: false, error: 'Request body is not valid JSON' },
+          { status: 400 }
+        )
+      }
+      const bodyAirportCode = Array.isArray(body) ? undefined : body?.airportCode
+      if (bodyAirportCode !== undefined && bodyAirportCode !== null && typeof bodyAirportCode !== 'string') {
+        return NextResponse.json<FlightImportResponse>(
+          { success: false, error: 'Airport code must be a string' },
+          { status: 400 }
+        )
+      }
+      airportCode = bodyAirportCode || airportCode
+      dryRun = (!Array.isArray(body) && body?.dryRun === true) || dryRun
+    } else {
+      content = await request.text()
+      format = 'csv'
+    }
+
+    if (!airportCode) {
+      return NextResponse.json<FlightImportResponse>(
+        { success: false, error: 'Airport code is required' },
+        { status: 400 }
+      )
+    }
+
+    airportCode = airportCode.toUpperCase()
+    const airport = await db.airport.findUnique({ where: { code: airportCode } })
+    if (!airport) {
+      return NextResponse.json<FlightImportResponse>(
+        { success: false, error: `Unknown airport ${airportCode}` },
+        { status: 404 }
+      )
+    }
+
+    const timeZones = await FlightDataProcessor.getInstance().getAirportTimeZones()
+
+    let payload: ReturnType<typeof parseImportPayload>
+    try {
+      payload = parseImportPayload(content, format, { airportCode, timeZones })
+    } catch (parseError) {
+      return NextResponse.json<FlightImportResponse>(
+        { success: false, error: parseError instanceof Error ? parseError.message : 'Unable to parse upload' },
+        { status: 400 }
+      )
+    }
+
+    const report = await importFlights(airportCode, payload.rows, payload.rejected, dryRun)
+
+    return NextResponse.json<FlightImportResponse>({
+      success: true,
+      data: report
+    })
+
+  } catch (error) {
+    console.error('Flight import error:', error)
+    return NextResponse.json<FlightImportResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FlightDataProcessor } from '@/lib/flight-data-processor'
+import { applyMVTMessage, parseMVT, MVTApplyResult, MVTParseError } from '@/lib/mvt'
+import { broadcastFlightStatus } from '@/lib/socket'
+
+interface MVTIngestionRequest {
+  messages: string
+  referenceDate?: string
+}
+
+interface MVTIngestionResponse {
+  success: boolean
+  data?: {
+    applied: number
+    unmatched: number
+    rejected: number
+    results: MVTApplyResult[]
+    errors: MVTParseError[]
+  }
+  error?: string
+}
+
+/**
+ * Ingest IATA MVT movement messages, sent either as the raw text body or as
+ * JSON `{ messages, referenceDate? }`. Each message updates the matching
+ * flight and is broadcast to its airport room.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const contentType = request.headers.get('content-type') || ''
+    let content: string
+    let referenceDate = new Date()
+
+    if (contentType.includes('application/json')) {
+      const body: MVTIngestionRequest = await request.json()
+      content = body.messages || ''
+      if (body.referenceDate) referenceDate = new Date(body.referenceDate)
+    } else {
+      content = await request.text()
+    }
+
+    if (!content.trim()) {
+      return NextResponse.json<MVTIngestionResponse>(
+        { success: false, error: 'At least one MVT message is required' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(referenceDate.getTime())) {
+      return NextResponse.json<MVTIngestionResponse>(
+        { success: false, error: 'Invalid reference date' },
+        { status: 400 }
+      )
+    }
+
+    const { messages, errors } = parseMVT(content)
+    const processor = FlightDataProcessor.getInstance()
+    const results: MVTApplyResult[] = []
+
+    for (const message of messages) {
+      const result = await applyMVTMessage(message, referenceDate)
+      results.push(result)
+
+      if (result.outcome === 'applied' && result.flightId && result.airportCode && result.changes) {
+        processor.invalidateCache(result.airportCode)
+        broadcastFlightStatus(result.airportCode, {
+          flightId: result.flightId,
+          status: result.changes.status,
+          delayMinutes: result.changes.delayMinutes,
+          actualDeparture: result.changes.actualDeparture?.toISOString(),
+          actualArrival: result.changes.actualArrival?.toISOString(),
+          source: 'MVT',
+          timestamp: new Date().toISOString()
+        })
+      }
+    }
+
+    return NextResponse.json<MVTIngestionResponse>({
+      success: true,
+      data: {
+        applied: results.filter(r => r.outcome === 'applied').length,
+        unmatched: results.filter(r => r.outcome === 'unmatched').length,
+        rejected: errors.length,
+        results,
+        errors
+      }
+    })
+
+  } catch (error) {
+    console.error('MVT ingestion error:', error)
+    return NextResponse.json<MVTIngestionResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
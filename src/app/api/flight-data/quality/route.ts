@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FlightDataProcessor, AirportDataNotConfiguredError } from '@/lib/flight-data-processor'
+import { InvalidDateFilterError, dateFilterFromSearchParams, resolveDateFilter } from '@/lib/date-filter'
+import { auditFlightData, DataQualityReport } from '@/lib/data-quality'
+
+interface DataQualityResponse {
+  success: boolean
+  data?: DataQualityReport
+  error?: string
+}
+
+/**
+ * Report how trustworthy an airport's flight records are.
+ *
+ * Query params: `airportCode` (required), the usual `date` / `from` / `to` /
+ * `dayOfWeek` filters, and `limit` for the number of offending records listed
+ * per issue (default 50).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const airportCode = searchParams.get('airportCode')?.toUpperCase()
+    const limit = parseInt(searchParams.get('limit') || '50')
+
+    if (!airportCode) {
+      return NextResponse.json<DataQualityResponse>(
+        { success: false, error: 'Airport code is required' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(limit) || limit < 0) {
+      return NextResponse.json<DataQualityResponse>(
+        { success: false, error: 'limit must be a non-negative number' },
+        { status: 400 }
+      )
+    }
+
+    const processor = FlightDataProcessor.getInstance()
+    const filter = dateFilterFromSearchParams(searchParams)
+    const flightData = await processor.getFlightData(airportCode, filter)
+
+    // Rejected rows can't be dated, so only attach them to unfiltered reports
+    const filtered = resolveDateFilter(filter, await processor.getAirportTimeZone(airportCode)) !== null
+    const report = await auditFlightData(airportCode, flightData, {
+      recordLimit: limit,
+      ingestionReport: filtered ? undefined : processor.getIngestionReport(airportCode)
+    })
+
+    return NextResponse.json<DataQualityResponse>({
+      success: true,
+      data: report
+    })
+
+  } catch (error) {
+    if (error instanceof InvalidDateFilterError) {
+      return NextResponse.json<DataQualityResponse>(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AirportDataNotConfiguredError) {
+      return NextResponse.json<DataQualityResponse>(
+        { success: false, error: error.message },
+        { status: 404 }
+      )
+    }
+
+    console.error('Data quality audit error:', error)
+    return NextResponse.json<DataQualityResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
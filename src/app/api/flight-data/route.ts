@@ -1,11 +1,42 @@
 import { NextRequest, NextResponse } from 'next/server'
 import ZAI from 'z-ai-web-dev-sdk'
-import { FlightDataProcessor } from '@/lib/flight-data-processor'
+import { FlightDataProcessor, AirportDataNotConfiguredError, PeakHourAnalysis } from '@/lib/flight-data-processor'
+import { FlightDateFilter, InvalidDateFilterError, countOperatingDays, previousPeriod } from '@/lib/date-filter'
+import { formatLocalDateTime, getLocalParts } from '@/lib/timezone'
+import { CapacityPeriod, measureCapacity } from '@/lib/capacity'
+import { getDelayBreakdown } from '@/lib/delay-codes'
+import { TIGHT_CONNECTION_MINUTES, analyzeConnections } from '@/lib/connections'
+import { checkThreshold, describeChange, findOutliers, findTopContributor, rankInsights } from '@/lib/insights'
+import { PunctualityMetrics } from '@/lib/otp'
+import { InvalidPercentileError, RouteBlockTimes } from '@/lib/block-times'
+import { modelRunwayQueue } from '@/lib/runway-queue'
+import { InvalidMovementWindowError, analyzeMovementWindows } from '@/lib/movement-windows'
+import { HeatmapCell, InvalidHeatmapBucketError } from '@/lib/heatmap'
 
-interface FlightAnalysisRequest {
+// Levels past which the insights flag a metric
+const DELAYED_SHARE_THRESHOLD = 20
+const AVERAGE_DELAY_THRESHOLD = 15
+const OTP_TARGET = 80
+const CANCELLATION_RATE_THRESHOLD = 2
+const HIGH_UTILIZATION_THRESHOLD = 90
+const DIRECTIONAL_IMBALANCE_THRESHOLD = 60
+const QUIET_PERIOD_HOURS = 3
+const RUNWAY_QUEUE_DELAY_THRESHOLD = 10
+// Fewer measured movements than this in a heatmap cell are too few to flag
+const MIN_HEATMAP_CELL_MOVEMENTS = 3
+
+interface FlightAnalysisRequest extends FlightDateFilter {
   airportCode: string
-  date?: string
-  analysisType: 'peak-hours' | 'delays' | 'capacity' | 'patterns'
+  analysisType: 'peak-hours' | 'delays' | 'capacity' | 'patterns' | 'connections' | 'on-time-performance' | 'block-times' | 'heatmap'
+  // Expected delay minutes by flight id, for the connections analysis
+  predictedDelays?: Record<string, number>
+  // Share of flights the suggested block times should cover, for the block-times analysis
+  percentile?: number
+  // Rolling window length (5, 15 or 60 minutes) and whether it slides or follows the clock, for the peak-hours analysis
+  windowMinutes?: number
+  windowMode?: 'sliding' | 'fixed'
+  // Hour (60) or quarter-hour (15) columns, for the heatmap analysis
+  bucketMinutes?: number
 }
 
 interface FlightAnalysisResponse {
@@ -17,14 +48,17 @@ interface FlightAnalysisResponse {
 export async function POST(request: NextRequest) {
   try {
     const body: FlightAnalysisRequest = await request.json()
-    const { airportCode, date, analysisType } = body
+    const { airportCode: requestedAirportCode, date, from, to, dayOfWeek, analysisType, predictedDelays, percentile, windowMinutes, windowMode, bucketMinutes } = body
+    const filter: FlightDateFilter = { date, from, to, dayOfWeek }
 
-    if (!airportCode) {
+    if (!requestedAirportCode || typeof requestedAirportCode !== 'string') {
       return NextResponse.json<FlightAnalysisResponse>(
         { success: false, error: 'Airport code is required' },
         { status: 400 }
       )
     }
+    // Flights store upper-case codes, and every analysis below compares against them
+    const airportCode = requestedAirportCode.toUpperCase()
 
     // Initialize flight data processor
     const processor = FlightDataProcessor.getInstance()
@@ -34,16 +68,28 @@ export async function POST(request: NextRequest) {
 
     switch (analysisType) {
       case 'peak-hours':
-        analysisResult = await analyzePeakHours(processor, airportCode, date)
+        analysisResult = await analyzePeakHours(processor, airportCode, filter, windowMinutes, windowMode)
         break
       case 'delays':
-        analysisResult = await analyzeDelays(processor, airportCode, date)
+        analysisResult = await analyzeDelays(processor, airportCode, filter)
         break
       case 'capacity':
-        analysisResult = await analyzeCapacity(processor, airportCode, date)
+        analysisResult = await analyzeCapacity(processor, airportCode, filter)
         break
       case 'patterns':
-        analysisResult = await analyzePatterns(processor, airportCode, date)
+        analysisResult = await analyzePatterns(processor, airportCode, filter)
+        break
+      case 'connections':
+        analysisResult = await analyzeHubConnections(processor, airportCode, filter, predictedDelays)
+        break
+      case 'on-time-performance':
+        analysisResult = await analyzeOnTimePerformance(processor, airportCode, filter)
+        break
+      case 'block-times':
+        analysisResult = await analyzeBlockTimeVariance(processor, airportCode, filter, percentile)
+        break
+      case 'heatmap':
+        analysisResult = await analyzeDelayHeatmap(processor, airportCode, filter, bucketMinutes)
         break
       default:
         return NextResponse.json<FlightAnalysisResponse>(
@@ -54,10 +100,28 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json<FlightAnalysisResponse>({
       success: true,
-      data: analysisResult
+      data: {
+        ...analysisResult,
+        period: await describePeriod(processor, airportCode, filter)
+      }
     })
 
   } catch (error) {
+    if (error instanceof InvalidDateFilterError || error instanceof InvalidPercentileError || error instanceof InvalidMovementWindowError ||
+      error instanceof InvalidHeatmapBucketError) {
+      return NextResponse.json<FlightAnalysisResponse>(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AirportDataNotConfiguredError) {
+      return NextResponse.json<FlightAnalysisResponse>(
+        { success: false, error: error.message },
+        { status: 404 }
+      )
+    }
+
     console.error('Flight data analysis error:', error)
     return NextResponse.json<FlightAnalysisResponse>(
       { success: false, error: 'Internal server error' },
@@ -66,35 +130,70 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function analyzePeakHours(processor: FlightDataProcessor, airportCode: string, date?: string) {
+async function analyzePeakHours(processor: FlightDataProcessor, airportCode: string, filter: FlightDateFilter, windowMinutes?: number, windowMode?: string) {
   try {
     // Get real peak hour analysis from flight data
-    const peakHourData = await processor.getPeakHourAnalysis(airportCode)
+    const peakHourData = await processor.getPeakHourAnalysis(airportCode, filter)
+    // The peak is the busiest rolling window, which clock hours can split in two
+    const rollingWindows = await processor.getMovementWindows(airportCode, filter, windowMinutes, windowMode)
+    const flightData = await processor.getFlightData(airportCode, filter)
+    const timeZone = await processor.getAirportTimeZone(airportCode)
+    const days = countOperatingDays(flightData, timeZone)
+    const previous = await loadPreviousPeriod(processor, airportCode, filter)
     
     // Calculate time-based distribution
-    const morningFlights = peakHourData.filter(h => h.hour >= 6 && h.hour < 12).reduce((sum, h) => sum + h.flightCount, 0)
-    const afternoonFlights = peakHourData.filter(h => h.hour >= 12 && h.hour < 18).reduce((sum, h) => sum + h.flightCount, 0)
-    const eveningFlights = peakHourData.filter(h => h.hour >= 18 && h.hour < 24).reduce((sum, h) => sum + h.flightCount, 0)
+    const flightsBetween = (from: number, to: number) => peakHourData.filter(h => h.hour >= from && h.hour < to).reduce((sum, h) => sum + h.flightCount, 0)
+    const morningFlights = flightsBetween(6, 12)
+    const afternoonFlights = flightsBetween(12, 18)
+    const eveningFlights = flightsBetween(18, 24)
     const totalFlights = morningFlights + afternoonFlights + eveningFlights
     
-    const peakHour = peakHourData[0]?.hour || 14
-    const peakFlights = peakHourData[0]?.flightCount || 0
+    const peak = rollingWindows.peak.scheduled
+    const windowLabel = `${rollingWindows.windowMinutes}-minute ${rollingWindows.mode} window`
+    const busiest = peakHourData
+      .filter(h => h.utilization !== null)
+      .reduce<PeakHourAnalysis | null>((max, h) => !max || h.utilization! > max.utilization! ? h : max, null)
+    const previousWindows = previous
+      ? analyzeMovementWindows(airportCode, previous.flightData, timeZone, rollingWindows.windowMinutes, rollingWindows.mode)
+      : null
     
     return {
-      peakHour: `${peakHour.toString().padStart(2, '0')}:00`,
-      morningPercentage: Math.round((morningFlights / totalFlights) * 100),
-      afternoonPercentage: Math.round((afternoonFlights / totalFlights) * 100),
-      eveningPercentage: Math.round((eveningFlights / totalFlights) * 100),
+      peakWindow: peak,
+      actualPeakWindow: rollingWindows.peak.actual,
+      morningPercentage: percentage(morningFlights, totalFlights),
+      afternoonPercentage: percentage(afternoonFlights, totalFlights),
+      eveningPercentage: percentage(eveningFlights, totalFlights),
       hourlyDistribution: peakHourData.map(h => ({
-        hour: `${h.hour.toString().padStart(2, '0')}:00`,
+        hour: formatHour(h.hour),
         flights: h.flightCount,
         utilization: h.utilization
       })),
-      insights: [
-        `Peak traffic occurs at ${peakHour.toString().padStart(2, '0')}:00 with ${peakFlights} flights`,
-        `Afternoon hours show highest traffic concentration`,
-        `Morning operations are consistently busy with steady flow`
-      ]
+      rollingWindows,
+      insights: rankInsights([
+        findTopContributor('hourlyFlights', 'flights', peakHourData.map(h => ({ key: String(h.hour), label: formatHour(h.hour), value: h.flightCount })), 'flights'),
+        findTopContributor('timeOfDayFlights', 'flights', [
+          { key: 'night', label: 'Night (00:00-06:00)', value: flightsBetween(0, 6) },
+          { key: 'morning', label: 'Morning (06:00-12:00)', value: morningFlights },
+          { key: 'afternoon', label: 'Afternoon (12:00-18:00)', value: afternoonFlights },
+          { key: 'evening', label: 'Evening (18:00-24:00)', value: eveningFlights }
+        ], 'flights'),
+        ...findOutliers('hourlyFlights', 'hours with traffic', peakHourData.map(h => ({ key: String(h.hour), label: formatHour(h.hour), value: h.flightCount })), 'flights', { higherIsWorse: true }),
+        busiest
+          ? checkThreshold('hourUtilization', `Utilization at ${formatHour(busiest.hour)}`, busiest.utilization, 100, '%', { severity: 'high' }) ||
+            checkThreshold('hourUtilization', `Utilization at ${formatHour(busiest.hour)}`, busiest.utilization, HIGH_UTILIZATION_THRESHOLD, '%')
+          : null,
+        peak
+          ? checkThreshold('actualPeakWindowMovements', `Actual movements in the busiest ${windowLabel}`, rollingWindows.peakCounts.actual.movements, peak.scheduled.movements, 'movements', {
+            evidence: { actualPeakStart: rollingWindows.peak.actual?.start ?? null, scheduledPeakStart: peak.start }
+          })
+          : null,
+        peak && previous && previousWindows
+          ? describeChange('peakWindowMovements', `Scheduled movements in the busiest ${windowLabel}`, peak.scheduled.movements, previousWindows.peak.scheduled?.scheduled.movements, 'movements', previous.periods, { higherIsWorse: true })
+          : null,
+        previous && days > 0
+          ? describeChange('dailyFlights', 'Average daily flights', flightData.length / days, previous.flightData.length / previous.days, 'flights', previous.periods)
+          : null
+      ])
     }
   } catch (error) {
     console.error('Error analyzing peak hours:', error)
@@ -102,33 +201,64 @@ async function analyzePeakHours(processor: FlightDataProcessor, airportCode: str
   }
 }
 
-async function analyzeDelays(processor: FlightDataProcessor, airportCode: string, date?: string) {
+async function analyzeDelays(processor: FlightDataProcessor, airportCode: string, filter: FlightDateFilter) {
   try {
     // Get real airport statistics from flight data
-    const stats = await processor.getAirportStatistics(airportCode)
+    const flightData = await processor.getFlightData(airportCode, filter)
+    const timeZone = await processor.getAirportTimeZone(airportCode)
+    const stats = await processor.getAirportStatistics(airportCode, filter)
+    const breakdown = await getDelayBreakdown(flightData)
+    const propagation = await processor.getDelayPropagation(airportCode, filter)
+    const previous = await loadPreviousPeriod(processor, airportCode, filter)
+    const previousStats = previous ? await processor.getAirportStatistics(airportCode, previous.filter) : null
+    
+    const delayedShare = percentage(stats.delayedFlights, stats.totalFlights)
+    const delayed = flightData.filter(f => (f.delayMinutes || 0) > 0)
+    const routeDelays = new Map<string, number>()
+    delayed.forEach(f => {
+      const route = `${f.origin}-${f.destination}`
+      routeDelays.set(route, (routeDelays.get(route) || 0) + f.delayMinutes!)
+    })
     
     return {
       totalDelayedFlights: stats.delayedFlights,
       averageDelay: stats.avgDelay,
       delayDistribution: stats.delayDistribution,
-      commonCauses: [
-        "Air traffic control constraints",
-        "Weather conditions",
-        "Technical issues",
-        "Airport congestion",
-        "Operational delays"
-      ],
+      // IATA delay code groups by delay minutes, largest first
+      commonCauses: breakdown.groups.filter(g => g.key !== 'UNCODED').map(g => g.name),
+      causeBreakdown: breakdown,
+      // Delay passed down aircraft rotations, from the primary/reactionary attribution
       cascadingRisk: {
-        level: stats.avgDelay > 30 ? "high" : stats.avgDelay > 15 ? "medium" : "low",
-        propagationRate: Math.round((stats.delayedFlights / stats.totalFlights) * 100) / 100,
-        affectedFlights: stats.delayedFlights
+        level: propagation.propagationRisk > 0.5 ? "high" : propagation.propagationRisk > 0.2 ? "medium" : "low",
+        propagationRate: propagation.propagationRisk,
+        affectedFlights: propagation.affectedFlights,
+        primaryDelayMinutes: propagation.primaryDelayMinutes,
+        reactionaryDelayMinutes: propagation.reactionaryDelayMinutes
       },
-      insights: [
-        `${stats.delayedFlights} flights delayed out of ${stats.totalFlights} total operations`,
-        `Average delay time is ${stats.avgDelay} minutes`,
-        `${Math.round((stats.delayedFlights / stats.totalFlights) * 100)}% of flights experience delays`,
-        "Peak hours contribute significantly to delay accumulation"
-      ]
+      insights: rankInsights([
+        checkThreshold('delayedFlightShare', 'Share of delayed flights', delayedShare, DELAYED_SHARE_THRESHOLD, '%', {
+          severity: delayedShare > 2 * DELAYED_SHARE_THRESHOLD ? 'high' : 'medium',
+          evidence: { delayedFlights: stats.delayedFlights, totalFlights: stats.totalFlights }
+        }),
+        checkThreshold('averageDelay', 'Average delay', stats.avgDelay, AVERAGE_DELAY_THRESHOLD, 'minutes'),
+        previousStats && previous
+          ? describeChange('delayedFlightShare', 'Share of delayed flights', delayedShare, percentage(previousStats.delayedFlights, previousStats.totalFlights), '%', previous.periods, { higherIsWorse: true })
+          : null,
+        previousStats && previous
+          ? describeChange('averageDelay', 'Average delay', stats.avgDelay, previousStats.avgDelay, 'minutes', previous.periods, { higherIsWorse: true })
+          : null,
+        findTopContributor('delayMinutesByCause', 'delay minutes', breakdown.groups.map(g => ({ key: g.key, label: g.name, value: g.minutes })), 'minutes'),
+        findTopContributor('delayMinutesByRoute', 'delay minutes', Array.from(routeDelays.entries()).map(([route, minutes]) => ({ key: route, label: route, value: minutes })), 'minutes'),
+        findTopContributor('delayMinutesByOrigin', 'attributed delay minutes', [
+          { key: 'PRIMARY', label: 'Delay that started at the departure station', value: propagation.primaryDelayMinutes },
+          { key: 'REACTIONARY', label: 'Delay inherited from late inbound aircraft', value: propagation.reactionaryDelayMinutes }
+        ], 'minutes'),
+        ...findOutliers('flightDelay', 'delayed flights', delayed.map(f => ({
+          key: f.id,
+          label: `${f.flightNumber || 'Unnumbered flight'} (${formatLocalDateTime(f.scheduledDeparture, timeZone).substring(0, 16).replace('T', ' ')})`,
+          value: f.delayMinutes!
+        })), 'minutes', { higherIsWorse: true, limit: 3 })
+      ])
     }
   } catch (error) {
     console.error('Error analyzing delays:', error)
@@ -136,33 +266,70 @@ async function analyzeDelays(processor: FlightDataProcessor, airportCode: string
   }
 }
 
-async function analyzeCapacity(processor: FlightDataProcessor, airportCode: string, date?: string) {
+async function analyzeCapacity(processor: FlightDataProcessor, airportCode: string, filter: FlightDateFilter) {
   try {
-    // Get real airport statistics
-    const stats = await processor.getAirportStatistics(airportCode)
-    const peakHourData = await processor.getPeakHourAnalysis(airportCode)
+    // Measure scheduled movements against the declared capacity
+    const flightData = await processor.getFlightData(airportCode, filter)
+    const timeZone = await processor.getAirportTimeZone(airportCode)
+    const capacity = await measureCapacity(airportCode, flightData, timeZone)
+    const utilization = capacity.utilization
+    const previous = await loadPreviousPeriod(processor, airportCode, filter)
+    const previousCapacity = previous ? await measureCapacity(airportCode, previous.flightData, timeZone) : null
+    const runwayQueue = modelRunwayQueue(airportCode, flightData, capacity)
+    const { comparison } = runwayQueue
+    const overloadedHours = capacity.hourly.filter(period => period.utilization !== null && period.utilization > 100)
+    const overloadedQuarterHours = capacity.quarterHourly.filter(period => period.utilization !== null && period.utilization > 100)
+    const queuedPeriods = runwayQueue.periods.filter(period => period.queueDelayMinutes !== null && period.queueDelayMinutes > RUNWAY_QUEUE_DELAY_THRESHOLD)
     
     return {
-      currentUtilization: stats.capacityUtilization,
-      maxSustainableCapacity: 95,
+      currentUtilization: utilization,
+      peakHourUtilization: capacity.peakHourUtilization,
+      peakQuarterHourUtilization: capacity.peakQuarterHourUtilization,
+      runwayConfigurations: capacity.runwayConfigurations,
+      capacityDeclared: utilization !== null,
+      hoursOverCapacity: capacity.hoursOverCapacity,
+      quarterHoursOverCapacity: capacity.quarterHoursOverCapacity,
+      hourly: capacity.hourly,
+      quarterHourly: capacity.quarterHourly,
+      // Periods past the declared capacity or with a long expected runway queue
       bottlenecks: [
-        "Runway capacity during peak hours",
-        "Gate availability constraints",
-        "Ground handling limitations",
-        "Air traffic control coordination"
+        ...overloadedHours.map(period => `${formatPeriodStart(period.start)} hour: ${describeDemand(period)}, ${period.utilization}% of declared capacity`),
+        ...overloadedQuarterHours.map(period => `${formatPeriodStart(period.start)} quarter hour: ${describeDemand(period)}, ${period.utilization}% of declared capacity`),
+        ...queuedPeriods.map(period => `${formatPeriodStart(period.start)}: expected runway queue of ${period.expectedQueueLength} aircraft, ${period.queueDelayMinutes} minutes per movement`)
       ],
       optimizationRecommendations: [
-        "Optimize runway usage patterns and scheduling",
-        "Improve gate turnover efficiency",
-        "Enhance ground handling coordination",
-        "Implement smart slot allocation",
-        "Use predictive analytics for better planning"
+        ...overloadedHours.map(period => `Move ${excessMovements(period)} movements out of the ${formatPeriodStart(period.start)} hour to stay within its declared capacity`),
+        ...(runwayQueue.peakPeriod && runwayQueue.peakQueueDelayMinutes! > RUNWAY_QUEUE_DELAY_THRESHOLD
+          ? [`Spread the movements around ${formatPeriodStart(runwayQueue.peakPeriod)} to cut the expected ${runwayQueue.peakQueueDelayMinutes}-minute runway queue delay`]
+          : [])
       ],
-      efficiencyMetrics: {
-        runwayUtilization: Math.min(95, stats.capacityUtilization + 5),
-        gateUtilization: Math.min(90, stats.capacityUtilization - 2),
-        groundHandlingEfficiency: Math.min(85, stats.capacityUtilization - 7)
-      }
+      runwayQueue,
+      insights: rankInsights([
+        checkThreshold('hoursOverCapacity', 'Hours over declared capacity', capacity.hoursOverCapacity, 0, 'hours', {
+          severity: 'high',
+          evidence: { quarterHoursOverCapacity: capacity.quarterHoursOverCapacity }
+        }),
+        checkThreshold('peakHourUtilization', 'Peak hour utilization', capacity.peakHourUtilization, HIGH_UTILIZATION_THRESHOLD, '%'),
+        runwayQueue.peakPeriod
+          ? checkThreshold('peakQueueDelay', `Expected runway queue delay at ${formatPeriodStart(runwayQueue.peakPeriod)}`, runwayQueue.peakQueueDelayMinutes, RUNWAY_QUEUE_DELAY_THRESHOLD, 'minutes', {
+            evidence: { expectedQueueLength: runwayQueue.peakQueueLength, averageQueueDelayMinutes: runwayQueue.averageQueueDelayMinutes }
+          })
+          : null,
+        comparison.meanObservedMinutes !== null && comparison.meanEstimatedMinutes !== null
+          ? checkThreshold('unexplainedDepartureDelay', 'Average departure delay beyond runway queueing', comparison.meanObservedMinutes - comparison.meanEstimatedMinutes, AVERAGE_DELAY_THRESHOLD, 'minutes', {
+            evidence: { meanObservedMinutes: comparison.meanObservedMinutes, meanEstimatedMinutes: comparison.meanEstimatedMinutes, correlation: comparison.correlation }
+          })
+          : null,
+        findTopContributor('queueDelayMinutes', 'expected runway queue delay', runwayQueue.periods
+          .filter(period => period.queueDelayMinutes !== null)
+          .map(period => ({ key: period.start, label: formatPeriodStart(period.start), value: period.queueDelayMinutes! * period.movements })), 'minutes'),
+        previous && previousCapacity && utilization !== null
+          ? describeChange('utilization', 'Average hourly utilization', utilization, previousCapacity.utilization, '%', previous.periods, { higherIsWorse: true })
+          : null,
+        ...findOutliers('hourlyUtilization', 'hours with traffic', capacity.hourly
+          .filter(period => period.utilization !== null)
+          .map(period => ({ key: period.start, label: formatPeriodStart(period.start), value: period.utilization! })), '%', { higherIsWorse: true, limit: 3 })
+      ])
     }
   } catch (error) {
     console.error('Error analyzing capacity:', error)
@@ -170,10 +337,12 @@ async function analyzeCapacity(processor: FlightDataProcessor, airportCode: stri
   }
 }
 
-async function analyzePatterns(processor: FlightDataProcessor, airportCode: string, date?: string) {
+async function analyzePatterns(processor: FlightDataProcessor, airportCode: string, filter: FlightDateFilter) {
   try {
     // Get flight data for pattern analysis
-    const flightData = await processor.getFlightData(airportCode)
+    const flightData = await processor.getFlightData(airportCode, filter)
+    const timeZone = await processor.getAirportTimeZone(airportCode)
+    const previous = await loadPreviousPeriod(processor, airportCode, filter)
     
     // Analyze route patterns
     const routeCounts = new Map<string, number>()
@@ -182,10 +351,10 @@ async function analyzePatterns(processor: FlightDataProcessor, airportCode: stri
       routeCounts.set(route, (routeCounts.get(route) || 0) + 1)
     })
     
-    const popularRoutes = Array.from(routeCounts.entries())
+    const routes = Array.from(routeCounts.entries())
       .map(([route, frequency]) => ({ route, frequency }))
       .sort((a, b) => b.frequency - a.frequency)
-      .slice(0, 5)
+    const popularRoutes = routes.slice(0, 5)
     
     // Analyze time patterns
     const departuresByHour = new Map<number, number>()
@@ -193,7 +362,7 @@ async function analyzePatterns(processor: FlightDataProcessor, airportCode: stri
     
     flightData.forEach(flight => {
       const depHour = flight.scheduledHour
-      const arrHour = Math.floor((flight.scheduledDeparture.getTime() + flight.flightDuration * 60000) / (1000 * 60 * 60)) % 24
+      const arrHour = getLocalParts(new Date(flight.scheduledDeparture.getTime() + flight.flightDuration * 60000), timeZone).hour
       
       departuresByHour.set(depHour, (departuresByHour.get(depHour) || 0) + 1)
       arrivalsByHour.set(arrHour, (arrivalsByHour.get(arrHour) || 0) + 1)
@@ -201,35 +370,256 @@ async function analyzePatterns(processor: FlightDataProcessor, airportCode: stri
     
     const peakDeparture = Array.from(departuresByHour.entries()).reduce((max, [hour, count]) => count > max.count ? { hour, count } : max, { hour: 0, count: 0 })
     const peakArrival = Array.from(arrivalsByHour.entries()).reduce((max, [hour, count]) => count > max.count ? { hour, count } : max, { hour: 0, count: 0 })
+    const quietest = findQuietestWindow(departuresByHour, arrivalsByHour, QUIET_PERIOD_HOURS)
     
     const totalFlights = flightData.length
     const incomingFlights = flightData.filter(f => f.destination === airportCode).length
     const outgoingFlights = flightData.filter(f => f.origin === airportCode).length
+    const days = countOperatingDays(flightData, timeZone)
+    const directionEvidence = { incomingFlights, outgoingFlights, totalFlights }
     
     return {
       flightRatio: {
-        incoming: Math.round((incomingFlights / totalFlights) * 100),
-        outgoing: Math.round((outgoingFlights / totalFlights) * 100)
+        incoming: percentage(incomingFlights, totalFlights),
+        outgoing: percentage(outgoingFlights, totalFlights)
       },
       popularRoutes: popularRoutes,
       timePatterns: {
-        peakArrival: `${peakArrival.hour.toString().padStart(2, '0')}:00`,
-        peakDeparture: `${peakDeparture.hour.toString().padStart(2, '0')}:00`,
-        quietPeriod: "03:00-06:00"
+        peakArrival: formatHour(peakArrival.hour),
+        peakDeparture: formatHour(peakDeparture.hour),
+        quietPeriod: `${formatHour(quietest.start)}-${formatHour((quietest.start + QUIET_PERIOD_HOURS) % 24)}`
       },
-      trends: [
-        "High concentration of flights during morning hours",
-        "Balanced inbound/outbound traffic flow",
-        "Consistent scheduling patterns observed"
-      ],
-      predictions: [
-        "Expected 10-15% increase in peak hour traffic",
-        "Potential for extending peak hours by 1 hour",
-        "Growing demand for off-peak scheduling"
-      ]
+      insights: rankInsights([
+        findTopContributor('routeFlights', 'flights', routes.map(r => ({ key: r.route, label: r.route, value: r.frequency })), 'flights'),
+        checkThreshold('outboundShare', 'Outbound share of traffic', percentage(outgoingFlights, totalFlights), DIRECTIONAL_IMBALANCE_THRESHOLD, '%', { severity: 'low', evidence: directionEvidence }),
+        checkThreshold('inboundShare', 'Inbound share of traffic', percentage(incomingFlights, totalFlights), DIRECTIONAL_IMBALANCE_THRESHOLD, '%', { severity: 'low', evidence: directionEvidence }),
+        ...findOutliers('hourlyDepartures', 'departure hours', Array.from(departuresByHour.entries()).map(([hour, count]) => ({ key: String(hour), label: formatHour(hour), value: count })), 'flights'),
+        previous && days > 0
+          ? describeChange('dailyFlights', 'Average daily flights', totalFlights / days, previous.flightData.length / previous.days, 'flights', previous.periods)
+          : null,
+        previous
+          ? describeChange('routes', 'Routes operated', routeCounts.size, new Set(previous.flightData.map(f => `${f.origin}-${f.destination}`)).size, 'routes', previous.periods)
+          : null
+      ])
     }
   } catch (error) {
     console.error('Error analyzing patterns:', error)
     throw error
   }
+}
+
+async function analyzeHubConnections(
+  processor: FlightDataProcessor,
+  airportCode: string,
+  filter: FlightDateFilter,
+  predictedDelays: Record<string, number> = {}
+) {
+  try {
+    // Check connections onto the period's departures against actual or predicted delays
+    const flightData = await processor.getFlightData(airportCode, filter)
+    const timeZone = await processor.getAirportTimeZone(airportCode)
+    const analysis = await analyzeConnections(airportCode, flightData, timeZone, predictedDelays)
+    const holds = analysis.holds.filter(h => h.worthHolding)
+
+    return {
+      ...analysis,
+      insights: rankInsights([
+        checkThreshold('missedConnections', 'Connections expected to be missed', analysis.missedConnections, 0, 'connections', {
+          severity: 'high',
+          evidence: { passengersAffected: analysis.passengersAffected, totalConnections: analysis.totalConnections }
+        }),
+        checkThreshold('tightConnections', `Connections with less than ${TIGHT_CONNECTION_MINUTES} minutes to spare`, analysis.tightConnections, 0, 'connections', {
+          evidence: { passengersAtRisk: analysis.passengersAtRisk, totalConnections: analysis.totalConnections }
+        }),
+        findTopContributor('passengersProtected', 'passengers protected by holding departures', holds.map(h => ({
+          key: h.flightId,
+          label: `Holding ${h.flightNumber} for ${h.holdMinutes} min`,
+          value: h.passengersProtected
+        })), 'passengers')
+      ])
+    }
+  } catch (error) {
+    console.error('Error analyzing connections:', error)
+    throw error
+  }
+}
+
+async function analyzeOnTimePerformance(processor: FlightDataProcessor, airportCode: string, filter: FlightDateFilter) {
+  try {
+    // Standard punctuality KPIs, departures and arrivals kept apart
+    const otp = await processor.getOnTimePerformance(airportCode, filter)
+    const previous = await loadPreviousPeriod(processor, airportCode, filter)
+    const previousOtp = previous ? await processor.getOnTimePerformance(airportCode, previous.filter) : null
+    const directions = [
+      { name: 'Departure', metric: 'd15', label: 'D15 on-time rate', performance: otp.departures, previous: previousOtp?.departures, rate: (m: PunctualityMetrics) => m.d15, measured: (m: PunctualityMetrics) => m.departuresMeasured },
+      { name: 'Arrival', metric: 'a15', label: 'A15 on-time rate', performance: otp.arrivals, previous: previousOtp?.arrivals, rate: (m: PunctualityMetrics) => m.a15, measured: (m: PunctualityMetrics) => m.arrivalsMeasured }
+    ]
+    
+    return {
+      ...otp,
+      insights: rankInsights(directions.flatMap(direction => {
+        const { overall } = direction.performance
+        const rate = direction.rate(overall)
+        const routes = direction.performance.byRoute.filter(r => direction.rate(r) !== null)
+        return [
+          checkThreshold(direction.metric, direction.label, rate, OTP_TARGET, '%', {
+            direction: 'below',
+            severity: rate !== null && rate < OTP_TARGET / 2 ? 'high' : 'medium',
+            evidence: { measured: direction.measured(overall) }
+          }),
+          checkThreshold(`${direction.metric}CancellationRate`, `${direction.name} cancellation rate`, overall.cancellationRate, CANCELLATION_RATE_THRESHOLD, '%', {
+            severity: 'high',
+            evidence: { cancelled: overall.cancelled, scheduled: overall.scheduled }
+          }),
+          previous && direction.previous && rate !== null
+            ? describeChange(direction.metric, direction.label, rate, direction.rate(direction.previous.overall), '%', previous.periods, { higherIsWorse: false })
+            : null,
+          ...findOutliers(`${direction.metric}ByRoute`, `${direction.name.toLowerCase()} routes`, routes.map(r => ({ key: r.key, label: r.label, value: direction.rate(r)! })), '%', { higherIsWorse: false, limit: 3 })
+        ]
+      }))
+    }
+  } catch (error) {
+    console.error('Error analyzing on-time performance:', error)
+    throw error
+  }
+}
+
+async function analyzeBlockTimeVariance(processor: FlightDataProcessor, airportCode: string, filter: FlightDateFilter, percentile?: number) {
+  try {
+    // Actual against scheduled block time, for setting realistic STAs
+    const analysis = await processor.getBlockTimeAnalysis(airportCode, filter, percentile)
+    const evidence = (route: RouteBlockTimes) => ({
+      route: route.key,
+      flights: route.flights,
+      scheduledBlockMinutes: route.scheduledBlockMinutes,
+      suggestedBlockMinutes: route.suggestedBlockMinutes,
+      medianActualMinutes: route.actual.median
+    })
+    
+    return {
+      ...analysis,
+      insights: rankInsights([
+        ...analysis.routes.filter(r => r.assessment === 'UNDER_SCHEDULED').map(r =>
+          checkThreshold('blockTimeShortfall', `Block time shortfall on ${r.key} against P${analysis.percentile}`, r.adjustmentMinutes, analysis.toleranceMinutes, 'minutes', { severity: 'high', evidence: evidence(r) })
+        ),
+        ...analysis.routes.filter(r => r.assessment === 'PADDED').map(r =>
+          checkThreshold('blockTimePadding', `Block time padding on ${r.key} against P${analysis.percentile}`, -r.adjustmentMinutes, analysis.toleranceMinutes, 'minutes', { severity: 'low', evidence: evidence(r) })
+        ),
+        findTopContributor('blockTimeOverrunMinutes', 'minutes flown over schedule', analysis.routes.map(r => ({
+          key: r.key,
+          label: r.key,
+          value: Math.max(0, r.variance.mean) * r.flights
+        })), 'minutes')
+      ])
+    }
+  } catch (error) {
+    console.error('Error analyzing block times:', error)
+    throw error
+  }
+}
+
+async function analyzeDelayHeatmap(processor: FlightDataProcessor, airportCode: string, filter: FlightDateFilter, bucketMinutes?: number) {
+  try {
+    // Day of week against time of day, to spot recurring bad slots
+    const heatmap = await processor.getDelayHeatmap(airportCode, filter, bucketMinutes)
+    const measured = heatmap.cells.flat().filter(cell => cell.measured > 0)
+    const label = (cell: HeatmapCell) => `${heatmap.days[cell.dayOfWeek]} ${cell.time}`
+    const worst = measured
+      .filter(cell => cell.measured >= MIN_HEATMAP_CELL_MOVEMENTS)
+      .reduce<HeatmapCell | null>((min, cell) => !min || cell.onTimeRate! < min.onTimeRate! ? cell : min, null)
+    
+    return {
+      ...heatmap,
+      insights: rankInsights([
+        ...findOutliers('cellMeanDelay', 'day and time cells', measured.map(cell => ({ key: `${cell.dayOfWeek}-${cell.time}`, label: label(cell), value: cell.meanDelay! })), 'minutes', { higherIsWorse: true, limit: 3 }),
+        worst
+          ? checkThreshold('cellOnTimeRate', `On-time rate on ${label(worst)}`, worst.onTimeRate, OTP_TARGET, '%', {
+            direction: 'below',
+            evidence: { measured: worst.measured, meanDelay: worst.meanDelay, p90Delay: worst.p90Delay }
+          })
+          : null,
+        findTopContributor('dayDelayMinutes', 'delay minutes', heatmap.days.map((day, dayOfWeek) => ({
+          key: String(dayOfWeek),
+          label: day,
+          value: heatmap.cells[dayOfWeek].reduce((sum, cell) => sum + Math.max(0, cell.meanDelay ?? 0) * cell.measured, 0)
+        })), 'minutes')
+      ])
+    }
+  } catch (error) {
+    console.error('Error analyzing delay heatmap:', error)
+    throw error
+  }
+}
+
+// The period before the filter's date range, for period-over-period comparisons
+async function loadPreviousPeriod(processor: FlightDataProcessor, airportCode: string, filter: FlightDateFilter) {
+  const previous = previousPeriod(filter)
+  if (!previous) return null
+
+  const flightData = await processor.getFlightData(airportCode, previous)
+  if (flightData.length === 0) return null
+
+  return {
+    filter: previous,
+    flightData,
+    days: countOperatingDays(flightData, await processor.getAirportTimeZone(airportCode)),
+    periods: { current: describeRange(filter), previous: describeRange(previous) }
+  }
+}
+
+function describeRange(filter: FlightDateFilter): string {
+  const from = filter.date || filter.from
+  const to = filter.date || filter.to
+  return from === to ? `${from}` : `${from} to ${to}`
+}
+
+// The run of hours with the fewest movements, wrapping past midnight
+function findQuietestWindow(departuresByHour: Map<number, number>, arrivalsByHour: Map<number, number>, hours: number) {
+  const movements = (hour: number) => (departuresByHour.get(hour % 24) || 0) + (arrivalsByHour.get(hour % 24) || 0)
+  let quietest = { start: 0, movements: Infinity }
+  for (let start = 0; start < 24; start++) {
+    let total = 0
+    for (let offset = 0; offset < hours; offset++) total += movements(start + offset)
+    if (total < quietest.movements) quietest = { start, movements: total }
+  }
+  return quietest
+}
+
+function formatHour(hour: number): string {
+  return `${hour.toString().padStart(2, '0')}:00`
+}
+
+function formatPeriodStart(start: string): string {
+  return start.substring(0, 16).replace('T', ' ')
+}
+
+function describeDemand(period: CapacityPeriod): string {
+  return `${period.arrivals} arrivals and ${period.departures} departures`
+}
+
+// Movements over the most constraining declared limit of a period
+function excessMovements(period: CapacityPeriod): number {
+  if (!period.declared) return 0
+  return Math.max(
+    period.arrivals - period.declared.arrivals,
+    period.departures - period.declared.departures,
+    period.movements - period.declared.movements
+  )
+}
+
+// The filter the analysis ran on, with flight and day counts for per-day comparisons
+async function describePeriod(processor: FlightDataProcessor, airportCode: string, filter: FlightDateFilter) {
+  const flightData = await processor.getFlightData(airportCode, filter)
+  const days = countOperatingDays(flightData, await processor.getAirportTimeZone(airportCode))
+
+  return {
+    ...filter,
+    flights: flightData.length,
+    days,
+    averageDailyFlights: days > 0 ? Math.round((flightData.length / days) * 10) / 10 : 0
+  }
+}
+
+function percentage(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 100) : 0
 }
\ No newline at end of file
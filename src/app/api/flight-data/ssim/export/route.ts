@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Flight } from '@prisma/client'
+import { db } from '@/lib/db'
+import { exportSSIM } from '@/lib/ssim'
+import { getUtcOffsetMinutes } from '@/lib/timezone'
+import { InvalidDateFilterError, resolveDateFilter, scheduledDepartureWhere } from '@/lib/date-filter'
+
+interface SSIMExportRequest {
+  airportCode: string
+  // Airport-local dates (YYYY-MM-DD), `to` inclusive
+  from?: string
+  to?: string
+  airline?: string
+  // Entries as produced by /api/advanced-optimization results.optimizedSchedule
+  optimizedSchedule?: {
+    flightId: string
+    originalTime?: string
+    optimizedTime: string
+  }[]
+}
+
+interface SSIMExportErrorResponse {
+  success: false
+  error: string
+}
+
+/**
+ * Export the Flight table for an airport as an SSIM file
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  return handleExport({
+    airportCode: searchParams.get('airportCode') || '',
+    from: searchParams.get('from') || undefined,
+    to: searchParams.get('to') || undefined,
+    airline: searchParams.get('airline') || undefined
+  })
+}
+
+/**
+ * Export the Flight table with an optimized schedule applied on top of it
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: SSIMExportRequest = await request.json()
+    return handleExport(body)
+  } catch (error) {
+    return NextResponse.json<SSIMExportErrorResponse>(
+      { success: false, error: 'Request body is not valid JSON' },
+      { status: 400 }
+    )
+  }
+}
+
+async function handleExport({ airportCode, from, to, airline, optimizedSchedule }: SSIMExportRequest) {
+  try {
+    if (!airportCode) {
+      return NextResponse.json<SSIMExportErrorResponse>(
+        { success: false, error: 'Airport code is required' },
+        { status: 400 }
+      )
+    }
+
+    const code = airportCode.toUpperCase()
+    const airport = await db.airport.findUnique({ where: { code } })
+    if (!airport) {
+      return NextResponse.json<SSIMExportErrorResponse>(
+        { success: false, error: `Unknown airport ${code}` },
+        { status: 404 }
+      )
+    }
+
+    let flights = await db.flight.findMany({
+      where: {
+        airportCode: code,
+        ...(airline ? { flightNumber: { startsWith: airline.toUpperCase() } } : {}),
+        ...scheduledDepartureWhere(resolveDateFilter({ from, to }, airport.timezone))
+      },
+      orderBy: { scheduledDeparture: 'asc' }
+    })
+
+    if (optimizedSchedule && optimizedSchedule.length > 0) {
+      flights = applyOptimizedSchedule(flights, optimizedSchedule, airport.timezone)
+    }
+
+    const airports = await db.airport.findMany({ select: { code: true, timezone: true } })
+    const result = exportSSIM(flights, {
+      timeZones: Object.fromEntries(airports.map(a => [a.code, a.timezone])),
+      defaultTimeZone: airport.timezone,
+      airline: airline?.toUpperCase()
+    })
+
+    if (result.skipped.length > 0) {
+      console.warn(`Skipped ${result.skipped.length} flights without an IATA flight designator in SSIM export`)
+    }
+
+    return new NextResponse(result.content, {
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${code}-schedule.ssim"`,
+        'X-SSIM-Leg-Count': String(result.legCount),
+        'X-SSIM-Skipped-Flights': String(result.skipped.length)
+      }
+    })
+
+  } catch (error) {
+    if (error instanceof InvalidDateFilterError) {
+      return NextResponse.json<SSIMExportErrorResponse>(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('SSIM export error:', error)
+    return NextResponse.json<SSIMExportErrorResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Move each matched flight to its optimized local departure time, keeping its block time
+function applyOptimizedSchedule(flights: Flight[], schedule: NonNullable<SSIMExportRequest['optimizedSchedule']>, timeZone: string): Flight[] {
+  return flights.map(flight => {
+    const change = schedule.find(c => c.flightId === flight.id || c.flightId === flight.flightNumber)
+    const match = change?.optimizedTime.match(/^(\d{1,2}):(\d{2})$/)
+    if (!match) return flight
+
+    const offset = getUtcOffsetMinutes(timeZone, flight.scheduledDeparture)
+    const localDeparture = new Date(flight.scheduledDeparture.getTime() + offset * 60000)
+    const localMidnight = Date.UTC(localDeparture.getUTCFullYear(), localDeparture.getUTCMonth(), localDeparture.getUTCDate())
+    const newDeparture = new Date(localMidnight + (parseInt(match[1]) * 60 + parseInt(match[2]) - offset) * 60000)
+    const shift = newDeparture.getTime() - flight.scheduledDeparture.getTime()
+
+    return {
+      ...flight,
+      scheduledDeparture: newDeparture,
+      scheduledArrival: new Date(flight.scheduledArrival.getTime() + shift)
+    }
+  })
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { importFlights, FlightImportReport, ImportRowResult, RawImportRow } from '@/lib/flight-import'
+import { parseSSIM, expandSSIMLegs } from '@/lib/ssim'
+
+interface SSIMImportResponse {
+  success: boolean
+  data?: FlightImportReport & {
+    legRecords: number
+    outOfScopeFlights: number
+  }
+  error?: string
+}
+
+/**
+ * Import an IATA SSIM (Chapter 7) schedule file.
+ *
+ * Type 3 flight leg records are expanded onto every date they operate between
+ * `from` and `to`; only legs departing from or arriving at `airportCode` are
+ * upserted. The file may be sent as a multipart `file` field or as the raw body.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const contentType = request.headers.get('content-type') || ''
+
+    let airportCode = searchParams.get('airportCode')
+    let from = searchParams.get('from')
+    let to = searchParams.get('to')
+    let dryRun = searchParams.get('dryRun') === 'true'
+    let content: string
+
+    if (contentType.includes('multipart/form-data')) {
+      const formData = await request.formData()
+      const file = formData.get('file')
+      if (!file || typeof file === 'string') {
+        return NextResponse.json<SSIMImportResponse>(
+          { success: false, error: 'A "file" upload is required' },
+          { status: 400 }
+        )
+      }
+
+      content = await file.text()
+      airportCode = (formData.get('airportCode') as string | null) || airportCode
+      from = (formData.get('from') as string | null) || from
+      to = (formData.get('to') as string | null) || to
+      dryRun = formData.get('dryRun') === 'true' || dryRun
+    } else {
+      content = await request.text()
+    }
+
+    if (!airportCode || !from || !to) {
+      return NextResponse.json<SSIMImportResponse>(
+        { success: false, error: 'Airport code, from and to dates are required' },
+        { status: 400 }
+      )
+    }
+
+    const fromDate = new Date(from)
+    const toDate = new Date(to)
+    if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime()) || fromDate > toDate) {
+      return NextResponse.json<SSIMImportResponse>(
+        { success: false, error: 'from and to must be valid dates with from <= to' },
+        { status: 400 }
+      )
+    }
+
+    airportCode = airportCode.toUpperCase()
+    const airport = await db.airport.findUnique({ where: { code: airportCode } })
+    if (!airport) {
+      return NextResponse.json<SSIMImportResponse>(
+        { success: false, error: `Unknown airport ${airportCode}` },
+        { status: 404 }
+      )
+    }
+
+    const parsed = parseSSIM(content)
+    const datedFlights = expandSSIMLegs(parsed, fromDate, toDate)
+    const inScope = datedFlights.filter(f => f.origin === airportCode || f.destination === airportCode)
+
+    const rows: RawImportRow[] = inScope.map((flight, index) => ({
+      row: index + 1,
+      source: flight.source,
+      values: { ...flight }
+    }))
+    const rejected: ImportRowResult[] = parsed.rejected.map((r, index) => ({
+      row: rows.length + index + 1,
+      source: `SSIM line ${r.line}`,
+      outcome: 'rejected',
+      errors: [r.reason]
+    }))
+
+    const report = await importFlights(airportCode, rows, rejected, dryRun)
+
+    return NextResponse.json<SSIMImportResponse>({
+      success: true,
+      data: {
+        ...report,
+        legRecords: parsed.legs.length,
+        outOfScopeFlights: datedFlights.length - inScope.length
+      }
+    })
+
+  } catch (error) {
+    console.error('SSIM import error:', error)
+    return NextResponse.json<SSIMImportResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
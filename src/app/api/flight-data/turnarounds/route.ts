@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FlightDataProcessor, AirportDataNotConfiguredError } from '@/lib/flight-data-processor'
+import { InvalidDateFilterError, dateFilterFromSearchParams } from '@/lib/date-filter'
+import { RotationAnalysis } from '@/lib/rotations'
+
+interface TurnaroundResponse {
+  success: boolean
+  data?: RotationAnalysis
+  error?: string
+}
+
+/**
+ * Report each aircraft's rotations through an airport: scheduled vs actual
+ * ground time per turn, turns shorter than the type's minimum, and how much
+ * departure delay came in with the aircraft versus started at the airport.
+ *
+ * Query params: `airportCode` (required), the usual `date` / `from` / `to` /
+ * `dayOfWeek` filters, and `registration` to follow a single tail.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const airportCode = searchParams.get('airportCode')?.toUpperCase()
+
+    if (!airportCode) {
+      return NextResponse.json<TurnaroundResponse>(
+        { success: false, error: 'Airport code is required' },
+        { status: 400 }
+      )
+    }
+
+    const rotations = await FlightDataProcessor.getInstance().getAircraftRotations(
+      airportCode,
+      dateFilterFromSearchParams(searchParams),
+      searchParams.get('registration') || undefined
+    )
+
+    return NextResponse.json<TurnaroundResponse>({
+      success: true,
+      data: rotations
+    })
+
+  } catch (error) {
+    if (error instanceof InvalidDateFilterError) {
+      return NextResponse.json<TurnaroundResponse>(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AirportDataNotConfiguredError) {
+      return NextResponse.json<TurnaroundResponse>(
+        { success: false, error: error.message },
+        { status: 404 }
+      )
+    }
+
+    console.error('Turnaround analysis error:', error)
+    return NextResponse.json<TurnaroundResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,11 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import ZAI from 'z-ai-web-dev-sdk'
-import { FlightDataProcessor } from '@/lib/flight-data-processor'
+import { FlightDataProcessor, AirportDataNotConfiguredError } from '@/lib/flight-data-processor'
+import { AirlineRegistry } from '@/lib/airlines'
+import { formatLocalTime } from '@/lib/timezone'
+import { FlightDateFilter, InvalidDateFilterError } from '@/lib/date-filter'
+import { allocateGates } from '@/lib/airport-resources'
+import { measureCapacity } from '@/lib/capacity'
+import { db } from '@/lib/db'
 
-interface FlightTrackingRequest {
+interface FlightTrackingRequest extends FlightDateFilter {
   airportCode: string
   dataSource?: 'flightradar24' | 'flightaware' | 'combined'
-  date?: string
   includeRealTime?: boolean
 }
 
@@ -23,7 +28,7 @@ interface FlightTrackingResponse {
 export async function POST(request: NextRequest) {
   try {
     const body: FlightTrackingRequest = await request.json()
-    const { airportCode, dataSource = 'combined', date, includeRealTime = false } = body
+    const { airportCode, dataSource = 'combined', date, from, to, dayOfWeek, includeRealTime = false } = body
 
     if (!airportCode) {
       return NextResponse.json<FlightTrackingResponse>(
@@ -36,7 +41,7 @@ export async function POST(request: NextRequest) {
     const processor = FlightDataProcessor.getInstance()
 
     // Process flight tracking request using real data
-    const result = await processFlightTracking(processor, airportCode, dataSource, date, includeRealTime)
+    const result = await processFlightTracking(processor, airportCode, dataSource, { date, from, to, dayOfWeek }, includeRealTime)
 
     return NextResponse.json<FlightTrackingResponse>({
       success: true,
@@ -44,6 +49,20 @@ export async function POST(request: NextRequest) {
     })
 
   } catch (error) {
+    if (error instanceof InvalidDateFilterError) {
+      return NextResponse.json<FlightTrackingResponse>(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AirportDataNotConfiguredError) {
+      return NextResponse.json<FlightTrackingResponse>(
+        { success: false, error: error.message },
+        { status: 404 }
+      )
+    }
+
     console.error('Flight tracking error:', error)
     return NextResponse.json<FlightTrackingResponse>(
       { success: false, error: 'Internal server error' },
@@ -52,34 +71,47 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function processFlightTracking(processor: FlightDataProcessor, airportCode: string, dataSource: string, date?: string, includeRealTime?: boolean) {
+async function processFlightTracking(processor: FlightDataProcessor, airportCode: string, dataSource: string, filter: FlightDateFilter, includeRealTime?: boolean) {
   try {
     // Get real flight data
-    let flightData = await processor.getFlightData(airportCode)
+    let flightData = await processor.getFlightData(airportCode, filter)
     
     // If real-time updates are requested, simulate them
     if (includeRealTime) {
-      flightData = await processor.getRealTimeUpdates(airportCode)
+      flightData = await processor.getRealTimeUpdates(airportCode, filter)
     }
 
     // Get airport information
-    const airportInfo = getAirportInfo(airportCode)
+    const airportInfo = await getAirportInfo(airportCode)
+    const timeZone = await processor.getAirportTimeZone(airportCode)
+
+    // Flights without a stored gate get one from the airport's gate plan
+    const gates = await allocateGates(airportCode.toUpperCase(), flightData)
+    const capacity = await measureCapacity(airportCode.toUpperCase(), flightData, timeZone)
+
+    // Resolve airline names once per distinct flight number
+    const airlines = AirlineRegistry.getInstance()
+    const airlineNames = new Map<string, string>()
+    for (const flightNumber of new Set(flightData.map(f => f.flightNumber))) {
+      airlineNames.set(flightNumber, await airlines.getAirlineName(flightNumber))
+    }
 
     // Convert flight data to tracking format
     const trackingFlights = flightData.map(flight => ({
       id: flight.id,
       flightNumber: flight.flightNumber,
-      airline: processor['extractAirline'] ? processor['extractAirline'](flight.flightNumber) : 'Unknown Airline',
+      airline: airlineNames.get(flight.flightNumber) || 'Unknown Airline',
       origin: flight.origin,
       destination: flight.destination,
-      scheduledDeparture: formatTime(flight.scheduledDeparture),
-      scheduledArrival: formatTime(flight.scheduledArrival),
-      actualDeparture: flight.actualDeparture ? formatTime(flight.actualDeparture) : null,
-      actualArrival: flight.actualArrival ? formatTime(flight.actualArrival) : null,
+      scheduledDeparture: formatTime(flight.scheduledDeparture, timeZone),
+      scheduledArrival: formatTime(flight.scheduledArrival, timeZone),
+      actualDeparture: flight.actualDeparture ? formatTime(flight.actualDeparture, timeZone) : null,
+      actualArrival: flight.actualArrival ? formatTime(flight.actualArrival, timeZone) : null,
+      localTimes: flight.localTimes,
       status: getFlightStatus(flight.status, flight.delayMinutes),
       delayMinutes: flight.delayMinutes || 0,
-      gate: generateRandomGate(),
-      terminal: generateRandomTerminal(),
+      gate: flight.gate || gates.get(flight.id)?.gate || null,
+      terminal: flight.terminal || gates.get(flight.id)?.terminal || null,
       aircraft: flight.aircraft || 'Unknown',
       altitude: includeRealTime && flight.status === 'DEPARTED' ? Math.floor(Math.random() * 10000) + 30000 : null,
       speed: includeRealTime && flight.status === 'DEPARTED' ? Math.floor(Math.random() * 200) + 400 : null,
@@ -92,22 +124,46 @@ async function processFlightTracking(processor: FlightDataProcessor, airportCode
         code: airportCode,
         name: airportInfo.name,
         location: airportInfo.location,
-        timezone: airportInfo.timezone,
+        timezone: timeZone,
         terminals: airportInfo.terminals,
         runways: airportInfo.runways,
-        coordinates: airportInfo.coordinates
+        coordinates: airportInfo.coordinates,
+        capacityUtilization: capacity.utilization,
+        peakHourUtilization: capacity.peakHourUtilization
       },
       lastUpdated: new Date().toISOString(),
       dataSource: dataSource
     }
   } catch (error) {
+    // An unknown airport or a bad date filter is a client error, not something to paper over with mock data
+    if (error instanceof AirportDataNotConfiguredError || error instanceof InvalidDateFilterError) {
+      throw error
+    }
+
     console.error('Error processing flight tracking:', error)
     // Fallback to mock data
     return generateFallbackFlightData(airportCode, dataSource, includeRealTime)
   }
 }
 
-function getAirportInfo(airportCode: string) {
+// Static airport details, with terminals and runways replaced by the airport's resource tables when present
+async function getAirportInfo(airportCode: string) {
+  const info = getStaticAirportInfo(airportCode)
+  const code = airportCode.toUpperCase()
+
+  const [terminals, runways] = await Promise.all([
+    db.terminal.findMany({ where: { airportCode: code }, orderBy: { code: 'asc' } }),
+    db.runway.findMany({ where: { airportCode: code, isActive: true }, orderBy: { designator: 'asc' } })
+  ])
+
+  return {
+    ...info,
+    terminals: terminals.length > 0 ? terminals.map(t => t.code) : info.terminals,
+    runways: runways.length > 0 ? runways.map(r => r.designator) : info.runways
+  }
+}
+
+function getStaticAirportInfo(airportCode: string) {
   const airportInfo = {
     'BOM': {
       name: 'Chhatrapati Shivaji International Airport',
@@ -138,8 +194,9 @@ function getAirportInfo(airportCode: string) {
   return airportInfo[airportCode as keyof typeof airportInfo] || airportInfo['BOM']
 }
 
-function formatTime(date: Date): string {
-  return date.toTimeString().slice(0, 5) // HH:MM format
+// HH:MM in the airport's time zone, not the server's
+function formatTime(date: Date, timeZone: string): string {
+  return formatLocalTime(date, timeZone)
 }
 
 function getFlightStatus(status: string, delayMinutes?: number): string {
@@ -161,20 +218,8 @@ function getFlightStatus(status: string, delayMinutes?: number): string {
   }
 }
 
-function generateRandomGate(): string {
-  const terminals = ['A', 'B', 'C']
-  const terminal = terminals[Math.floor(Math.random() * terminals.length)]
-  const number = Math.floor(Math.random() * 30) + 1
-  return `${terminal}${number}`
-}
-
-function generateRandomTerminal(): string {
-  const terminals = ['T1', 'T2']
-  return terminals[Math.floor(Math.random() * terminals.length)]
-}
-
 function generateFallbackFlightData(airportCode: string, dataSource: string, includeRealTime?: boolean) {
-  const airportInfo = getAirportInfo(airportCode)
+  const airportInfo = getStaticAirportInfo(airportCode)
 
   const flights = [
     {
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FlightDelay } from '@prisma/client'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { UnknownDelayCodeError, flightDelaySchema, setFlightDelays } from '@/lib/delay-codes'
+
+interface FlightDelaysResponse {
+  success: boolean
+  data?: {
+    delayMinutes: number | null
+    codedMinutes: number
+    delays: FlightDelay[]
+  }
+  error?: string
+  details?: string[]
+}
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+const flightDelaysSchema = z.object({
+  delays: z.array(flightDelaySchema)
+})
+
+/**
+ * Get a flight's coded delay reasons
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const flight = await db.flight.findUnique({
+      where: { id },
+      include: { delays: { orderBy: { minutes: 'desc' } } }
+    })
+
+    if (!flight) {
+      return NextResponse.json<FlightDelaysResponse>(
+        { success: false, error: `Unknown flight ${id}` },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json<FlightDelaysResponse>({
+      success: true,
+      data: toResponseData(flight.delayMinutes, flight.delays)
+    })
+
+  } catch (error) {
+    console.error('Flight delay fetch error:', error)
+    return NextResponse.json<FlightDelaysResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Replace a flight's coded delay reasons with `{ delays: [{ code, subCode?, minutes }] }`.
+ * Codes may be numeric ("93") or alpha ("RA").
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const parsed = flightDelaysSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json<FlightDelaysResponse>(
+        {
+          success: false,
+          error: 'Invalid delay reasons',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const flight = await db.flight.findUnique({ where: { id } })
+    if (!flight) {
+      return NextResponse.json<FlightDelaysResponse>(
+        { success: false, error: `Unknown flight ${id}` },
+        { status: 404 }
+      )
+    }
+
+    const delays = await setFlightDelays(flight.id, parsed.data.delays)
+
+    return NextResponse.json<FlightDelaysResponse>({
+      success: true,
+      data: toResponseData(flight.delayMinutes, delays)
+    })
+
+  } catch (error) {
+    if (error instanceof UnknownDelayCodeError) {
+      return NextResponse.json<FlightDelaysResponse>(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Flight delay update error:', error)
+    return NextResponse.json<FlightDelaysResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+function toResponseData(delayMinutes: number | null, delays: FlightDelay[]) {
+  return {
+    delayMinutes,
+    codedMinutes: delays.reduce((sum, delay) => sum + delay.minutes, 0),
+    delays
+  }
+}
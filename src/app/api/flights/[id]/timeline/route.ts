@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Flight } from '@prisma/client'
+import { db } from '@/lib/db'
+import { FlightDataProcessor } from '@/lib/flight-data-processor'
+import { FlightTimelineEntry, getFlightTimeline } from '@/lib/flight-events'
+import { formatLocalDateTime } from '@/lib/timezone'
+
+interface FlightTimelineResponse {
+  success: boolean
+  data?: {
+    flight: Flight
+    timeZone: string
+    events: (FlightTimelineEntry & { localTime: string })[]
+  }
+  error?: string
+}
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Get a flight with every recorded change to it, oldest first
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const flight = await db.flight.findUnique({ where: { id } })
+
+    if (!flight) {
+      return NextResponse.json<FlightTimelineResponse>(
+        { success: false, error: `Unknown flight ${id}` },
+        { status: 404 }
+      )
+    }
+
+    const timeZone = await FlightDataProcessor.getInstance().getAirportTimeZone(flight.airportCode)
+    const events = await getFlightTimeline(flight.id)
+
+    return NextResponse.json<FlightTimelineResponse>({
+      success: true,
+      data: {
+        flight,
+        timeZone,
+        events: events.map(event => ({ ...event, localTime: formatLocalDateTime(event.timestamp, timeZone) }))
+      }
+    })
+
+  } catch (error) {
+    console.error('Flight timeline error:', error)
+    return NextResponse.json<FlightTimelineResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
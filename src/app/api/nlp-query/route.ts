@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import ZAI from 'z-ai-web-dev-sdk'
+import { Prisma } from '@prisma/client'
+import { z } from 'zod'
 import { db } from '@/lib/db'
+import { FlightDataProcessor } from '@/lib/flight-data-processor'
+import { FlightDateFilter, InvalidDateFilterError } from '@/lib/date-filter'
 
-interface NLPQueryRequest {
+interface NLPQueryRequest extends FlightDateFilter {
   query: string
   airportCode?: string
-  date?: string
   context?: string
   saveToDatabase?: boolean
 }
@@ -25,10 +28,16 @@ interface NLPQueryResponse {
   error?: string
 }
 
+// An entity extracted from a query, e.g. { type: 'airport', value: 'BOM' }
+const entitySchema = z.object({
+  type: z.string().trim().toLowerCase().min(1),
+  value: z.coerce.string().trim().min(1)
+})
+
 export async function POST(request: NextRequest) {
   try {
     const body: NLPQueryRequest = await request.json()
-    const { query, airportCode, date, context, saveToDatabase = true } = body
+    const { query, airportCode, date, from, to, dayOfWeek, context, saveToDatabase = true } = body
 
     if (!query) {
       return NextResponse.json<NLPQueryResponse>(
@@ -41,7 +50,9 @@ export async function POST(request: NextRequest) {
     const zai = await ZAI.create()
 
     // Process the NLP query
-    const result = await processNLPQuery(zai, query, airportCode, date, context)
+    const filter: FlightDateFilter = { date, from, to, dayOfWeek }
+    const periodStats = airportCode ? await getPeriodStatistics(airportCode, filter) : undefined
+    const result = await processNLPQuery(zai, query, airportCode, filter, context, periodStats)
 
     // Save query to database if requested
     let queryId: string | undefined
@@ -51,7 +62,7 @@ export async function POST(request: NextRequest) {
           data: {
             query,
             intent: result.intent,
-            entities: JSON.stringify(result.entities),
+            entities: { create: toEntities(result.entities) },
             response: JSON.stringify(result),
             airportCode,
             confidence: 0.85 // Default confidence, can be calculated from AI response
@@ -77,6 +88,13 @@ export async function POST(request: NextRequest) {
     })
 
   } catch (error) {
+    if (error instanceof InvalidDateFilterError) {
+      return NextResponse.json<NLPQueryResponse>(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+
     console.error('NLP query processing error:', error)
     return NextResponse.json<NLPQueryResponse>(
       { success: false, error: 'Internal server error' },
@@ -90,12 +108,23 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const airportCode = searchParams.get('airportCode')
+    const entityType = searchParams.get('entityType')?.toLowerCase()
+    const entityValue = searchParams.get('entityValue')
     const limit = parseInt(searchParams.get('limit') || '10')
 
-    const whereClause = airportCode ? { airportCode } : {}
+    const whereClause: Prisma.NLPQueryWhereInput = airportCode ? { airportCode } : {}
+    if (entityType || entityValue) {
+      whereClause.entities = {
+        some: {
+          ...(entityType && { type: entityType }),
+          ...(entityValue && { value: entityValue })
+        }
+      }
+    }
     
     const queries = await db.nLPQuery.findMany({
       where: whereClause,
+      include: { entities: { select: { type: true, value: true } } },
       orderBy: { timestamp: 'desc' },
       take: limit
     })
@@ -104,7 +133,7 @@ export async function GET(request: NextRequest) {
       id: q.id,
       query: q.query,
       intent: q.intent,
-      entities: JSON.parse(q.entities || '[]'),
+      entities: q.entities,
       response: JSON.parse(q.response || '{}'),
       airportCode: q.airportCode,
       confidence: q.confidence,
@@ -125,7 +154,16 @@ export async function GET(request: NextRequest) {
   }
 }
 
-async function processNLPQuery(zai: any, query: string, airportCode?: string, date?: string, context?: string) {
+// Keep the well-formed entities from the model's answer
+function toEntities(entities: unknown): z.infer<typeof entitySchema>[] {
+  if (!Array.isArray(entities)) return []
+  return entities.flatMap(entity => {
+    const parsed = entitySchema.safeParse(entity)
+    return parsed.success ? [parsed.data] : []
+  })
+}
+
+async function processNLPQuery(zai: any, query: string, airportCode?: string, filter: FlightDateFilter = {}, context?: string, periodStats?: string) {
   const systemPrompt = `You are an advanced flight data analysis assistant with expertise in airport operations, flight scheduling, and delay management. 
   Your task is to understand natural language queries about flight data and provide comprehensive, actionable insights.
   
@@ -157,7 +195,8 @@ async function processNLPQuery(zai: any, query: string, airportCode?: string, da
   const userPrompt = `Process the following flight data query:
   Query: "${query}"
   ${airportCode ? `Airport: ${airportCode}` : ''}
-  ${date ? `Date: ${date}` : ''}
+  ${describeFilter(filter)}
+  ${periodStats ? `Flight statistics for this period: ${periodStats}` : ''}
   ${context ? `Context: ${context}` : ''}
   
   Provide a comprehensive analysis with actionable insights. If real-time data is needed, specify what data sources would be required.`
@@ -339,4 +378,26 @@ function generateEnhancedFallbackResponse(query: string, airportCode?: string) {
     ],
     confidence: 0.75
   }
+}
+
+// Summarise the airport's flights in the requested period so answers are grounded in that data
+async function getPeriodStatistics(airportCode: string, filter: FlightDateFilter): Promise<string | undefined> {
+  try {
+    const stats = await FlightDataProcessor.getInstance().getAirportStatistics(airportCode, filter)
+    return JSON.stringify(stats)
+  } catch (error) {
+    if (error instanceof InvalidDateFilterError) throw error
+    console.error('Error loading period statistics:', error)
+    return undefined
+  }
+}
+
+function describeFilter(filter: FlightDateFilter): string {
+  const parts = [
+    filter.date && `Date: ${filter.date}`,
+    filter.from && `From: ${filter.from}`,
+    filter.to && `To: ${filter.to}`,
+    filter.dayOfWeek !== undefined && `Day of week: ${filter.dayOfWeek}`
+  ]
+  return parts.filter(Boolean).join('\n  ')
 }
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import ZAI from 'z-ai-web-dev-sdk'
 import { db } from '@/lib/db'
+import { ExpectedImprovement, RiskAssessment, normalizeExpectedImprovement, normalizeRiskAssessment } from '@/lib/optimization-payloads'
 
 interface OptimizationRequest {
   airportCode: string
@@ -14,9 +15,9 @@ interface OptimizationResponse {
   success: boolean
   data?: {
     recommendations: any[]
-    expectedImprovements: any
+    expectedImprovements: ExpectedImprovement
     implementationSteps: string[]
-    riskAssessment: any
+    riskAssessment: RiskAssessment
     appliedOptimizations?: any[]
     optimizationResults?: any
   }
@@ -54,8 +55,8 @@ export async function POST(request: NextRequest) {
             impact: recommendation.impact,
             implementation: recommendation.implementation,
             status: 'PENDING' as any,
-            expectedImprovement: JSON.stringify(result.expectedImprovements),
-            riskAssessment: JSON.stringify(result.riskAssessment)
+            expectedImprovement: result.expectedImprovements,
+            riskAssessment: result.riskAssessment
           }
         })
       }
@@ -171,7 +172,12 @@ async function processOptimization(zai: any, airportCode: string, optimizationTy
       }
       
       try {
-        const result = JSON.parse(cleanResponse)
+        const parsed = JSON.parse(cleanResponse)
+        const result = {
+          ...parsed,
+          expectedImprovements: normalizeExpectedImprovement(parsed.expectedImprovements),
+          riskAssessment: normalizeRiskAssessment(parsed.riskAssessment)
+        }
         
         // If optimization should be applied, update database status
         if (applyOptimization) {
@@ -9,6 +9,8 @@ import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Plane, Clock, TrendingUp, AlertTriangle, Search, BarChart3, Calendar, MapPin } from 'lucide-react'
+import { DelayHeatmap } from '@/components/delay-heatmap'
+import type { DelayHeatmap as DelayHeatmapData } from '@/lib/heatmap'
 
 interface FlightData {
   id: string
@@ -60,6 +62,8 @@ export default function FlightSchedulingDashboard() {
   const [airportStats, setAirportStats] = useState<AirportStats[]>(mockAirportStats)
   const [loading, setLoading] = useState(false)
   const [nlpQuery, setNlpQuery] = useState('')
+  const [heatmap, setHeatmap] = useState<DelayHeatmapData | null>(null)
+  const [heatmapBucketMinutes, setHeatmapBucketMinutes] = useState<60 | 15>(60)
 
   // Initialize with mock data first, then try to load real data
   useEffect(() => {
@@ -115,7 +119,7 @@ export default function FlightSchedulingDashboard() {
             delayedFlights: delayedFlights,
             avgDelay: Math.round(avgDelay * 10) / 10,
             peakHour: '06:00', // Based on our data showing peak at 6AM
-            capacityUtilization: totalFlights > 0 ? Math.round((totalFlights / 40) * 100) : 0 // Assuming 40 as max capacity
+            capacityUtilization: Math.round(result.data.airportInfo.capacityUtilization ?? 0) // Against the declared capacity
           }]
           
           console.log('Transformed stats:', transformedStats)
@@ -179,7 +183,7 @@ export default function FlightSchedulingDashboard() {
     }
   }
 
-  const analyzeFlightData = async (analysisType: 'peak-hours' | 'delays' | 'capacity' | 'patterns') => {
+  const analyzeFlightData = async (analysisType: 'peak-hours' | 'delays' | 'capacity' | 'patterns' | 'heatmap', options: Record<string, unknown> = {}) => {
     try {
       const response = await fetch('/api/flight-data', {
         method: 'POST',
@@ -189,6 +193,7 @@ export default function FlightSchedulingDashboard() {
         body: JSON.stringify({
           airportCode: selectedAirport,
           analysisType: analysisType,
+          ...options,
         }),
       })
 
@@ -206,6 +211,11 @@ export default function FlightSchedulingDashboard() {
     }
   }
 
+  // Day-of-week by time-of-day heatmap for the Analytics tab
+  useEffect(() => {
+    analyzeFlightData('heatmap', { bucketMinutes: heatmapBucketMinutes }).then(setHeatmap)
+  }, [selectedAirport, heatmapBucketMinutes])
+
   const optimizeSchedule = async () => {
     try {
       const response = await fetch('/api/optimization', {
@@ -614,6 +624,20 @@ export default function FlightSchedulingDashboard() {
           </TabsContent>
 
           <TabsContent value="analytics" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Delay and Demand Heatmap</CardTitle>
+                <CardDescription>Movements, delay and on-time rate by day of week and time of day</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {heatmap ? (
+                  <DelayHeatmap heatmap={heatmap} onBucketMinutesChange={setHeatmapBucketMinutes} />
+                ) : (
+                  <p className="text-sm text-muted-foreground">No heatmap data available for {selectedAirport}</p>
+                )}
+              </CardContent>
+            </Card>
+
             <Card>
               <CardHeader>
                 <CardTitle>NLP Query Interface</CardTitle>
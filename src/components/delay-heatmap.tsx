@@ -0,0 +1,155 @@
+'use client'
+
+import { useState } from 'react'
+import { Scatter, ScatterChart, XAxis, YAxis } from 'recharts'
+import { ChartConfig, ChartContainer, ChartTooltip } from '@/components/ui/chart'
+import { Button } from '@/components/ui/button'
+import type { DelayHeatmap as DelayHeatmapData, HeatmapCell } from '@/lib/heatmap'
+
+type HeatmapMetric = 'movements' | 'meanDelay' | 'p90Delay' | 'onTimeRate'
+
+const chartConfig = {
+  movements: { label: 'Movements' },
+  meanDelay: { label: 'Mean delay' },
+  p90Delay: { label: 'P90 delay' },
+  onTimeRate: { label: 'On-time rate' }
+} satisfies ChartConfig
+
+const METRIC_UNITS: Record<HeatmapMetric, string> = {
+  movements: '',
+  meanDelay: ' min',
+  p90Delay: ' min',
+  onTimeRate: '%'
+}
+
+interface DelayHeatmapProps {
+  heatmap: DelayHeatmapData
+  onBucketMinutesChange: (bucketMinutes: 60 | 15) => void
+}
+
+interface HeatmapPoint {
+  bucket: number
+  dayOfWeek: number
+  cell: HeatmapCell
+}
+
+// What the Scatter hands its shape for each point
+interface HeatmapCellShapeProps {
+  cx: number
+  cy: number
+  payload: HeatmapPoint
+  xAxis: { scale: (value: number) => number }
+  yAxis: { scale: (value: number) => number }
+}
+
+/**
+ * Day of week against time of day, one colored cell per bucket. Darker is
+ * busier or worse; cells without measured movements stay grey.
+ */
+export function DelayHeatmap({ heatmap, onBucketMinutesChange }: DelayHeatmapProps) {
+  const [metric, setMetric] = useState<HeatmapMetric>('meanDelay')
+
+  const points: HeatmapPoint[] = heatmap.cells.flatMap(row => row.map((cell, bucket) => ({ bucket, dayOfWeek: cell.dayOfWeek, cell })))
+  const values = points.map(p => p.cell[metric]).filter((value): value is number => value !== null)
+  const min = Math.min(0, ...values)
+  const max = Math.max(1, ...values)
+  // Label every third hour whatever the bucket size
+  const tickStep = (3 * 60) / heatmap.bucketMinutes
+
+  const colorOf = (cell: HeatmapCell) => {
+    const value = cell[metric]
+    if (value === null || (metric !== 'movements' && cell.measured === 0) || (metric === 'movements' && value === 0)) return '#f3f4f6'
+    const share = (value - min) / (max - min)
+    const intensity = metric === 'onTimeRate' ? 1 - share : share
+    return `hsl(0, 80%, ${Math.round(92 - intensity * 50)}%)`
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap gap-1">
+          {(Object.keys(chartConfig) as HeatmapMetric[]).map(key => (
+            <Button key={key} size="sm" variant={metric === key ? 'default' : 'outline'} onClick={() => setMetric(key)}>
+              {chartConfig[key].label}
+            </Button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {([60, 15] as const).map(minutes => (
+            <Button key={minutes} size="sm" variant={heatmap.bucketMinutes === minutes ? 'default' : 'outline'} onClick={() => onBucketMinutesChange(minutes)}>
+              {minutes === 60 ? 'Hourly' : '15 min'}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <ChartContainer config={chartConfig} className="aspect-auto h-72 w-full">
+        <ScatterChart margin={{ top: 8, right: 8, bottom: 8, left: 8 }}>
+          <XAxis
+            type="number"
+            dataKey="bucket"
+            domain={[-0.5, heatmap.times.length - 0.5]}
+            ticks={heatmap.times.map((_, bucket) => bucket).filter(bucket => bucket % tickStep === 0)}
+            tickFormatter={(bucket: number) => heatmap.times[bucket] ?? ''}
+            tickLine={false}
+          />
+          <YAxis
+            type="number"
+            dataKey="dayOfWeek"
+            domain={[-0.5, heatmap.days.length - 0.5]}
+            ticks={heatmap.days.map((_, day) => day)}
+            tickFormatter={(day: number) => heatmap.days[day]?.substring(0, 3) ?? ''}
+            reversed
+            tickLine={false}
+            width={40}
+          />
+          <ChartTooltip
+            cursor={false}
+            content={({ active, payload }) => {
+              const point = active && payload?.[0]?.payload as HeatmapPoint | undefined
+              if (!point) return null
+              const { cell } = point
+              const format = (key: HeatmapMetric) => cell[key] === null ? 'n/a' : `${cell[key]}${METRIC_UNITS[key]}`
+              return (
+                <div className="rounded-lg border bg-background px-3 py-2 text-xs shadow-xl">
+                  <div className="font-medium">{heatmap.days[cell.dayOfWeek]} {cell.time}</div>
+                  {(Object.keys(chartConfig) as HeatmapMetric[]).map(key => (
+                    <div key={key} className="flex justify-between gap-4">
+                      <span className="text-muted-foreground">{chartConfig[key].label}</span>
+                      <span className="font-mono">{format(key)}</span>
+                    </div>
+                  ))}
+                </div>
+              )
+            }}
+          />
+          <Scatter
+            data={points}
+            isAnimationActive={false}
+            shape={(props: unknown) => {
+              const { cx, cy, payload, xAxis, yAxis } = props as HeatmapCellShapeProps
+              // Fill the whole bucket, not just a dot at its center
+              const width = Math.abs(xAxis.scale(1) - xAxis.scale(0))
+              const height = Math.abs(yAxis.scale(1) - yAxis.scale(0))
+              return (
+                <rect
+                  x={cx - width / 2}
+                  y={cy - height / 2}
+                  width={width}
+                  height={height}
+                  fill={colorOf(payload.cell)}
+                  stroke="#fff"
+                  strokeWidth={1}
+                />
+              )
+            }}
+          />
+        </ScatterChart>
+      </ChartContainer>
+
+      <p className="text-xs text-muted-foreground">
+        On time means less than {heatmap.toleranceMinutes} minutes late. Times are local to {heatmap.airportCode}.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,143 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { z } from 'zod'
+import { FlightEventSource, WakeCategory } from '@prisma/client'
+import { db } from '@/lib/db'
+import { updateFlightWithHistory } from '@/lib/flight-events'
+import { IATA_TO_ICAO_AIRCRAFT } from '@/lib/ssim'
+
+export const AIRCRAFT_TYPE_REFERENCE_FILE = './prisma/reference/aircraft-types.json'
+
+export const aircraftTypeSchema = z.object({
+  icaoType: z.string().trim().toUpperCase().regex(/^[A-Z0-9]{2,4}$/, 'ICAO type must be 2-4 characters'),
+  name: z.string().trim().min(1),
+  wakeCategory: z.enum(WakeCategory),
+  seats: z.number().int().positive(),
+  // ICAO aerodrome reference code letter, which sets the stand size needed
+  codeLetter: z.enum(['A', 'B', 'C', 'D', 'E', 'F']),
+  // Shortest ground time between an arrival and the next departure of the same tail
+  minTurnaroundMinutes: z.number().int().positive()
+})
+
+export type AircraftTypeReference = z.infer<typeof aircraftTypeSchema>
+
+export const aircraftSchema = z.object({
+  registration: z.string().trim().toUpperCase().regex(/^[A-Z0-9]{1,2}-?[A-Z0-9]{1,5}$/, 'Invalid registration'),
+  icaoType: z.string().trim().toUpperCase().regex(/^[A-Z0-9]{2,4}$/, 'ICAO type must be 2-4 characters').nullable().optional(),
+  wakeCategory: z.enum(WakeCategory).nullable().optional(),
+  seats: z.number().int().positive().nullable().optional(),
+  operatorCode: z.string().trim().toUpperCase().nullable().optional()
+})
+
+export interface ParsedAircraftField {
+  icaoType?: string
+  registration?: string
+}
+
+let aircraftTypes: Map<string, AircraftTypeReference> | null = null
+
+/**
+ * Read the local aircraft type reference file
+ */
+export async function loadAircraftTypes(filePath: string = AIRCRAFT_TYPE_REFERENCE_FILE): Promise<Map<string, AircraftTypeReference>> {
+  if (!aircraftTypes) {
+    const content = await readFile(path.resolve(process.cwd(), filePath), 'utf-8')
+    const types = z.array(aircraftTypeSchema).parse(JSON.parse(content))
+    aircraftTypes = new Map(types.map(type => [type.icaoType, type]))
+  }
+  return aircraftTypes
+}
+
+/**
+ * Split a Flight.aircraft value into type and registration.
+ * Handles "A20N (VT-EXU)", "32N (VT-EXU)", "VT-EXU" and "A20N".
+ */
+export function parseAircraftField(value?: string | null): ParsedAircraftField | null {
+  const trimmed = (value || '').trim().toUpperCase()
+  if (!trimmed) return null
+
+  const withRegistration = trimmed.match(/^([A-Z0-9]{2,4})\s*\(\s*([A-Z0-9-]+)\s*\)$/)
+  if (withRegistration) {
+    return { icaoType: toICAOType(withRegistration[1]), registration: withRegistration[2] }
+  }
+
+  if (/^[A-Z0-9]{1,2}-[A-Z0-9]{1,5}$/.test(trimmed)) {
+    return { registration: trimmed }
+  }
+
+  if (/^[A-Z0-9]{2,4}$/.test(trimmed)) {
+    return { icaoType: toICAOType(trimmed) }
+  }
+
+  return null
+}
+
+/**
+ * Create or update the Aircraft row for a Flight.aircraft value.
+ * Returns the registration to link the flight to, or null when the value has none.
+ */
+export async function registerAircraft(value?: string | null, operatorCode?: string | null): Promise<string | null> {
+  const parsed = parseAircraftField(value)
+  if (!parsed?.registration) return null
+
+  const type = parsed.icaoType ? (await loadAircraftTypes()).get(parsed.icaoType) : undefined
+  const typeFields = parsed.icaoType
+    ? { icaoType: parsed.icaoType, wakeCategory: type?.wakeCategory ?? null }
+    : {}
+
+  const existing = await db.aircraft.findUnique({ where: { registration: parsed.registration } })
+  if (!existing) {
+    await db.aircraft.create({
+      data: {
+        registration: parsed.registration,
+        ...typeFields,
+        seats: type?.seats ?? null,
+        operatorCode: operatorCode || null
+      }
+    })
+    return parsed.registration
+  }
+
+  // Fill in what is missing; a type change means the registration was re-used
+  const typeChanged = parsed.icaoType && existing.icaoType !== parsed.icaoType
+  if (typeChanged || (!existing.operatorCode && operatorCode)) {
+    await db.aircraft.update({
+      where: { registration: parsed.registration },
+      data: {
+        ...(typeChanged && { ...typeFields, seats: type?.seats ?? existing.seats }),
+        ...(!existing.operatorCode && operatorCode && { operatorCode })
+      }
+    })
+  }
+
+  return parsed.registration
+}
+
+/**
+ * Parse the aircraft strings of flights not yet linked to a tail and link them
+ */
+export async function linkFlightsToAircraft(airportCode?: string): Promise<number> {
+  const flights = await db.flight.findMany({
+    where: {
+      registration: null,
+      aircraft: { not: null },
+      ...(airportCode && { airportCode })
+    },
+    select: { id: true, aircraft: true, airlineCode: true }
+  })
+
+  let linked = 0
+  for (const flight of flights) {
+    const registration = await registerAircraft(flight.aircraft, flight.airlineCode)
+    if (registration) {
+      await updateFlightWithHistory(flight.id, { registration }, FlightEventSource.REFERENCE_DATA, `aircraft ${registration} linked`)
+      linked++
+    }
+  }
+
+  return linked
+}
+
+function toICAOType(code: string): string {
+  return IATA_TO_ICAO_AIRCRAFT[code] || code
+}
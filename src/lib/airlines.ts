@@ -0,0 +1,157 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { z } from 'zod'
+import { FlightEventSource } from '@prisma/client'
+import { db } from '@/lib/db'
+import { updateFlightsWithHistory } from '@/lib/flight-events'
+
+export const AIRLINE_REFERENCE_FILE = './prisma/reference/airlines.json'
+
+export const airlineSchema = z.object({
+  iataCode: z.string().trim().toUpperCase().regex(/^[A-Z0-9]{2}$/, 'IATA code must be 2 characters'),
+  icaoCode: z.string().trim().toUpperCase().regex(/^[A-Z]{3}$/, 'ICAO code must be 3 letters').nullable().optional(),
+  name: z.string().trim().min(1, 'Name is required'),
+  country: z.string().trim().min(1, 'Country is required'),
+  isLowCost: z.boolean().default(false)
+})
+
+export type AirlineReference = z.infer<typeof airlineSchema>
+
+/**
+ * Read the local airline reference file
+ */
+export async function loadAirlineReference(filePath: string = AIRLINE_REFERENCE_FILE): Promise<AirlineReference[]> {
+  const content = await readFile(path.resolve(process.cwd(), filePath), 'utf-8')
+  return z.array(airlineSchema).parse(JSON.parse(content))
+}
+
+/**
+ * Upsert every airline from the reference file and link existing flights to them
+ */
+export async function seedAirlines(filePath: string = AIRLINE_REFERENCE_FILE): Promise<number> {
+  const airlines = await loadAirlineReference(filePath)
+
+  for (const airline of airlines) {
+    await db.airline.upsert({
+      where: { iataCode: airline.iataCode },
+      update: airline,
+      create: airline
+    })
+    await linkFlightsToAirline(airline.iataCode)
+  }
+
+  AirlineRegistry.getInstance().invalidate()
+  return airlines.length
+}
+
+/**
+ * Attach unlinked flights whose number carries the airline's designator, read
+ * the same way as AirlineRegistry.resolve: "AIQ101" belongs to the ICAO AIQ,
+ * not to AI
+ */
+export async function linkFlightsToAirline(iataCode: string): Promise<number> {
+  const airline = await db.airline.findUnique({ where: { iataCode } })
+  if (!airline) return 0
+
+  const unlinked = await db.flight.findMany({ where: { airlineCode: null }, select: { id: true, flightNumber: true } })
+  const ids = unlinked
+    .filter(flight => matchesDesignator(airline, extractAirlineDesignator(flight.flightNumber)))
+    .map(flight => flight.id)
+  if (ids.length === 0) return 0
+
+  return updateFlightsWithHistory(
+    { id: { in: ids } },
+    { airlineCode: iataCode, airline: airline.name },
+    FlightEventSource.REFERENCE_DATA,
+    `airline ${iataCode} linked`
+  )
+}
+
+/**
+ * Get the airline designator a flight number starts with: a 3-letter ICAO
+ * code ("IGO201") or otherwise the 2-character IATA code ("6E201")
+ */
+export function extractAirlineDesignator(flightNumber: string): string {
+  const normalized = flightNumber.replace(/\s+/g, '').toUpperCase()
+  const icao = normalized.match(/^([A-Z]{3})\d/)
+  return icao ? icao[1] : normalized.substring(0, 2)
+}
+
+export class AirlineRegistry {
+  private static instance: AirlineRegistry
+  private airlines: AirlineReference[] | null = null
+  private fromDatabase = false
+  private lastUpdated?: Date
+
+  static getInstance(): AirlineRegistry {
+    if (!AirlineRegistry.instance) {
+      AirlineRegistry.instance = new AirlineRegistry()
+    }
+    return AirlineRegistry.instance
+  }
+
+  /**
+   * Get all known airlines, from the Airline table or the reference file when the table is empty
+   */
+  async getAirlines(): Promise<AirlineReference[]> {
+    // Use cached data if it's less than 5 minutes old
+    if (this.airlines && this.lastUpdated && (Date.now() - this.lastUpdated.getTime()) < 5 * 60 * 1000) {
+      return this.airlines
+    }
+
+    let airlines: AirlineReference[] = []
+    try {
+      airlines = await db.airline.findMany({ orderBy: { iataCode: 'asc' } })
+    } catch (error) {
+      console.error('Error loading airlines from database:', error)
+    }
+
+    this.fromDatabase = airlines.length > 0
+    if (!this.fromDatabase) {
+      airlines = await loadAirlineReference()
+    }
+
+    this.airlines = airlines
+    this.lastUpdated = new Date()
+    return airlines
+  }
+
+  /**
+   * Find the airline operating a flight number
+   */
+  async resolve(flightNumber: string): Promise<AirlineReference | null> {
+    const airlines = await this.getAirlines()
+    const designator = extractAirlineDesignator(flightNumber)
+
+    return airlines.find(a => matchesDesignator(a, designator)) || null
+  }
+
+  /**
+   * Get the airline name for a flight number, or 'Unknown Airline'
+   */
+  async getAirlineName(flightNumber: string): Promise<string> {
+    const airline = await this.resolve(flightNumber)
+    return airline?.name || 'Unknown Airline'
+  }
+
+  /**
+   * Get the airline name and Flight.airlineCode value for a flight number.
+   * The code is only set when the airline exists in the Airline table.
+   */
+  async getFlightAirlineFields(flightNumber: string): Promise<{ airline: string; airlineCode: string | null }> {
+    const airline = await this.resolve(flightNumber)
+    return {
+      airline: airline?.name || 'Unknown Airline',
+      airlineCode: airline && this.fromDatabase ? airline.iataCode : null
+    }
+  }
+
+  invalidate(): void {
+    this.airlines = null
+    this.lastUpdated = undefined
+  }
+}
+
+function matchesDesignator(airline: Pick<AirlineReference, 'iataCode' | 'icaoCode'>, designator: string): boolean {
+  return designator.length === 3 ? airline.icaoCode === designator : airline.iataCode === designator
+}
@@ -0,0 +1,257 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { z } from 'zod'
+import { Gate, StandType, Terminal, TrafficType } from '@prisma/client'
+import { db } from '@/lib/db'
+import type { ProcessedFlightData } from '@/lib/flight-data-processor'
+import { loadAircraftTypes, parseAircraftField } from '@/lib/aircraft'
+
+export const AIRPORT_RESOURCE_REFERENCE_FILE = './prisma/reference/airport-resources.json'
+
+// Minutes a stand is held around a movement, plus a buffer between consecutive users
+const OCCUPANCY_BEFORE_DEPARTURE = 60
+const OCCUPANCY_AFTER_DEPARTURE = 10
+const OCCUPANCY_BEFORE_ARRIVAL = 10
+const OCCUPANCY_AFTER_ARRIVAL = 45
+const STAND_BUFFER = 10
+
+// Aircraft without a known type are assumed to be narrow-bodies
+const DEFAULT_CODE_LETTER = 'C'
+const CODE_LETTERS = ['A', 'B', 'C', 'D', 'E', 'F'] as const
+
+export const terminalSchema = z.object({
+  code: z.string().trim().toUpperCase().min(1, 'Terminal code is required'),
+  name: z.string().trim().min(1, 'Name is required'),
+  traffic: z.enum(TrafficType).default(TrafficType.MIXED)
+})
+
+export const gateSchema = z.object({
+  code: z.string().trim().toUpperCase().min(1, 'Gate code is required'),
+  terminal: z.string().trim().toUpperCase().nullable().optional(),
+  type: z.enum(StandType).default(StandType.CONTACT),
+  sizeClass: z.enum(CODE_LETTERS),
+  traffic: z.enum(TrafficType).default(TrafficType.MIXED),
+  isActive: z.boolean().default(true)
+})
+
+export const runwaySchema = z.object({
+  designator: z.string().trim().toUpperCase().regex(/^\d{2}[LRC]?(\/\d{2}[LRC]?)?$/, 'Designator must look like "09/27" or "09L/27R"'),
+  lengthMeters: z.number().int().positive(),
+  widthMeters: z.number().int().positive().nullable().optional(),
+  isActive: z.boolean().default(true)
+})
+
+export const runwayConfigurationSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  description: z.string().trim().nullable().optional(),
+  runways: z.array(z.string().trim().toUpperCase()).min(1, 'At least one runway is required'),
+  isActive: z.boolean().default(false)
+})
+
+export const minimumConnectingTimeSchema = z.object({
+  fromTerminal: z.string().trim().toUpperCase().min(1, 'Arrival terminal is required'),
+  toTerminal: z.string().trim().toUpperCase().min(1, 'Departure terminal is required'),
+  minutes: z.number().int().positive()
+})
+
+const airportResourceReferenceSchema = z.object({
+  airportCode: z.string().trim().toUpperCase(),
+  terminals: z.array(terminalSchema),
+  gates: z.array(gateSchema),
+  runways: z.array(runwaySchema),
+  runwayConfigurations: z.array(runwayConfigurationSchema),
+  minimumConnectingTimes: z.array(minimumConnectingTimeSchema).default([])
+})
+
+export type AirportResourceReference = z.infer<typeof airportResourceReferenceSchema>
+
+export type GateWithTerminal = Gate & { terminal: Terminal | null }
+
+export interface GateAssignment {
+  gateId: string
+  gate: string
+  terminal: string | null
+}
+
+/**
+ * Read the local airport resource reference file
+ */
+export async function loadAirportResourceReference(filePath: string = AIRPORT_RESOURCE_REFERENCE_FILE): Promise<AirportResourceReference[]> {
+  const content = await readFile(path.resolve(process.cwd(), filePath), 'utf-8')
+  return z.array(airportResourceReferenceSchema).parse(JSON.parse(content))
+}
+
+/**
+ * Upsert terminals, gates, runways, runway configurations and minimum connecting
+ * times for every airport in the reference file that exists in the Airport table
+ */
+export async function seedAirportResources(filePath: string = AIRPORT_RESOURCE_REFERENCE_FILE): Promise<number> {
+  const references = await loadAirportResourceReference(filePath)
+  let seeded = 0
+
+  for (const reference of references) {
+    const { airportCode } = reference
+    const airport = await db.airport.findUnique({ where: { code: airportCode } })
+    if (!airport) continue
+
+    for (const terminal of reference.terminals) {
+      await db.terminal.upsert({
+        where: { airportCode_code: { airportCode, code: terminal.code } },
+        update: terminal,
+        create: { ...terminal, airportCode }
+      })
+    }
+
+    for (const { terminal, ...gate } of reference.gates) {
+      const terminalId = terminal ? await getTerminalId(airportCode, terminal) : null
+      await db.gate.upsert({
+        where: { airportCode_code: { airportCode, code: gate.code } },
+        update: { ...gate, terminalId },
+        create: { ...gate, terminalId, airportCode }
+      })
+    }
+
+    for (const runway of reference.runways) {
+      await db.runway.upsert({
+        where: { airportCode_designator: { airportCode, designator: runway.designator } },
+        update: runway,
+        create: { ...runway, airportCode }
+      })
+    }
+
+    for (const { runways, ...configuration } of reference.runwayConfigurations) {
+      const connect = runways.map(designator => ({ airportCode_designator: { airportCode, designator } }))
+      await db.runwayConfiguration.upsert({
+        where: { airportCode_name: { airportCode, name: configuration.name } },
+        update: { ...configuration, runways: { set: connect } },
+        create: { ...configuration, airportCode, runways: { connect } }
+      })
+    }
+
+    for (const mct of reference.minimumConnectingTimes) {
+      await db.minimumConnectingTime.upsert({
+        where: { airportCode_fromTerminal_toTerminal: { airportCode, fromTerminal: mct.fromTerminal, toTerminal: mct.toTerminal } },
+        update: mct,
+        create: { ...mct, airportCode }
+      })
+    }
+
+    seeded++
+  }
+
+  return seeded
+}
+
+/**
+ * Look up a terminal's id by its code at an airport
+ */
+export async function getTerminalId(airportCode: string, terminalCode: string): Promise<string | null> {
+  const terminal = await db.terminal.findUnique({
+    where: { airportCode_code: { airportCode, code: terminalCode } }
+  })
+  return terminal?.id ?? null
+}
+
+/**
+ * Look up runway ids by designator at an airport. Designators with no runway are returned as `missing`.
+ */
+export async function getRunwayIds(airportCode: string, designators: string[]): Promise<{ ids: string[]; missing: string[] }> {
+  const runways = await db.runway.findMany({
+    where: { airportCode, designator: { in: designators } },
+    select: { id: true, designator: true }
+  })
+  return {
+    ids: runways.map(runway => runway.id),
+    missing: designators.filter(designator => !runways.some(runway => runway.designator === designator))
+  }
+}
+
+/**
+ * Make a runway configuration the only active one at its airport
+ */
+export async function activateRunwayConfiguration(airportCode: string, id: string): Promise<void> {
+  await db.runwayConfiguration.updateMany({
+    where: { airportCode, id: { not: id }, isActive: true },
+    data: { isActive: false }
+  })
+}
+
+/**
+ * Assign each flight a compatible, free gate at the airport.
+ *
+ * Flights are placed in time order. A gate is compatible when it takes the
+ * aircraft's code letter and the flight's traffic type; contact gates are
+ * preferred over remote stands, then the smallest gate that fits. Flights
+ * that already reference a gate keep it. Returns assignments by flight id;
+ * flights with no free gate are left out.
+ */
+export async function allocateGates(airportCode: string, flights: ProcessedFlightData[]): Promise<Map<string, GateAssignment>> {
+  const assignments = new Map<string, GateAssignment>()
+  const gates: GateWithTerminal[] = await db.gate.findMany({
+    where: { airportCode, isActive: true },
+    include: { terminal: true },
+    orderBy: { code: 'asc' }
+  })
+  if (gates.length === 0) return assignments
+
+  const countries = await getAirportCountries()
+  const homeCountry = countries.get(airportCode)
+  const aircraftTypes = await loadAircraftTypes()
+  const freeFrom = new Map<string, number>()
+
+  const movements = flights
+    .map(flight => ({ flight, ...getOccupancy(flight, airportCode) }))
+    .sort((a, b) => a.start - b.start)
+
+  for (const { flight, start, end } of movements) {
+    const fixed = flight.gate ? gates.find(g => g.code === flight.gate) : undefined
+    if (fixed) {
+      freeFrom.set(fixed.id, Math.max(freeFrom.get(fixed.id) || 0, end + STAND_BUFFER * 60000))
+      assignments.set(flight.id, toAssignment(fixed))
+      continue
+    }
+
+    const type = aircraftTypes.get(parseAircraftField(flight.aircraft)?.icaoType || '')
+    const codeLetter = type?.codeLetter || DEFAULT_CODE_LETTER
+    const otherAirport = flight.origin === airportCode ? flight.destination : flight.origin
+    const otherCountry = countries.get(otherAirport)
+    // Airports missing from the Airport table are treated as domestic
+    const traffic = homeCountry && otherCountry && otherCountry !== homeCountry ? TrafficType.INTERNATIONAL : TrafficType.DOMESTIC
+
+    const gate = gates
+      .filter(g => CODE_LETTERS.indexOf(g.sizeClass as typeof CODE_LETTERS[number]) >= CODE_LETTERS.indexOf(codeLetter))
+      .filter(g => g.traffic === TrafficType.MIXED || g.traffic === traffic)
+      .filter(g => (freeFrom.get(g.id) || 0) <= start)
+      .sort((a, b) =>
+        (a.type === StandType.CONTACT ? 0 : 1) - (b.type === StandType.CONTACT ? 0 : 1) ||
+        a.sizeClass.localeCompare(b.sizeClass) ||
+        (a.traffic === traffic ? 0 : 1) - (b.traffic === traffic ? 0 : 1)
+      )[0]
+
+    if (gate) {
+      freeFrom.set(gate.id, end + STAND_BUFFER * 60000)
+      assignments.set(flight.id, toAssignment(gate))
+    }
+  }
+
+  return assignments
+}
+
+// The window (epoch ms) a flight holds its stand at the airport
+function getOccupancy(flight: ProcessedFlightData, airportCode: string): { start: number; end: number } {
+  if (flight.destination === airportCode && flight.origin !== airportCode) {
+    const arrival = (flight.actualArrival || flight.scheduledArrival).getTime()
+    return { start: arrival - OCCUPANCY_BEFORE_ARRIVAL * 60000, end: arrival + OCCUPANCY_AFTER_ARRIVAL * 60000 }
+  }
+  const departure = (flight.actualDeparture || flight.scheduledDeparture).getTime()
+  return { start: departure - OCCUPANCY_BEFORE_DEPARTURE * 60000, end: departure + OCCUPANCY_AFTER_DEPARTURE * 60000 }
+}
+
+async function getAirportCountries(): Promise<Map<string, string>> {
+  const airports = await db.airport.findMany({ select: { code: true, country: true } })
+  return new Map(airports.map(a => [a.code, a.country]))
+}
+
+function toAssignment(gate: GateWithTerminal): GateAssignment {
+  return { gateId: gate.id, gate: gate.code, terminal: gate.terminal?.code ?? null }
+}
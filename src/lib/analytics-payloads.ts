@@ -0,0 +1,90 @@
+import { z } from 'zod'
+import { Analytics, AnalyticsType } from '@prisma/client'
+import { db } from '@/lib/db'
+
+const utilizationSchema = z.number().min(0).nullable()
+
+// The shape of Analytics.data for each analytics type
+export const analyticsPayloadSchemas = {
+  PEAK_HOURS: z.array(z.object({
+    hour: z.number().int().min(0).max(23),
+    flightCount: z.number().int().min(0),
+    utilization: utilizationSchema
+  })),
+  DELAYS: z.object({
+    totalFlights: z.number().int().min(0),
+    delayedFlights: z.number().int().min(0),
+    // Mean signed delay, negative when early departures outweigh late ones
+    avgDelay: z.number(),
+    peakHour: z.number().int().min(0).max(23),
+    peakFlights: z.number().int().min(0),
+    delayDistribution: z.record(z.string(), z.number().int().min(0)),
+    capacityUtilization: utilizationSchema,
+    peakHourUtilization: utilizationSchema,
+    completenessScore: z.number().min(0).max(100)
+  }),
+  CAPACITY: z.object({
+    currentUtilization: utilizationSchema,
+    peakHourUtilization: utilizationSchema,
+    bottlenecks: z.array(z.string()),
+    recommendations: z.array(z.string())
+  }),
+  PATTERNS: z.object({
+    patterns: z.array(z.object({
+      name: z.string().min(1),
+      description: z.string(),
+      flights: z.number().int().min(0).optional()
+    }))
+  }),
+  DELAY_PROPAGATION: z.object({
+    primaryDelayMinutes: z.number().min(0),
+    reactionaryDelayMinutes: z.number().min(0),
+    affectedFlights: z.number().int().min(0),
+    propagationRisk: z.number().min(0).max(1),
+    delayedFlights: z.number().int().min(0),
+    trackedFlights: z.number().int().min(0)
+  }),
+  CAPACITY_FORECAST: z.object({
+    forecasts: z.array(z.object({
+      start: z.iso.datetime({ offset: true }),
+      expectedMovements: z.number().min(0),
+      declared: z.number().int().positive().nullable(),
+      utilization: utilizationSchema
+    }))
+  }),
+  DISRUPTION_IMPACT: z.object({
+    cause: z.string().min(1),
+    affectedFlights: z.number().int().min(0),
+    cancelledFlights: z.number().int().min(0),
+    delayMinutes: z.number().min(0)
+  }),
+  OPTIMIZATION_POTENTIAL: z.object({
+    delayReductionMinutes: z.number().min(0).nullable(),
+    capacityGain: z.number().nullable(),
+    recommendations: z.array(z.string())
+  })
+} satisfies Record<AnalyticsType, z.ZodType>
+
+export type AnalyticsPayload<T extends AnalyticsType> = z.infer<(typeof analyticsPayloadSchemas)[T]>
+
+/**
+ * Check an analytics payload against the schema for its type
+ */
+export function parseAnalyticsPayload<T extends AnalyticsType>(type: T, data: unknown): AnalyticsPayload<T> {
+  return analyticsPayloadSchemas[type].parse(data) as AnalyticsPayload<T>
+}
+
+/**
+ * Store an analytics record after validating its payload. Throws a ZodError
+ * when the payload does not match the type.
+ */
+export async function createAnalytics<T extends AnalyticsType>(
+  airportCode: string,
+  type: T,
+  data: AnalyticsPayload<T>,
+  confidence: number
+): Promise<Analytics> {
+  return db.analytics.create({
+    data: { airportCode, type, data: parseAnalyticsPayload(type, data), confidence }
+  })
+}
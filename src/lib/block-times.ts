@@ -0,0 +1,158 @@
+import type { ProcessedFlightData } from '@/lib/flight-data-processor'
+import { quantile, round } from '@/lib/stats'
+import { getLocalParts, minutesBetween } from '@/lib/timezone'
+
+export const DEFAULT_BLOCK_TIME_PERCENTILE = 85
+// Schedules within this many minutes of the suggested block time are adequate
+export const BLOCK_TIME_TOLERANCE_MINUTES = 10
+// Fewer measured flights than this are not enough to judge a schedule
+const MIN_BLOCK_TIME_SAMPLES = 5
+// Suggested block times are rounded up to schedule steps of this many minutes
+const BLOCK_TIME_STEP_MINUTES = 5
+
+export type BlockTimeAssessment = 'PADDED' | 'UNDER_SCHEDULED' | 'ADEQUATE' | 'INSUFFICIENT_DATA'
+
+export interface BlockTimeDistribution {
+  min: number
+  p25: number
+  median: number
+  p75: number
+  max: number
+  mean: number
+}
+
+export interface BlockTimeGroup {
+  key: string
+  label: string
+  // Flights with both actual times, the base of everything below
+  flights: number
+  scheduledBlockMinutes: number
+  actual: BlockTimeDistribution
+  // Actual minus scheduled block time across the flights
+  variance: { mean: number; median: number }
+  // Share (%) of flights that took no longer than scheduled
+  withinScheduleShare: number
+  // Actual block time at the chosen percentile, rounded up to a schedule step
+  suggestedBlockMinutes: number
+  adjustmentMinutes: number
+  assessment: BlockTimeAssessment
+}
+
+export interface RouteBlockTimes extends BlockTimeGroup {
+  origin: string
+  destination: string
+  byHour: BlockTimeGroup[]
+}
+
+export interface BlockTimeAnalysis {
+  percentile: number
+  toleranceMinutes: number
+  routes: RouteBlockTimes[]
+  paddedRoutes: string[]
+  underScheduledRoutes: string[]
+  // Flights left out because they have not both departed and arrived
+  unmeasuredFlights: number
+}
+
+export class InvalidPercentileError extends Error {
+  constructor(value: unknown) {
+    super(`Percentile must be a number from 1 to 99, got ${JSON.stringify(value)}`)
+    this.name = 'InvalidPercentileError'
+  }
+}
+
+/**
+ * Compare the block times actually flown with the scheduled ones, per route
+ * and per route and local departure hour. A route is padded when its schedule
+ * is more than BLOCK_TIME_TOLERANCE_MINUTES longer than the block time that
+ * `percentile` percent of its flights achieved, and under-scheduled when it is
+ * more than that much shorter.
+ */
+export function analyzeBlockTimes(
+  flights: ProcessedFlightData[],
+  timeZone: string,
+  percentile: number = DEFAULT_BLOCK_TIME_PERCENTILE
+): BlockTimeAnalysis {
+  if (!Number.isFinite(percentile) || percentile < 1 || percentile > 99) {
+    throw new InvalidPercentileError(percentile)
+  }
+
+  const measured = flights.filter(f => f.actualDeparture && f.actualArrival)
+  const byRoute = new Map<string, ProcessedFlightData[]>()
+  for (const flight of measured) {
+    const route = `${flight.origin}-${flight.destination}`
+    byRoute.set(route, [...(byRoute.get(route) || []), flight])
+  }
+
+  const routes = Array.from(byRoute.entries())
+    .map(([route, routeFlights]) => {
+      const byHour = new Map<number, ProcessedFlightData[]>()
+      for (const flight of routeFlights) {
+        const hour = getLocalParts(flight.scheduledDeparture, timeZone).hour
+        byHour.set(hour, [...(byHour.get(hour) || []), flight])
+      }
+
+      return {
+        ...measureGroup(route, route, routeFlights, percentile),
+        origin: routeFlights[0].origin,
+        destination: routeFlights[0].destination,
+        byHour: Array.from(byHour.entries())
+          .sort(([a], [b]) => a - b)
+          .map(([hour, hourFlights]) => measureGroup(String(hour), `${String(hour).padStart(2, '0')}:00`, hourFlights, percentile))
+      }
+    })
+    .sort((a, b) => b.flights - a.flights || a.key.localeCompare(b.key))
+
+  return {
+    percentile,
+    toleranceMinutes: BLOCK_TIME_TOLERANCE_MINUTES,
+    routes,
+    paddedRoutes: routes.filter(r => r.assessment === 'PADDED').map(r => r.key),
+    underScheduledRoutes: routes.filter(r => r.assessment === 'UNDER_SCHEDULED').map(r => r.key),
+    unmeasuredFlights: flights.length - measured.length
+  }
+}
+
+// Every group holds at least one flight with actual times
+function measureGroup(key: string, label: string, flights: ProcessedFlightData[], percentile: number): BlockTimeGroup {
+  const scheduled = sorted(flights.map(f => minutesBetween(f.scheduledDeparture, f.scheduledArrival)))
+  const actual = sorted(flights.map(f => minutesBetween(f.actualDeparture!, f.actualArrival!)))
+  const variances = sorted(flights.map(f =>
+    minutesBetween(f.actualDeparture!, f.actualArrival!) - minutesBetween(f.scheduledDeparture, f.scheduledArrival)
+  ))
+  const scheduledBlockMinutes = Math.round(quantile(scheduled, 50))
+  const suggestedBlockMinutes = Math.ceil(quantile(actual, percentile) / BLOCK_TIME_STEP_MINUTES) * BLOCK_TIME_STEP_MINUTES
+  const adjustmentMinutes = suggestedBlockMinutes - scheduledBlockMinutes
+  const assessment: BlockTimeAssessment = actual.length < MIN_BLOCK_TIME_SAMPLES
+    ? 'INSUFFICIENT_DATA'
+    : adjustmentMinutes < -BLOCK_TIME_TOLERANCE_MINUTES
+      ? 'PADDED'
+      : adjustmentMinutes > BLOCK_TIME_TOLERANCE_MINUTES ? 'UNDER_SCHEDULED' : 'ADEQUATE'
+
+  return {
+    key,
+    label,
+    flights: actual.length,
+    scheduledBlockMinutes,
+    actual: {
+      min: actual[0],
+      p25: round(quantile(actual, 25)),
+      median: round(quantile(actual, 50)),
+      p75: round(quantile(actual, 75)),
+      max: actual[actual.length - 1],
+      mean: round(actual.reduce((sum, m) => sum + m, 0) / actual.length)
+    },
+    variance: {
+      mean: round(variances.reduce((sum, m) => sum + m, 0) / variances.length),
+      median: round(quantile(variances, 50))
+    },
+    withinScheduleShare: round((variances.filter(v => v <= 0).length / variances.length) * 100),
+    suggestedBlockMinutes,
+    adjustmentMinutes,
+    assessment
+  }
+}
+
+function sorted(values: number[]): number[] {
+  return [...values].sort((a, b) => a - b)
+}
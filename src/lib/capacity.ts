@@ -0,0 +1,339 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { z } from 'zod'
+import { CapacityDeclaration, MovementType, RunwayConfiguration } from '@prisma/client'
+import { db } from '@/lib/db'
+import type { ProcessedFlightData } from '@/lib/flight-data-processor'
+import { getIATASeason } from '@/lib/ssim'
+import { formatLocalDateTime, getLocalParts, zonedTimeToUtc } from '@/lib/timezone'
+
+export const CAPACITY_REFERENCE_FILE = './prisma/reference/capacity-declarations.json'
+
+// Slot times are coordinated in 5-minute steps
+const SLOT_INTERVAL = 5
+// Furthest (minutes) a slot is moved from the requested time before the request is refused
+const MAX_SLOT_SHIFT = 60
+
+export const capacityDeclarationSchema = z.object({
+  season: z.string().trim().toUpperCase().regex(/^[SW]\d{2}$/, 'Season must look like "S25" or "W25"'),
+  runwayConfiguration: z.string().trim().min(1, 'Runway configuration is required'),
+  arrivalsPerHour: z.number().int().positive(),
+  departuresPerHour: z.number().int().positive(),
+  movementsPerHour: z.number().int().positive(),
+  arrivalsPer15Min: z.number().int().positive(),
+  departuresPer15Min: z.number().int().positive(),
+  movementsPer15Min: z.number().int().positive()
+})
+
+const capacityReferenceSchema = capacityDeclarationSchema.extend({
+  airportCode: z.string().trim().toUpperCase()
+})
+
+export type CapacityDeclarationInput = z.infer<typeof capacityDeclarationSchema>
+
+export type CapacityDeclarationWithConfiguration = CapacityDeclaration & { runwayConfiguration: RunwayConfiguration }
+
+export interface CapacityLimits {
+  arrivals: number
+  departures: number
+  movements: number
+}
+
+// Movements in one clock hour or quarter hour against the declared limits
+export interface CapacityPeriod {
+  start: string
+  season: string
+  arrivals: number
+  departures: number
+  movements: number
+  // Configuration whose declaration applies in the period's season
+  runwayConfiguration: string | null
+  declared: CapacityLimits | null
+  // Share (%) of the most constraining declared limit, null without a declaration
+  utilization: number | null
+}
+
+export interface CapacityMeasurement {
+  // Declared configuration by IATA season, for the seasons with traffic
+  runwayConfigurations: Record<string, string | null>
+  hourly: CapacityPeriod[]
+  quarterHourly: CapacityPeriod[]
+  // Average hourly utilization over the hours with traffic
+  utilization: number | null
+  peakHourUtilization: number | null
+  peakQuarterHourUtilization: number | null
+  hoursOverCapacity: number
+  quarterHoursOverCapacity: number
+}
+
+export interface SlotAllocation {
+  flightId: string
+  flightNumber: string
+  movement: MovementType
+  season: string
+  requestedTime: Date
+  slotTime: Date
+}
+
+export interface SlotAllocationResult {
+  allocated: SlotAllocation[]
+  // Flights with no slot within MAX_SLOT_SHIFT minutes of the requested time
+  refused: ProcessedFlightData[]
+}
+
+/**
+ * Read the local capacity declaration reference file
+ */
+export async function loadCapacityReference(filePath: string = CAPACITY_REFERENCE_FILE): Promise<z.infer<typeof capacityReferenceSchema>[]> {
+  const content = await readFile(path.resolve(process.cwd(), filePath), 'utf-8')
+  return z.array(capacityReferenceSchema).parse(JSON.parse(content))
+}
+
+/**
+ * Upsert the declarations from the reference file whose airport and runway configuration exist
+ */
+export async function seedCapacityDeclarations(filePath: string = CAPACITY_REFERENCE_FILE): Promise<number> {
+  const references = await loadCapacityReference(filePath)
+  let seeded = 0
+
+  for (const { airportCode, runwayConfiguration, ...limits } of references) {
+    const configuration = await db.runwayConfiguration.findUnique({
+      where: { airportCode_name: { airportCode, name: runwayConfiguration } }
+    })
+    if (!configuration) continue
+
+    await db.capacityDeclaration.upsert({
+      where: {
+        airportCode_season_runwayConfigurationId: { airportCode, season: limits.season, runwayConfigurationId: configuration.id }
+      },
+      update: limits,
+      create: { ...limits, airportCode, runwayConfigurationId: configuration.id }
+    })
+    seeded++
+  }
+
+  return seeded
+}
+
+/**
+ * Pick the declaration that applies in each season at an airport: the named runway
+ * configuration's, else the active configuration's, else the highest declared capacity
+ */
+export async function getCapacityDeclarations(airportCode: string, runwayConfiguration?: string): Promise<Map<string, CapacityDeclarationWithConfiguration>> {
+  const declarations = await db.capacityDeclaration.findMany({
+    where: { airportCode },
+    include: { runwayConfiguration: true },
+    orderBy: { movementsPerHour: 'desc' }
+  })
+
+  const bySeason = new Map<string, CapacityDeclarationWithConfiguration>()
+  for (const season of new Set(declarations.map(d => d.season))) {
+    const candidates = declarations.filter(d => d.season === season)
+    const declaration = (runwayConfiguration && candidates.find(d => d.runwayConfiguration.name === runwayConfiguration)) ||
+      candidates.find(d => d.runwayConfiguration.isActive) ||
+      candidates[0]
+    bySeason.set(season, declaration)
+  }
+  return bySeason
+}
+
+/**
+ * The movement a flight makes at an airport and its scheduled time, or null when it neither departs nor arrives there
+ */
+export function getMovement(flight: ProcessedFlightData, airportCode: string): { movement: MovementType; time: Date } | null {
+  if (flight.origin === airportCode) return { movement: MovementType.DEPARTURE, time: flight.scheduledDeparture }
+  if (flight.destination === airportCode) return { movement: MovementType.ARRIVAL, time: flight.scheduledArrival }
+  return null
+}
+
+/**
+ * Start of the local clock period of `minutes` (a divisor of 60) containing an instant
+ */
+export function getPeriodStart(time: Date, minutes: number, timeZone: string): Date {
+  const { year, month, day, hour, minute } = getLocalParts(time, timeZone)
+  return zonedTimeToUtc(year, month, day, hour * 60 + Math.floor(minute / minutes) * minutes, timeZone)
+}
+
+/**
+ * Count scheduled movements per clock hour and quarter hour and measure them
+ * against the capacity declared for the season each period falls in
+ */
+export async function measureCapacity(
+  airportCode: string,
+  flights: ProcessedFlightData[],
+  timeZone: string,
+  options: { runwayConfiguration?: string } = {}
+): Promise<CapacityMeasurement> {
+  const declarations = await loadDeclarationsOrEmpty(airportCode, options.runwayConfiguration)
+  const hourly = new Map<number, CapacityPeriod>()
+  const quarterHourly = new Map<number, CapacityPeriod>()
+
+  for (const flight of flights) {
+    const movement = getMovement(flight, airportCode)
+    if (!movement) continue
+
+    for (const [periods, minutes] of [[hourly, 60], [quarterHourly, 15]] as const) {
+      const start = getPeriodStart(movement.time, minutes, timeZone)
+      let period = periods.get(start.getTime())
+      if (!period) {
+        const season = getIATASeason(start)
+        const declaration = declarations.get(season)
+        period = {
+          start: formatLocalDateTime(start, timeZone),
+          season,
+          arrivals: 0,
+          departures: 0,
+          movements: 0,
+          runwayConfiguration: declaration?.runwayConfiguration.name ?? null,
+          declared: declaration ? getLimits(declaration, minutes) : null,
+          utilization: null
+        }
+        periods.set(start.getTime(), period)
+      }
+      if (movement.movement === MovementType.ARRIVAL) period.arrivals++
+      else period.departures++
+      period.movements++
+    }
+  }
+
+  const hourlyPeriods = finalizePeriods(hourly)
+  const quarterHourlyPeriods = finalizePeriods(quarterHourly)
+  const hourlyUtilization = hourlyPeriods.map(p => p.utilization).filter((u): u is number => u !== null)
+  const quarterHourlyUtilization = quarterHourlyPeriods.map(p => p.utilization).filter((u): u is number => u !== null)
+
+  return {
+    runwayConfigurations: Object.fromEntries(hourlyPeriods.map(p => [p.season, p.runwayConfiguration])),
+    hourly: hourlyPeriods,
+    quarterHourly: quarterHourlyPeriods,
+    utilization: hourlyUtilization.length > 0
+      ? Math.round(hourlyUtilization.reduce((sum, u) => sum + u, 0) / hourlyUtilization.length * 100) / 100
+      : null,
+    peakHourUtilization: hourlyUtilization.length > 0 ? Math.max(...hourlyUtilization) : null,
+    peakQuarterHourUtilization: quarterHourlyUtilization.length > 0 ? Math.max(...quarterHourlyUtilization) : null,
+    hoursOverCapacity: hourlyUtilization.filter(u => u > 100).length,
+    quarterHoursOverCapacity: quarterHourlyUtilization.filter(u => u > 100).length
+  }
+}
+
+/**
+ * Allocate slots at an airport in order of requested time. Each movement gets the
+ * nearest 5-minute slot time where neither the hourly nor the 15-minute declared
+ * limits are exceeded; seasons without a declaration get the requested time.
+ */
+export async function allocateSlots(
+  airportCode: string,
+  flights: ProcessedFlightData[],
+  timeZone: string,
+  options: { runwayConfiguration?: string } = {}
+): Promise<SlotAllocationResult> {
+  const declarations = await getCapacityDeclarations(airportCode, options.runwayConfiguration)
+  const used = new Map<string, number>()
+  const count = (key: string) => used.get(key) || 0
+
+  const requests = flights
+    .map(flight => ({ flight, movement: getMovement(flight, airportCode) }))
+    .filter((request): request is { flight: ProcessedFlightData; movement: { movement: MovementType; time: Date } } => request.movement !== null)
+    .sort((a, b) => a.movement.time.getTime() - b.movement.time.getTime())
+
+  const result: SlotAllocationResult = { allocated: [], refused: [] }
+  for (const { flight, movement } of requests) {
+    const requested = roundToSlotInterval(movement.time)
+    const season = getIATASeason(requested)
+    const declaration = declarations.get(season)
+
+    const slotTime = getSlotCandidates(requested).find(candidate => {
+      if (!declaration) return true
+      return [60, 15].every(minutes => {
+        const limits = getLimits(declaration, minutes)
+        const start = getPeriodStart(candidate, minutes, timeZone).getTime()
+        const movementLimit = movement.movement === MovementType.ARRIVAL ? limits.arrivals : limits.departures
+        return count(`${minutes}|${start}|${movement.movement}`) < movementLimit && count(`${minutes}|${start}|ALL`) < limits.movements
+      })
+    })
+
+    if (!slotTime) {
+      result.refused.push(flight)
+      continue
+    }
+
+    for (const minutes of [60, 15]) {
+      const start = getPeriodStart(slotTime, minutes, timeZone).getTime()
+      for (const key of [`${minutes}|${start}|${movement.movement}`, `${minutes}|${start}|ALL`]) {
+        used.set(key, count(key) + 1)
+      }
+    }
+    result.allocated.push({
+      flightId: flight.id,
+      flightNumber: flight.flightNumber,
+      movement: movement.movement,
+      season,
+      requestedTime: requested,
+      slotTime
+    })
+  }
+
+  return result
+}
+
+/**
+ * Replace the stored slots at an airport for the allocated flights
+ */
+export async function saveSlots(airportCode: string, allocations: SlotAllocation[]): Promise<number> {
+  await db.slot.deleteMany({
+    where: { airportCode, flightId: { in: allocations.map(a => a.flightId) } }
+  })
+  const created = await db.slot.createMany({
+    data: allocations.map(allocation => ({
+      airportCode,
+      flightId: allocation.flightId,
+      season: allocation.season,
+      movement: allocation.movement,
+      requestedTime: allocation.requestedTime,
+      slotTime: allocation.slotTime
+    }))
+  })
+  return created.count
+}
+
+// Declarations are optional; analytics carry on without them when the tables can't be read
+async function loadDeclarationsOrEmpty(airportCode: string, runwayConfiguration?: string): Promise<Map<string, CapacityDeclarationWithConfiguration>> {
+  try {
+    return await getCapacityDeclarations(airportCode, runwayConfiguration)
+  } catch (error) {
+    console.error('Error loading capacity declarations:', error)
+    return new Map()
+  }
+}
+
+function getLimits(declaration: CapacityDeclaration, minutes: number): CapacityLimits {
+  return minutes === 15
+    ? { arrivals: declaration.arrivalsPer15Min, departures: declaration.departuresPer15Min, movements: declaration.movementsPer15Min }
+    : { arrivals: declaration.arrivalsPerHour, departures: declaration.departuresPerHour, movements: declaration.movementsPerHour }
+}
+
+function finalizePeriods(periods: Map<number, CapacityPeriod>): CapacityPeriod[] {
+  return Array.from(periods.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, period]) => ({
+      ...period,
+      utilization: period.declared ? Math.round(Math.max(
+        period.arrivals / period.declared.arrivals,
+        period.departures / period.declared.departures,
+        period.movements / period.declared.movements
+      ) * 10000) / 100 : null
+    }))
+}
+
+function roundToSlotInterval(time: Date): Date {
+  const interval = SLOT_INTERVAL * 60000
+  return new Date(Math.round(time.getTime() / interval) * interval)
+}
+
+// Slot times nearest the request first, later before earlier at equal distance
+function getSlotCandidates(requested: Date): Date[] {
+  const candidates = [requested]
+  for (let shift = SLOT_INTERVAL; shift <= MAX_SLOT_SHIFT; shift += SLOT_INTERVAL) {
+    candidates.push(new Date(requested.getTime() + shift * 60000), new Date(requested.getTime() - shift * 60000))
+  }
+  return candidates
+}
@@ -0,0 +1,236 @@
+import { z } from 'zod'
+import { Connection, Flight, MinimumConnectingTime } from '@prisma/client'
+import { db } from '@/lib/db'
+import type { ProcessedFlightData } from '@/lib/flight-data-processor'
+import { formatLocalDateTime } from '@/lib/timezone'
+
+// Used when a flight's terminal is unknown and the airport declares no connecting times
+export const DEFAULT_MINIMUM_CONNECTING_TIME = 60
+// Connections with less slack than this over the minimum connecting time are at risk
+export const TIGHT_CONNECTION_MINUTES = 15
+// A departure is only worth holding this long, and for at least this many passengers
+const MAX_HOLD_MINUTES = 30
+const MIN_HOLD_PASSENGERS = 10
+
+export const connectionSchema = z.object({
+  inboundFlightId: z.string().min(1, 'Inbound flight is required'),
+  outboundFlightId: z.string().min(1, 'Outbound flight is required'),
+  passengers: z.number().int().positive()
+})
+
+export type ConnectionWithFlights = Connection & { inbound: Flight; outbound: Flight }
+
+export type ConnectionStatus = 'MISSED' | 'TIGHT' | 'OK'
+
+export interface ConnectionRisk {
+  connectionId: string
+  passengers: number
+  inbound: { id: string; flightNumber: string; origin: string; terminal: string | null; estimatedArrival: string; delayMinutes: number }
+  outbound: { id: string; flightNumber: string; destination: string; terminal: string | null; estimatedDeparture: string; delayMinutes: number }
+  minimumConnectingTime: number
+  // Minutes between estimated arrival and departure, less the minimum connecting time
+  slackMinutes: number
+  status: ConnectionStatus
+}
+
+export interface HoldRecommendation {
+  flightId: string
+  flightNumber: string
+  destination: string
+  estimatedDeparture: string
+  // Extra minutes on top of the departure's own delay to make the missed connections
+  holdMinutes: number
+  connectionsProtected: number
+  passengersProtected: number
+  worthHolding: boolean
+  reason: string
+}
+
+export interface ConnectionAnalysis {
+  totalConnections: number
+  totalPassengers: number
+  missedConnections: number
+  tightConnections: number
+  passengersAffected: number
+  passengersAtRisk: number
+  atRisk: ConnectionRisk[]
+  holds: HoldRecommendation[]
+}
+
+export class InvalidConnectionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvalidConnectionError'
+  }
+}
+
+/**
+ * Record passengers connecting between two of the airport's flights. Throws
+ * InvalidConnectionError unless the inbound flight arrives at the airport
+ * before the outbound flight leaves it.
+ */
+export async function createConnection(airportCode: string, input: z.infer<typeof connectionSchema>): Promise<ConnectionWithFlights> {
+  const [inbound, outbound] = await Promise.all([
+    db.flight.findUnique({ where: { id: input.inboundFlightId } }),
+    db.flight.findUnique({ where: { id: input.outboundFlightId } })
+  ])
+
+  if (!inbound) throw new InvalidConnectionError(`Unknown inbound flight ${input.inboundFlightId}`)
+  if (!outbound) throw new InvalidConnectionError(`Unknown outbound flight ${input.outboundFlightId}`)
+  if (inbound.destination !== airportCode) {
+    throw new InvalidConnectionError(`Inbound flight ${inbound.flightNumber} arrives at ${inbound.destination}, not ${airportCode}`)
+  }
+  if (outbound.origin !== airportCode) {
+    throw new InvalidConnectionError(`Outbound flight ${outbound.flightNumber} departs from ${outbound.origin}, not ${airportCode}`)
+  }
+  if (outbound.scheduledDeparture <= inbound.scheduledArrival) {
+    throw new InvalidConnectionError(`${outbound.flightNumber} is scheduled to leave before ${inbound.flightNumber} arrives`)
+  }
+
+  return db.connection.create({
+    data: { ...input, airportCode },
+    include: { inbound: true, outbound: true }
+  })
+}
+
+/**
+ * Find the minimum connecting time between two terminals. Unknown terminals or
+ * pairs fall back to the airport's longest declared time.
+ */
+export function getMinimumConnectingTime(mcts: MinimumConnectingTime[], fromTerminal?: string | null, toTerminal?: string | null): number {
+  const exact = mcts.find(mct => mct.fromTerminal === fromTerminal && mct.toTerminal === toTerminal)
+  if (exact) return exact.minutes
+  return mcts.length > 0 ? Math.max(...mcts.map(mct => mct.minutes)) : DEFAULT_MINIMUM_CONNECTING_TIME
+}
+
+/**
+ * Check the connections onto the given departures against estimated arrival and
+ * departure times, and work out which departures are worth holding.
+ *
+ * A flight's estimate is its actual time, else its scheduled time plus the
+ * predicted delay (keyed by flight id) or its recorded delay.
+ */
+export async function analyzeConnections(
+  airportCode: string,
+  departures: ProcessedFlightData[],
+  timeZone: string,
+  predictedDelays: Record<string, number> = {}
+): Promise<ConnectionAnalysis> {
+  const outboundIds = departures.filter(f => f.origin === airportCode).map(f => f.id)
+  const { connections, mcts } = await loadConnectionsOrEmpty(airportCode, outboundIds)
+
+  const risks = connections.map(connection => {
+    const arrivalDelay = predictedDelays[connection.inboundFlightId] ?? connection.inbound.delayMinutes ?? 0
+    const departureDelay = predictedDelays[connection.outboundFlightId] ?? connection.outbound.delayMinutes ?? 0
+    const estimatedArrival = connection.inbound.actualArrival ||
+      new Date(connection.inbound.scheduledArrival.getTime() + arrivalDelay * 60000)
+    const estimatedDeparture = connection.outbound.actualDeparture ||
+      new Date(connection.outbound.scheduledDeparture.getTime() + departureDelay * 60000)
+
+    const minimumConnectingTime = getMinimumConnectingTime(mcts, connection.inbound.terminal, connection.outbound.terminal)
+    const slackMinutes = Math.round((estimatedDeparture.getTime() - estimatedArrival.getTime()) / 60000) - minimumConnectingTime
+    const status: ConnectionStatus = slackMinutes < 0 ? 'MISSED' : slackMinutes < TIGHT_CONNECTION_MINUTES ? 'TIGHT' : 'OK'
+
+    return {
+      risk: {
+        connectionId: connection.id,
+        passengers: connection.passengers,
+        inbound: {
+          id: connection.inbound.id,
+          flightNumber: connection.inbound.flightNumber,
+          origin: connection.inbound.origin,
+          terminal: connection.inbound.terminal,
+          estimatedArrival: formatLocalDateTime(estimatedArrival, timeZone),
+          delayMinutes: Math.round((estimatedArrival.getTime() - connection.inbound.scheduledArrival.getTime()) / 60000)
+        },
+        outbound: {
+          id: connection.outbound.id,
+          flightNumber: connection.outbound.flightNumber,
+          destination: connection.outbound.destination,
+          terminal: connection.outbound.terminal,
+          estimatedDeparture: formatLocalDateTime(estimatedDeparture, timeZone),
+          delayMinutes: Math.round((estimatedDeparture.getTime() - connection.outbound.scheduledDeparture.getTime()) / 60000)
+        },
+        minimumConnectingTime,
+        slackMinutes,
+        status
+      } satisfies ConnectionRisk,
+      departed: Boolean(connection.outbound.actualDeparture)
+    }
+  })
+
+  const missed = risks.filter(r => r.risk.status === 'MISSED')
+  const tight = risks.filter(r => r.risk.status === 'TIGHT')
+  const sum = (entries: typeof risks) => entries.reduce((total, entry) => total + entry.risk.passengers, 0)
+
+  return {
+    totalConnections: risks.length,
+    totalPassengers: sum(risks),
+    missedConnections: missed.length,
+    tightConnections: tight.length,
+    passengersAffected: sum(missed),
+    passengersAtRisk: sum(tight),
+    atRisk: [...missed, ...tight].map(r => r.risk).sort((a, b) => a.slackMinutes - b.slackMinutes),
+    holds: recommendHolds(missed.filter(r => !r.departed).map(r => r.risk))
+  }
+}
+
+// For each departure with missed connections, pick the hold that protects the most passengers per minute
+function recommendHolds(missed: ConnectionRisk[]): HoldRecommendation[] {
+  const byDeparture = new Map<string, ConnectionRisk[]>()
+  for (const risk of missed) {
+    byDeparture.set(risk.outbound.id, [...(byDeparture.get(risk.outbound.id) || []), risk])
+  }
+
+  return Array.from(byDeparture.values())
+    .map(risks => {
+      const holds = Array.from(new Set(risks.map(r => -r.slackMinutes))).sort((a, b) => a - b)
+      const options = holds.map(holdMinutes => {
+        const made = risks.filter(r => -r.slackMinutes <= holdMinutes)
+        return { holdMinutes, connections: made.length, passengers: made.reduce((total, r) => total + r.passengers, 0) }
+      })
+      const affordable = options.filter(o => o.holdMinutes <= MAX_HOLD_MINUTES)
+      const best = (affordable.length > 0 ? affordable : options)
+        .reduce((a, b) => b.passengers / b.holdMinutes > a.passengers / a.holdMinutes ? b : a)
+
+      const worthHolding = best.holdMinutes <= MAX_HOLD_MINUTES && best.passengers >= MIN_HOLD_PASSENGERS
+      const reason = best.holdMinutes > MAX_HOLD_MINUTES
+        ? `Connections need at least ${best.holdMinutes} minutes, over the ${MAX_HOLD_MINUTES} minute limit`
+        : best.passengers < MIN_HOLD_PASSENGERS
+          ? `Only ${best.passengers} passengers would make it, fewer than ${MIN_HOLD_PASSENGERS}`
+          : `Holding ${best.holdMinutes} minutes protects ${best.passengers} passengers`
+      const { outbound } = risks[0]
+
+      return {
+        flightId: outbound.id,
+        flightNumber: outbound.flightNumber,
+        destination: outbound.destination,
+        estimatedDeparture: outbound.estimatedDeparture,
+        holdMinutes: best.holdMinutes,
+        connectionsProtected: best.connections,
+        passengersProtected: best.passengers,
+        worthHolding,
+        reason
+      }
+    })
+    .sort((a, b) => Number(b.worthHolding) - Number(a.worthHolding) || b.passengersProtected - a.passengersProtected)
+}
+
+// Flights read from files have no stored connections; treat an unreadable table the same way
+async function loadConnectionsOrEmpty(airportCode: string, outboundIds: string[]): Promise<{ connections: ConnectionWithFlights[]; mcts: MinimumConnectingTime[] }> {
+  if (outboundIds.length === 0) return { connections: [], mcts: [] }
+
+  try {
+    const [connections, mcts] = await Promise.all([
+      db.connection.findMany({
+        where: { airportCode, outboundFlightId: { in: outboundIds } },
+        include: { inbound: true, outbound: true }
+      }),
+      db.minimumConnectingTime.findMany({ where: { airportCode } })
+    ])
+    return { connections, mcts }
+  } catch (error) {
+    console.error('Error loading connections:', error)
+    return { connections: [], mcts: [] }
+  }
+}
@@ -0,0 +1,204 @@
+import type { ProcessedFlightData, IngestionReport } from '@/lib/flight-data-processor'
+import { FlightStatus } from '@/lib/flight-data-processor'
+import { AirlineRegistry } from '@/lib/airlines'
+import { parseAircraftField } from '@/lib/aircraft'
+import { minutesBetween } from '@/lib/timezone'
+
+// Block times outside this range (minutes) are treated as data errors
+const MIN_PLAUSIBLE_BLOCK_TIME = 15
+const MAX_PLAUSIBLE_BLOCK_TIME = 20 * 60
+
+export type DataQualityIssueType =
+  | 'missing-flight-number'
+  | 'missing-actual-departure'
+  | 'missing-actual-arrival'
+  | 'negative-block-time'
+  | 'implausible-block-time'
+  | 'duplicate-flight'
+  | 'unknown-airline'
+  | 'unparseable-aircraft'
+  | 'imputed-duration'
+
+export interface DataQualityRecord {
+  id: string
+  flightNumber: string
+  origin: string
+  destination: string
+  scheduledDeparture: string
+  detail?: string
+}
+
+export interface DataQualityIssue {
+  count: number
+  records: DataQualityRecord[]
+}
+
+export interface DataQualityReport {
+  airportCode: string
+  totalFlights: number
+  completenessScore: number
+  flightsWithIssues: number
+  issues: Record<DataQualityIssueType, DataQualityIssue>
+  source?: {
+    location: string
+    loadedAt: string
+    totalRows: number
+    rejectedRows: IngestionReport['rejected']
+    unnamedColumns: string[]
+  }
+}
+
+export interface DataQualityOptions {
+  // Maximum offending records listed per issue type
+  recordLimit?: number
+  ingestionReport?: IngestionReport
+  now?: Date
+}
+
+/**
+ * Audit flight records for missing, implausible and duplicated values
+ */
+export async function auditFlightData(airportCode: string, flights: ProcessedFlightData[], options: DataQualityOptions = {}): Promise<DataQualityReport> {
+  const { recordLimit = 50, ingestionReport, now = new Date() } = options
+  const airlines = AirlineRegistry.getInstance()
+  const found = new Map<DataQualityIssueType, { flight: ProcessedFlightData; detail?: string }[]>()
+  const flag = (type: DataQualityIssueType, flight: ProcessedFlightData, detail?: string) => {
+    found.set(type, [...(found.get(type) || []), { flight, detail }])
+  }
+
+  const seen = new Map<string, ProcessedFlightData>()
+  for (const flight of flights) {
+    if (!flight.flightNumber) {
+      flag('missing-flight-number', flight)
+    } else if (!(await airlines.resolve(flight.flightNumber))) {
+      flag('unknown-airline', flight, `No airline for designator of ${flight.flightNumber}`)
+    }
+
+    if (isActualDepartureDue(flight, now) && !flight.actualDeparture) {
+      flag('missing-actual-departure', flight)
+    }
+    if (isActualArrivalDue(flight, now) && !flight.actualArrival) {
+      flag('missing-actual-arrival', flight)
+    }
+
+    const blockTime = getBlockTime(flight)
+    if (blockTime < 0) {
+      flag('negative-block-time', flight, `${blockTime} minutes`)
+    } else if (blockTime < MIN_PLAUSIBLE_BLOCK_TIME || blockTime > MAX_PLAUSIBLE_BLOCK_TIME) {
+      flag('implausible-block-time', flight, `${blockTime} minutes`)
+    }
+
+    if (flight.aircraft && !parseAircraftField(flight.aircraft)) {
+      flag('unparseable-aircraft', flight, `"${flight.aircraft}"`)
+    }
+
+    if (flight.imputedFields?.includes('flightDuration')) {
+      flag('imputed-duration', flight, `Imputed as ${flight.flightDuration} minutes`)
+    }
+
+    // The same flight number, or the same tail, cannot depart twice at the same time
+    for (const key of duplicateKeys(flight)) {
+      const original = seen.get(key)
+      if (original) {
+        flag('duplicate-flight', flight, `Duplicate of record ${original.id}`)
+        break
+      }
+      seen.set(key, flight)
+    }
+  }
+
+  const issueTypes: DataQualityIssueType[] = [
+    'missing-flight-number',
+    'missing-actual-departure',
+    'missing-actual-arrival',
+    'negative-block-time',
+    'implausible-block-time',
+    'duplicate-flight',
+    'unknown-airline',
+    'unparseable-aircraft',
+    'imputed-duration'
+  ]
+  const issues = Object.fromEntries(issueTypes.map(type => {
+    const entries = found.get(type) || []
+    return [type, {
+      count: entries.length,
+      records: entries.slice(0, recordLimit).map(({ flight, detail }) => toRecord(flight, detail))
+    }]
+  })) as Record<DataQualityIssueType, DataQualityIssue>
+
+  const flightsWithIssues = new Set(Array.from(found.values()).flat().map(entry => entry.flight)).size
+
+  return {
+    airportCode,
+    totalFlights: flights.length,
+    completenessScore: calculateCompletenessScore(flights, now),
+    flightsWithIssues,
+    issues,
+    source: ingestionReport && {
+      location: ingestionReport.source,
+      loadedAt: ingestionReport.loadedAt.toISOString(),
+      totalRows: ingestionReport.totalRows,
+      rejectedRows: ingestionReport.rejected.slice(0, recordLimit),
+      unnamedColumns: ingestionReport.unnamedColumns
+    }
+  }
+}
+
+/**
+ * Share (0-100) of expected values present: flight number, a parseable aircraft,
+ * a measured duration, and actual times once they are due
+ */
+export function calculateCompletenessScore(flights: ProcessedFlightData[], now: Date = new Date()): number {
+  let expected = 0
+  let present = 0
+  const check = (isPresent: boolean) => {
+    expected++
+    if (isPresent) present++
+  }
+
+  for (const flight of flights) {
+    check(!!flight.flightNumber)
+    check(!!parseAircraftField(flight.aircraft))
+    check(!flight.imputedFields?.includes('flightDuration'))
+    if (isActualDepartureDue(flight, now)) check(!!flight.actualDeparture)
+    if (isActualArrivalDue(flight, now)) check(!!flight.actualArrival)
+  }
+
+  return expected > 0 ? Math.round((present / expected) * 1000) / 10 : 100
+}
+
+// Flights that have departed (or were due to long enough ago) should carry an actual time
+function isActualDepartureDue(flight: ProcessedFlightData, now: Date): boolean {
+  if (flight.status === FlightStatus.CANCELLED) return false
+  return flight.status === FlightStatus.DEPARTED || flight.status === FlightStatus.ARRIVED || flight.scheduledDeparture < now
+}
+
+function isActualArrivalDue(flight: ProcessedFlightData, now: Date): boolean {
+  if (flight.status === FlightStatus.CANCELLED) return false
+  return flight.status === FlightStatus.ARRIVED || flight.scheduledArrival < now
+}
+
+function getBlockTime(flight: ProcessedFlightData): number {
+  const departure = flight.actualDeparture && flight.actualArrival ? flight.actualDeparture : flight.scheduledDeparture
+  const arrival = flight.actualDeparture && flight.actualArrival ? flight.actualArrival : flight.scheduledArrival
+  return minutesBetween(departure, arrival)
+}
+
+function duplicateKeys(flight: ProcessedFlightData): string[] {
+  const departure = flight.scheduledDeparture.getTime()
+  return [
+    flight.flightNumber ? `flight|${flight.flightNumber}|${departure}` : null,
+    flight.registration ? `tail|${flight.registration}|${departure}` : null
+  ].filter((key): key is string => key !== null)
+}
+
+function toRecord(flight: ProcessedFlightData, detail?: string): DataQualityRecord {
+  return {
+    id: flight.id,
+    flightNumber: flight.flightNumber,
+    origin: flight.origin,
+    destination: flight.destination,
+    scheduledDeparture: flight.localTimes?.scheduledDeparture || flight.scheduledDeparture.toISOString(),
+    detail
+  }
+}
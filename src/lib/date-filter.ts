@@ -0,0 +1,150 @@
+import { Prisma } from '@prisma/client'
+import type { ProcessedFlightData } from '@/lib/flight-data-processor'
+import { DAY_NAMES, getLocalParts, parseCalendarDate, zonedTimeToUtc } from '@/lib/timezone'
+
+/**
+ * Date filter as accepted by the analytics APIs. Dates are airport-local
+ * calendar days ("2025-07-22"); `to` is inclusive. `date` is shorthand for
+ * `from` = `to`. `dayOfWeek` takes 0-6 (Monday = 0), day names or a
+ * comma-separated list of either.
+ */
+export interface FlightDateFilter {
+  date?: string
+  from?: string
+  to?: string
+  dayOfWeek?: number | string | (number | string)[]
+}
+
+// A filter resolved against an airport's time zone
+export interface ResolvedDateFilter {
+  start?: Date
+  end?: Date
+  daysOfWeek?: number[]
+}
+
+export class InvalidDateFilterError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvalidDateFilterError'
+  }
+}
+
+/**
+ * Turn a date filter into UTC bounds for an airport. Returns null when nothing is filtered.
+ */
+export function resolveDateFilter(filter: FlightDateFilter | undefined, timeZone: string): ResolvedDateFilter | null {
+  if (!filter) return null
+
+  const from = filter.date || filter.from
+  const to = filter.date || filter.to
+  const daysOfWeek = parseDaysOfWeek(filter.dayOfWeek)
+  if (!from && !to && !daysOfWeek) return null
+
+  const fromDay = from ? parseDateField(from, filter.date ? 'date' : 'from') : undefined
+  const toDay = to ? parseDateField(to, filter.date ? 'date' : 'to') : undefined
+  if (fromDay && toDay && Date.UTC(fromDay.year, fromDay.month - 1, fromDay.day) > Date.UTC(toDay.year, toDay.month - 1, toDay.day)) {
+    throw new InvalidDateFilterError(`"from" (${from}) is after "to" (${to})`)
+  }
+
+  return {
+    start: fromDay ? zonedTimeToUtc(fromDay.year, fromDay.month, fromDay.day, 0, timeZone) : undefined,
+    end: toDay ? zonedTimeToUtc(toDay.year, toDay.month, toDay.day + 1, 0, timeZone) : undefined,
+    daysOfWeek
+  }
+}
+
+/**
+ * Read `date`, `from`, `to` and `dayOfWeek` query parameters
+ */
+export function dateFilterFromSearchParams(searchParams: URLSearchParams): FlightDateFilter {
+  return {
+    date: searchParams.get('date') || undefined,
+    from: searchParams.get('from') || undefined,
+    to: searchParams.get('to') || undefined,
+    dayOfWeek: searchParams.get('dayOfWeek') || undefined
+  }
+}
+
+/**
+ * Prisma condition on Flight.scheduledDeparture for the date range of a filter.
+ * Days of the week can't be expressed in SQLite and are applied with `matchesDateFilter`.
+ */
+export function scheduledDepartureWhere(resolved: ResolvedDateFilter | null): Prisma.FlightWhereInput {
+  if (!resolved || (!resolved.start && !resolved.end)) return {}
+  return {
+    scheduledDeparture: {
+      ...(resolved.start && { gte: resolved.start }),
+      ...(resolved.end && { lt: resolved.end })
+    }
+  }
+}
+
+/**
+ * Check a processed flight against a resolved filter
+ */
+export function matchesDateFilter(flight: Pick<ProcessedFlightData, 'scheduledDeparture' | 'dayOfWeek'>, resolved: ResolvedDateFilter | null): boolean {
+  if (!resolved) return true
+  if (resolved.start && flight.scheduledDeparture < resolved.start) return false
+  if (resolved.end && flight.scheduledDeparture >= resolved.end) return false
+  if (resolved.daysOfWeek && !resolved.daysOfWeek.includes(flight.dayOfWeek)) return false
+  return true
+}
+
+/**
+ * The filter for the same number of days immediately before a filter's date
+ * range, on the same days of the week. Returns null unless both ends of the
+ * range are set.
+ */
+export function previousPeriod(filter: FlightDateFilter): FlightDateFilter | null {
+  const from = filter.date || filter.from
+  const to = filter.date || filter.to
+  if (!from || !to) return null
+
+  const fromDay = parseDateField(from, filter.date ? 'date' : 'from')
+  const toDay = parseDateField(to, filter.date ? 'date' : 'to')
+  const start = Date.UTC(fromDay.year, fromDay.month - 1, fromDay.day)
+  const days = Math.round((Date.UTC(toDay.year, toDay.month - 1, toDay.day) - start) / 86400000) + 1
+  const format = (time: number) => new Date(time).toISOString().substring(0, 10)
+
+  return {
+    from: format(start - days * 86400000),
+    to: format(start - 86400000),
+    dayOfWeek: filter.dayOfWeek
+  }
+}
+
+/**
+ * Count the distinct airport-local days the flights operate on, for per-day averages
+ */
+export function countOperatingDays(flights: Pick<ProcessedFlightData, 'scheduledDeparture'>[], timeZone: string): number {
+  const days = new Set(flights.map(flight => {
+    const { year, month, day } = getLocalParts(flight.scheduledDeparture, timeZone)
+    return `${year}-${month}-${day}`
+  }))
+  return days.size
+}
+
+function parseDateField(value: string, field: string): { year: number; month: number; day: number } {
+  const date = parseCalendarDate(value)
+  if (!date) {
+    throw new InvalidDateFilterError(`"${field}" must be a date in YYYY-MM-DD format, got "${value}"`)
+  }
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() }
+}
+
+function parseDaysOfWeek(value: FlightDateFilter['dayOfWeek']): number[] | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+
+  const entries = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [value]
+  return entries.map(entry => {
+    if (typeof entry === 'number' || /^\d+$/.test(String(entry).trim())) {
+      const day = Number(entry)
+      if (day >= 0 && day <= 6) return day
+    } else {
+      const name = String(entry).trim().toLowerCase()
+      const index = DAY_NAMES.findIndex(day => name.length >= 3 && day.toLowerCase().startsWith(name))
+      if (index >= 0) return index
+    }
+    throw new InvalidDateFilterError(`Invalid day of week "${entry}". Use 0-6 (Monday = 0) or a day name`)
+  })
+}
@@ -0,0 +1,201 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { z } from 'zod'
+import { DelayCodeGroup, FlightDelay, Prisma } from '@prisma/client'
+import { db } from '@/lib/db'
+import type { ProcessedFlightData } from '@/lib/flight-data-processor'
+
+export const DELAY_CODE_REFERENCE_FILE = './prisma/reference/delay-codes.json'
+
+export const DELAY_CODE_GROUP_NAMES: Record<DelayCodeGroup, string> = {
+  AIRLINE_INTERNAL: 'Airline internal',
+  PASSENGER_BAGGAGE: 'Passenger and baggage',
+  CARGO_MAIL: 'Cargo and mail',
+  AIRCRAFT_RAMP_HANDLING: 'Aircraft and ramp handling',
+  TECHNICAL: 'Technical and aircraft equipment',
+  DAMAGE_EDP: 'Damage to aircraft and EDP failure',
+  FLIGHT_OPERATIONS_CREW: 'Flight operations and crewing',
+  WEATHER: 'Weather',
+  ATC_AIRPORT_GOVERNMENT: 'ATFM, airport and governmental authorities',
+  REACTIONARY: 'Reactionary',
+  MISCELLANEOUS: 'Miscellaneous'
+}
+
+export const delayCodeSchema = z.object({
+  code: z.string().trim().regex(/^\d{2}$/, 'Delay code must be 2 digits'),
+  alphaCode: z.string().trim().toUpperCase().regex(/^[A-Z]{2}$/, 'Alpha code must be 2 letters').nullable(),
+  group: z.enum(DelayCodeGroup),
+  description: z.string().trim().min(1)
+})
+
+export type DelayCodeReference = z.infer<typeof delayCodeSchema>
+
+// A delay reason as sent by clients: numeric ("93") or alpha ("RA") code, optionally with a sub-code ("93A")
+export const flightDelaySchema = z.object({
+  code: z.string().trim().toUpperCase().regex(/^(\d{2}|[A-Z]{2})[A-Z]?$/, 'Delay code must look like "93", "RA" or "93A"'),
+  subCode: z.string().trim().toUpperCase().regex(/^[A-Z]$/, 'Sub-code must be a single letter').nullable().optional(),
+  minutes: z.number().int().positive()
+})
+
+export type FlightDelayInput = z.infer<typeof flightDelaySchema>
+
+export interface DelayBreakdownEntry {
+  key: string
+  name: string
+  minutes: number
+  flights: number
+  // Share (%) of all coded and uncoded delay minutes
+  share: number
+}
+
+export interface DelayBreakdown {
+  totalDelayMinutes: number
+  codedMinutes: number
+  uncodedMinutes: number
+  groups: DelayBreakdownEntry[]
+  codes: DelayBreakdownEntry[]
+}
+
+export class UnknownDelayCodeError extends Error {
+  constructor(code: string) {
+    super(`Unknown IATA delay code "${code}"`)
+    this.name = 'UnknownDelayCodeError'
+  }
+}
+
+let delayCodes: DelayCodeReference[] | null = null
+
+/**
+ * Read the local delay code catalogue
+ */
+export async function loadDelayCodes(filePath: string = DELAY_CODE_REFERENCE_FILE): Promise<DelayCodeReference[]> {
+  if (!delayCodes) {
+    const content = await readFile(path.resolve(process.cwd(), filePath), 'utf-8')
+    delayCodes = z.array(delayCodeSchema).parse(JSON.parse(content))
+  }
+  return delayCodes
+}
+
+/**
+ * Upsert every delay code from the catalogue
+ */
+export async function seedDelayCodes(filePath: string = DELAY_CODE_REFERENCE_FILE): Promise<number> {
+  const codes = await loadDelayCodes(filePath)
+
+  for (const code of codes) {
+    await db.delayCode.upsert({
+      where: { code: code.code },
+      update: code,
+      create: code
+    })
+  }
+
+  return codes.length
+}
+
+/**
+ * Find a delay code by its numeric or alpha form. A trailing letter after a
+ * numeric code ("93A") is taken as the AHM 731 sub-code.
+ */
+export async function resolveDelayCode(value: string): Promise<{ code: DelayCodeReference; subCode?: string } | null> {
+  const codes = await loadDelayCodes()
+  const normalized = value.trim().toUpperCase()
+  const numeric = normalized.match(/^(\d{2})([A-Z])?$/)
+
+  const code = numeric
+    ? codes.find(c => c.code === numeric[1])
+    : codes.find(c => c.alphaCode === normalized.substring(0, 2))
+  if (!code) return null
+
+  const subCode = numeric ? numeric[2] : normalized.substring(2) || undefined
+  return { code, subCode }
+}
+
+/**
+ * Replace a flight's coded delay reasons. Throws UnknownDelayCodeError before
+ * writing anything when a code is not in the catalogue.
+ */
+export async function setFlightDelays(flightId: string, delays: FlightDelayInput[]): Promise<FlightDelay[]> {
+  const resolved: Prisma.FlightDelayCreateManyInput[] = []
+  for (const delay of delays) {
+    const match = await resolveDelayCode(delay.code)
+    if (!match) throw new UnknownDelayCodeError(delay.code)
+    resolved.push({ flightId, code: match.code.code, subCode: delay.subCode || match.subCode || null, minutes: delay.minutes })
+  }
+
+  await db.$transaction([
+    db.flightDelay.deleteMany({ where: { flightId } }),
+    db.flightDelay.createMany({ data: resolved })
+  ])
+  return db.flightDelay.findMany({ where: { flightId }, orderBy: { minutes: 'desc' } })
+}
+
+/**
+ * Break the flights' delay minutes down by IATA code group and code. Minutes
+ * not covered by a coded reason are reported as uncoded.
+ */
+export async function getDelayBreakdown(flights: ProcessedFlightData[]): Promise<DelayBreakdown> {
+  const delayed = flights.filter(f => (f.delayMinutes || 0) > 0)
+  const codes = await loadDelayCodes()
+  const coded = delayed.length > 0 ? await loadFlightDelaysOrEmpty(delayed.map(f => f.id)) : []
+
+  const groups = new Map<string, { minutes: number; flights: Set<string> }>()
+  const byCode = new Map<string, { minutes: number; flights: Set<string> }>()
+  const add = (entries: Map<string, { minutes: number; flights: Set<string> }>, key: string, flightId: string, minutes: number) => {
+    const entry = entries.get(key) || { minutes: 0, flights: new Set<string>() }
+    entry.minutes += minutes
+    entry.flights.add(flightId)
+    entries.set(key, entry)
+  }
+
+  for (const delay of coded) {
+    const group = codes.find(c => c.code === delay.code)?.group || DelayCodeGroup.MISCELLANEOUS
+    add(groups, group, delay.flightId, delay.minutes)
+    add(byCode, delay.code, delay.flightId, delay.minutes)
+  }
+
+  // Whatever part of a flight's delay has no code stays visible as uncoded
+  let uncodedMinutes = 0
+  for (const flight of delayed) {
+    const codedForFlight = coded.filter(d => d.flightId === flight.id).reduce((sum, d) => sum + d.minutes, 0)
+    const remaining = (flight.delayMinutes || 0) - codedForFlight
+    if (remaining > 0) {
+      uncodedMinutes += remaining
+      add(groups, 'UNCODED', flight.id, remaining)
+    }
+  }
+
+  const codedMinutes = coded.reduce((sum, d) => sum + d.minutes, 0)
+  const totalDelayMinutes = codedMinutes + uncodedMinutes
+  const toEntries = (entries: Map<string, { minutes: number; flights: Set<string> }>, name: (key: string) => string) =>
+    Array.from(entries.entries())
+      .map(([key, entry]) => ({
+        key,
+        name: name(key),
+        minutes: entry.minutes,
+        flights: entry.flights.size,
+        share: totalDelayMinutes > 0 ? Math.round((entry.minutes / totalDelayMinutes) * 1000) / 10 : 0
+      }))
+      .sort((a, b) => b.minutes - a.minutes)
+
+  return {
+    totalDelayMinutes,
+    codedMinutes,
+    uncodedMinutes,
+    groups: toEntries(groups, key => DELAY_CODE_GROUP_NAMES[key as DelayCodeGroup] || 'Uncoded'),
+    codes: toEntries(byCode, key => {
+      const code = codes.find(c => c.code === key)
+      return code ? `${code.code}${code.alphaCode ? `/${code.alphaCode}` : ''} ${code.description}` : key
+    })
+  }
+}
+
+// Flights read from files have no stored delay reasons; treat an unreadable table the same way
+async function loadFlightDelaysOrEmpty(flightIds: string[]): Promise<FlightDelay[]> {
+  try {
+    return await db.flightDelay.findMany({ where: { flightId: { in: flightIds } } })
+  } catch (error) {
+    console.error('Error loading flight delay reasons:', error)
+    return []
+  }
+}
@@ -0,0 +1,182 @@
+import { Analytics } from '@prisma/client'
+import { db } from '@/lib/db'
+import type { ProcessedFlightData } from '@/lib/flight-data-processor'
+import { AnalyticsPayload, createAnalytics } from '@/lib/analytics-payloads'
+import { attributeDelay, departureDelay, linkRotations } from '@/lib/rotations'
+
+// IATA 93/RA: aircraft rotation, late arrival of aircraft from another flight
+export const REACTIONARY_DELAY_CODE = '93'
+
+export const DELAY_PROPAGATION_CAUSES = {
+  PRIMARY: 'Primary delay',
+  REACTIONARY: 'Reactionary delay (late inbound aircraft)'
+} as const
+
+export interface FlightDelayPropagation {
+  flightId: string
+  flightNumber: string
+  registration: string | null
+  origin: string
+  destination: string
+  delayMinutes: number
+  primaryMinutes: number
+  reactionaryMinutes: number
+  inboundFlightId: string | null
+  // Later legs of the same aircraft that inherited part of this delay, in order
+  affectedFlightIds: string[]
+  // Reactionary minutes those legs picked up
+  propagatedMinutes: number
+  // Share of this delay the next leg inherited, 0-1
+  propagationRisk: number
+}
+
+export interface DelayPropagationReport {
+  airportCode: string
+  delayedFlights: number
+  // Flights whose tail is known, so that their rotation could be rebuilt
+  trackedFlights: number
+  primaryDelayMinutes: number
+  reactionaryDelayMinutes: number
+  affectedFlights: number
+  propagationRisk: number
+  flights: FlightDelayPropagation[]
+}
+
+/**
+ * Rebuild each aircraft's rotation and split every delayed flight's departure
+ * delay into primary minutes, new at that stage, and reactionary minutes
+ * inherited from the previous leg. Each delay is then followed down the
+ * rotation for as long as later legs keep inheriting it.
+ */
+export async function attributeDelays(airportCode: string, flights: ProcessedFlightData[]): Promise<DelayPropagationReport> {
+  const linked = await linkRotations(flights)
+  const attributions = new Map(linked.map(leg => [leg.flight.id, attributeDelay(leg)]))
+  const nextLeg = new Map(linked.filter(leg => leg.inbound).map(leg => [leg.inbound!.id, leg.flight.id]))
+  const registrations = new Map(linked.map(leg => [leg.flight.id, leg.registration]))
+
+  const results = flights
+    .map(flight => {
+      // Without a tail there is no inbound leg to blame, so the whole delay is primary
+      const delayMinutes = departureDelay(flight)
+      const attribution = attributions.get(flight.id) ||
+        { delayMinutes, primaryMinutes: delayMinutes, reactionaryMinutes: 0, inboundFlightId: null }
+      if (attribution.delayMinutes <= 0) return null
+
+      const affectedFlightIds: string[] = []
+      let propagatedMinutes = 0
+      for (let next = nextLeg.get(flight.id); next; next = nextLeg.get(next)) {
+        const inherited = attributions.get(next)?.reactionaryMinutes || 0
+        if (inherited <= 0) break
+        affectedFlightIds.push(next)
+        propagatedMinutes += inherited
+      }
+
+      const following = nextLeg.get(flight.id)
+      const passedOn = following ? attributions.get(following)?.reactionaryMinutes || 0 : 0
+
+      return {
+        flightId: flight.id,
+        flightNumber: flight.flightNumber,
+        registration: registrations.get(flight.id) ?? null,
+        origin: flight.origin,
+        destination: flight.destination,
+        delayMinutes: attribution.delayMinutes,
+        primaryMinutes: attribution.primaryMinutes,
+        reactionaryMinutes: attribution.reactionaryMinutes,
+        inboundFlightId: attribution.inboundFlightId,
+        affectedFlightIds,
+        propagatedMinutes,
+        propagationRisk: Math.round(Math.min(1, passedOn / attribution.delayMinutes) * 100) / 100,
+        hasNextLeg: Boolean(following)
+      }
+    })
+    .filter(result => result !== null)
+
+  // Only flights with a later leg on record could have passed their delay on
+  const withNextLeg = results.filter(result => result.hasNextLeg)
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+
+  return {
+    airportCode,
+    delayedFlights: results.length,
+    trackedFlights: registrations.size,
+    primaryDelayMinutes: sum(results.map(r => r.primaryMinutes)),
+    reactionaryDelayMinutes: sum(results.map(r => r.reactionaryMinutes)),
+    affectedFlights: new Set(results.flatMap(r => r.affectedFlightIds)).size,
+    propagationRisk: withNextLeg.length > 0
+      ? Math.round((sum(withNextLeg.map(r => r.propagationRisk)) / withNextLeg.length) * 100) / 100
+      : 0,
+    flights: results
+      .map(({ hasNextLeg, ...result }) => result)
+      .sort((a, b) => b.propagatedMinutes - a.propagatedMinutes || b.delayMinutes - a.delayMinutes)
+  }
+}
+
+/**
+ * Store a propagation report as one DelayAnalysis row per delayed flight, with
+ * the downstream flights it hit, and as a DELAY_PROPAGATION analytics record.
+ * Rows from an earlier run for the same flights are replaced. Flights that only
+ * exist in file data are left out of the rows but counted in the analytics.
+ */
+export async function recordDelayPropagation(report: DelayPropagationReport): Promise<{ analyses: number; analytics: Analytics }> {
+  const stored = await db.flight.findMany({
+    where: { id: { in: report.flights.flatMap(f => [f.flightId, ...f.affectedFlightIds]) } },
+    select: { id: true }
+  })
+  const storedIds = new Set(stored.map(flight => flight.id))
+  const flights = report.flights.filter(f => storedIds.has(f.flightId))
+  // Only classify under 93 once the delay code catalogue has been seeded
+  const reactionaryCode = await db.delayCode.findUnique({ where: { code: REACTIONARY_DELAY_CODE } })
+
+  await db.$transaction([
+    db.delayAnalysis.deleteMany({
+      where: {
+        flightId: { in: flights.map(f => f.flightId) },
+        cause: { in: Object.values(DELAY_PROPAGATION_CAUSES) }
+      }
+    }),
+    ...flights.map(flight => {
+      const reactionary = flight.reactionaryMinutes > flight.primaryMinutes
+      return db.delayAnalysis.create({
+        data: {
+          flightId: flight.flightId,
+          cause: reactionary ? DELAY_PROPAGATION_CAUSES.REACTIONARY : DELAY_PROPAGATION_CAUSES.PRIMARY,
+          delayCode: reactionary && reactionaryCode ? REACTIONARY_DELAY_CODE : null,
+          severity: flight.delayMinutes >= 60 ? 'high' : flight.delayMinutes >= 15 ? 'medium' : 'low',
+          propagationRisk: flight.propagationRisk,
+          mitigation: describeMitigation(flight),
+          affectedFlights: {
+            create: flight.affectedFlightIds.filter(id => storedIds.has(id)).map(flightId => ({ flightId }))
+          }
+        }
+      })
+    })
+  ])
+
+  const analytics = await createAnalytics(report.airportCode, 'DELAY_PROPAGATION', toAnalyticsPayload(report), 0.8)
+  return { analyses: flights.length, analytics }
+}
+
+/**
+ * Summarise a propagation report as a DELAY_PROPAGATION analytics payload
+ */
+export function toAnalyticsPayload(report: DelayPropagationReport): AnalyticsPayload<'DELAY_PROPAGATION'> {
+  return {
+    primaryDelayMinutes: report.primaryDelayMinutes,
+    reactionaryDelayMinutes: report.reactionaryDelayMinutes,
+    affectedFlights: report.affectedFlights,
+    propagationRisk: report.propagationRisk,
+    delayedFlights: report.delayedFlights,
+    trackedFlights: report.trackedFlights
+  }
+}
+
+function describeMitigation(flight: FlightDelayPropagation): string {
+  if (flight.reactionaryMinutes > flight.primaryMinutes) {
+    return `Recover the late inbound aircraft with a shorter turn at ${flight.origin} or an aircraft swap`
+  }
+  if (flight.affectedFlightIds.length > 0) {
+    return `Absorb the delay at ${flight.origin} before it reaches ${flight.affectedFlightIds.length} later flights of the same aircraft`
+  }
+  return `Address the cause at ${flight.origin}; no later leg inherited the delay`
+}
@@ -0,0 +1,257 @@
+import { FlightStatus, ProcessedFlightData, getLocalFlightTimes } from '@/lib/flight-data-processor'
+import { parseAircraftField } from '@/lib/aircraft'
+import { DEFAULT_TIME_ZONE, getLocalParts, minutesBetween, parseCalendarDate, zonedTimeToUtc } from '@/lib/timezone'
+
+// Result of parsing a flight_data_cleaned.csv style file
+export interface CSVIngestionResult {
+  flights: ProcessedFlightData[]
+  rejected: RejectedRow[]
+  totalRows: number
+  // Pandas export artefacts such as "Unnamed: 10" that carry no header
+  unnamedColumns: string[]
+}
+
+export interface RejectedRow {
+  line: number
+  reason: string
+  raw: string
+}
+
+export interface CSVParseOptions {
+  airportCode?: string
+  // IANA time zone per airport code; STD/ATD are read in the origin's zone, STA/ATA in the destination's
+  timeZones?: Record<string, string>
+  defaultTimeZone?: string
+}
+
+const REQUIRED_COLUMNS = ['Date', 'Origin', 'Destination', 'STD']
+
+/**
+ * Parse the cleaned flight CSV into processed flight records.
+ *
+ * Mirrors `load_flight_data` in analysis.py: flight numbers are forward-filled,
+ * rows without a date or scheduled departure are dropped, times are converted
+ * to minutes since midnight and departure/arrival delays are derived from them.
+ * Missing flight durations are imputed with the mean of the parsed ones.
+ *
+ * Unlike analysis.py, times become UTC instants in each airport's time zone,
+ * and arrivals or actuals that fall after midnight roll over to the next day.
+ */
+export function parseFlightCSV(content: string, options: CSVParseOptions = {}): CSVIngestionResult {
+  const lines = content.split(/\r?\n/)
+  const header = splitCSVLine(lines[0] || '').map(h => h.trim())
+  const missingColumns = REQUIRED_COLUMNS.filter(col => !header.includes(col))
+  if (missingColumns.length > 0) {
+    throw new Error(`Flight CSV is missing required columns: ${missingColumns.join(', ')}`)
+  }
+
+  const column = (name: string) => header.indexOf(name)
+  const unnamedColumns = header.filter(h => !h || /^Unnamed: \d+$/.test(h))
+  const defaultTimeZone = (options.airportCode && options.timeZones?.[options.airportCode]) || options.defaultTimeZone || DEFAULT_TIME_ZONE
+  const zoneFor = (code: string) => options.timeZones?.[code] || defaultTimeZone
+  const flights: ProcessedFlightData[] = []
+  const rejected: RejectedRow[] = []
+  const missingDuration: ProcessedFlightData[] = []
+  let lastFlightNumber = ''
+  let totalRows = 0
+
+  for (let i = 1; i < lines.length; i++) {
+    const raw = lines[i]
+    if (!raw.trim()) continue
+    totalRows++
+
+    const fields = splitCSVLine(raw)
+    const get = (name: string) => {
+      const index = column(name)
+      return index >= 0 ? (fields[index] || '').trim() : ''
+    }
+    const reject = (reason: string) => rejected.push({ line: i + 1, reason, raw })
+
+    // Forward-fill flight numbers like pandas' ffill()
+    const flightNumber = get('Flight Number') || lastFlightNumber
+    lastFlightNumber = flightNumber
+
+    const dateStr = get('Date')
+    const stdStr = get('STD')
+    if (!dateStr) {
+      reject('Missing date')
+      continue
+    }
+    if (!stdStr) {
+      reject('Missing scheduled departure (STD)')
+      continue
+    }
+
+    const date = parseCalendarDate(dateStr)
+    if (!date) {
+      reject(`Unparseable date "${dateStr}"`)
+      continue
+    }
+
+    const stdMins = parseTimeToMinutes(stdStr)
+    if (stdMins === null) {
+      reject(`Unparseable scheduled departure "${stdStr}"`)
+      continue
+    }
+
+    const origin = extractAirportCode(get('Origin'))
+    const destination = extractAirportCode(get('Destination'))
+    if (!origin || !destination) {
+      reject('Missing origin or destination airport')
+      continue
+    }
+
+    const atdMins = parseTimeToMinutes(get('ATD'))
+    const staMins = parseTimeToMinutes(get('STA'))
+    const ataMins = parseTimeToMinutes(get('ATA'))
+    const duration = parseDurationToMinutes(get('FlightTime'))
+
+    // STD is on the row's date; everything else is placed on whichever day puts it nearest its anchor
+    const at = (minutes: number, timeZone: string, dayShift: number = 0) =>
+      zonedTimeToUtc(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate() + dayShift, minutes, timeZone)
+    const nearest = (minutes: number, timeZone: string, anchor: Date, notBefore?: Date) =>
+      [-1, 0, 1, 2]
+        .map(shift => at(minutes, timeZone, shift))
+        .filter(candidate => !notBefore || candidate > notBefore)
+        .reduce((best, candidate) =>
+          Math.abs(candidate.getTime() - anchor.getTime()) < Math.abs(best.getTime() - anchor.getTime()) ? candidate : best)
+
+    const scheduledDeparture = at(stdMins, zoneFor(origin))
+    const expectedArrival = new Date(scheduledDeparture.getTime() + (duration ?? 0) * 60000)
+    const scheduledArrival = staMins !== null
+      ? nearest(staMins, zoneFor(destination), expectedArrival, scheduledDeparture)
+      : expectedArrival
+    const actualDeparture = atdMins !== null ? nearest(atdMins, zoneFor(origin), scheduledDeparture) : undefined
+    const actualArrival = ataMins !== null
+      ? nearest(ataMins, zoneFor(destination), actualDeparture ? new Date(actualDeparture.getTime() + (duration ?? 0) * 60000) : scheduledArrival, actualDeparture)
+      : undefined
+
+    const departureDelay = actualDeparture ? minutesBetween(scheduledDeparture, actualDeparture) : undefined
+    const arrivalDelay = actualArrival && staMins !== null ? minutesBetween(scheduledArrival, actualArrival) : undefined
+
+    const aircraft = parseAircraftField(get('Aircraft'))
+    const localDeparture = getLocalParts(scheduledDeparture, defaultTimeZone)
+
+    const flight: ProcessedFlightData = {
+      id: get('S.No') || String(i),
+      flightNumber,
+      origin,
+      destination,
+      scheduledDeparture,
+      scheduledArrival,
+      actualDeparture,
+      actualArrival,
+      status: ataMins !== null ? FlightStatus.ARRIVED : atdMins !== null ? FlightStatus.DEPARTED : FlightStatus.SCHEDULED,
+      delayMinutes: departureDelay,
+      arrivalDelayMinutes: arrivalDelay,
+      aircraft: get('Aircraft') || undefined,
+      aircraftType: aircraft?.icaoType,
+      registration: aircraft?.registration,
+      airportCode: options.airportCode || origin,
+      scheduledHour: localDeparture.hour,
+      dayOfWeek: localDeparture.dayOfWeek,
+      flightDuration: duration ?? 0
+    }
+    flight.localTimes = getLocalFlightTimes(flight, defaultTimeZone)
+
+    if (duration === null) missingDuration.push(flight)
+    flights.push(flight)
+  }
+
+  // Impute missing flight durations with the mean
+  if (missingDuration.length > 0) {
+    const known = flights.filter(f => !missingDuration.includes(f))
+    const mean = known.length > 0 ? known.reduce((sum, f) => sum + f.flightDuration, 0) / known.length : 0
+    missingDuration.forEach(f => {
+      f.flightDuration = Math.round(mean * 100) / 100
+      f.imputedFields = [...(f.imputedFields || []), 'flightDuration']
+    })
+  }
+
+  return { flights, rejected, totalRows, unnamedColumns }
+}
+
+/**
+ * Convert a time string to minutes since midnight.
+ * Accepts "06:20:00", "06:20", "8:14 AM" and "Landed 8:14 AM".
+ */
+export function parseTimeToMinutes(value: string | undefined | null): number | null {
+  if (!value) return null
+  let timeStr = value.trim()
+
+  // Remove prefixes such as 'Landed'
+  if (timeStr.toLowerCase().startsWith('landed')) {
+    timeStr = timeStr.split(' ').slice(1).join(' ').trim()
+  }
+
+  const twelveHour = timeStr.match(/^(\d{1,2}):(\d{2})\s*([AaPp][Mm])$/)
+  if (twelveHour) {
+    const hour = parseInt(twelveHour[1])
+    const minute = parseInt(twelveHour[2])
+    if (hour < 1 || hour > 12 || minute > 59) return null
+    const isPM = twelveHour[3].toUpperCase() === 'PM'
+    return ((hour % 12) + (isPM ? 12 : 0)) * 60 + minute
+  }
+
+  const twentyFourHour = timeStr.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/)
+  if (twentyFourHour) {
+    const hour = parseInt(twentyFourHour[1])
+    const minute = parseInt(twentyFourHour[2])
+    if (hour > 23 || minute > 59) return null
+    return hour * 60 + minute
+  }
+
+  return null
+}
+
+/**
+ * Convert an "HH:MM:SS" duration to (fractional) minutes
+ */
+export function parseDurationToMinutes(value: string | undefined | null): number | null {
+  if (!value) return null
+  const match = value.trim().match(/^(\d{1,2}):(\d{2}):(\d{2})$/)
+  if (!match) return null
+  return parseInt(match[1]) * 60 + parseInt(match[2]) + parseInt(match[3]) / 60
+}
+
+/**
+ * Extract the IATA code from strings like "Mumbai (BOM)"
+ */
+export function extractAirportCode(value: string): string {
+  const match = value.match(/\(([A-Z0-9]{3,4})\)\s*$/)
+  if (match) return match[1]
+  return /^[A-Z]{3}$/.test(value.trim()) ? value.trim() : ''
+}
+
+/**
+ * Split a CSV line on commas, honouring double-quoted fields
+ */
+export function splitCSVLine(line: string): string[] {
+  const fields: string[] = []
+  let current = ''
+  let inQuotes = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      fields.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+
+  fields.push(current)
+  return fields
+}
@@ -1,11 +1,29 @@
 import { db } from '@/lib/db'
 import { Flight, Airport, Analytics } from '@prisma/client'
-import { load_flight_data, build_delay_model, get_peak_hours, get_airport_stats, summarise_delays } from '../../analysis.py'
+import { readFile, readdir } from 'fs/promises'
+import path from 'path'
+import { parseFlightCSV, CSVIngestionResult } from '@/lib/flight-csv-parser'
+import { AirlineRegistry, seedAirlines } from '@/lib/airlines'
+import { parseAircraftField, registerAircraft } from '@/lib/aircraft'
+import { DEFAULT_TIME_ZONE, formatLocalDateTime, getLocalParts, isValidTimeZone } from '@/lib/timezone'
+import { FlightDateFilter, matchesDateFilter, resolveDateFilter, scheduledDepartureWhere } from '@/lib/date-filter'
+import { calculateCompletenessScore } from '@/lib/data-quality'
+import { allocateGates, seedAirportResources } from '@/lib/airport-resources'
+import { measureCapacity, seedCapacityDeclarations } from '@/lib/capacity'
+import { seedDelayCodes } from '@/lib/delay-codes'
+import { createAnalytics } from '@/lib/analytics-payloads'
+import { analyzeRotations, RotationAnalysis } from '@/lib/rotations'
+import { attributeDelays, DelayPropagationReport, toAnalyticsPayload } from '@/lib/delay-propagation'
+import { measureOnTimePerformance, OnTimePerformance } from '@/lib/otp'
+import { analyzeBlockTimes, BlockTimeAnalysis } from '@/lib/block-times'
+import { analyzeMovementWindows, MovementWindowAnalysis } from '@/lib/movement-windows'
+import { buildDelayHeatmap, DelayHeatmap } from '@/lib/heatmap'
 
 // TypeScript interfaces for our flight data
 export interface ProcessedFlightData {
   id: string
   flightNumber: string
+  airlineCode?: string
   origin: string
   destination: string
   scheduledDeparture: Date
@@ -14,11 +32,30 @@ export interface ProcessedFlightData {
   actualArrival?: Date
   status: FlightStatus
   delayMinutes?: number
+  arrivalDelayMinutes?: number
   aircraft?: string
+  aircraftType?: string
+  registration?: string
+  gate?: string
+  terminal?: string
+  gateId?: string
   airportCode: string
+  // Local hour and day (Monday = 0) of the scheduled departure at the airport
   scheduledHour: number
   dayOfWeek: number
   flightDuration: number
+  localTimes?: LocalFlightTimes
+  // Fields filled in by the loader rather than read from the source, e.g. imputed durations
+  imputedFields?: string[]
+}
+
+// Flight times as local ISO 8601 strings in the airport's time zone
+export interface LocalFlightTimes {
+  timeZone: string
+  scheduledDeparture: string
+  scheduledArrival: string
+  actualDeparture?: string
+  actualArrival?: string
 }
 
 export interface AirportStatistics {
@@ -28,13 +65,36 @@ export interface AirportStatistics {
   peakHour: number
   peakFlights: number
   delayDistribution: Record<string, number>
-  capacityUtilization: number
+  // Average hourly use (%) of the declared capacity, null when none is declared
+  capacityUtilization: number | null
+  peakHourUtilization: number | null
+  // Share (0-100) of expected values present in the underlying records
+  completenessScore: number
+}
+
+export interface IngestionReport extends CSVIngestionResult {
+  source: string
+  loadedAt: Date
+}
+
+// Where the flight data for an airport comes from
+export type FlightDataSource =
+  | { type: 'csv'; path: string }
+  | { type: 'directory'; path: string }
+  | { type: 'database' }
+
+export class AirportDataNotConfiguredError extends Error {
+  constructor(public airportCode: string) {
+    super(`No flight data source configured for airport ${airportCode}`)
+    this.name = 'AirportDataNotConfiguredError'
+  }
 }
 
 export interface PeakHourAnalysis {
   hour: number
   flightCount: number
-  utilization: number
+  // Average use (%) of the declared hourly capacity in this hour, null when none is declared
+  utilization: number | null
 }
 
 export enum FlightStatus {
@@ -45,10 +105,32 @@ export enum FlightStatus {
   CANCELLED = 'CANCELLED'
 }
 
+/**
+ * Express a flight's times as local ISO strings in the given time zone
+ */
+export function getLocalFlightTimes(flight: Pick<ProcessedFlightData, 'scheduledDeparture' | 'scheduledArrival' | 'actualDeparture' | 'actualArrival'>, timeZone: string): LocalFlightTimes {
+  return {
+    timeZone,
+    scheduledDeparture: formatLocalDateTime(flight.scheduledDeparture, timeZone),
+    scheduledArrival: formatLocalDateTime(flight.scheduledArrival, timeZone),
+    actualDeparture: flight.actualDeparture ? formatLocalDateTime(flight.actualDeparture, timeZone) : undefined,
+    actualArrival: flight.actualArrival ? formatLocalDateTime(flight.actualArrival, timeZone) : undefined
+  }
+}
+
 export class FlightDataProcessor {
   private static instance: FlightDataProcessor
   private dataCache: Map<string, ProcessedFlightData[]> = new Map()
   private lastUpdated: Map<string, Date> = new Map()
+  private ingestionReports: Map<string, IngestionReport> = new Map()
+  private timeZones: Record<string, string> | null = null
+  private dataSources: Map<string, FlightDataSource> = new Map([
+    ['BOM', { type: 'csv', path: './flight_data_cleaned.csv' }]
+  ])
+
+  constructor() {
+    this.loadDataSourcesFromEnv()
+  }
 
   static getInstance(): FlightDataProcessor {
     if (!FlightDataProcessor.instance) {
@@ -57,20 +139,137 @@ export class FlightDataProcessor {
     return FlightDataProcessor.instance
   }
 
+  /**
+   * Register (or replace) the data source for an airport
+   */
+  registerDataSource(airportCode: string, source: FlightDataSource): void {
+    const code = airportCode.toUpperCase()
+    this.dataSources.set(code, source)
+    this.invalidateCache(code)
+  }
+
+  /**
+   * Read extra data sources from FLIGHT_DATA_SOURCES,
+   * e.g. "DEL=csv:./data/del.csv;BLR=directory:./data/blr;HYD=database"
+   */
+  private loadDataSourcesFromEnv(): void {
+    const config = process.env.FLIGHT_DATA_SOURCES
+    if (!config) return
+
+    for (const entry of config.split(';').map(e => e.trim()).filter(Boolean)) {
+      const [code, spec = ''] = entry.split('=')
+      const [type, ...rest] = spec.split(':')
+      const sourcePath = rest.join(':')
+
+      if (type === 'database') {
+        this.dataSources.set(code.trim().toUpperCase(), { type: 'database' })
+      } else if ((type === 'csv' || type === 'directory') && sourcePath) {
+        this.dataSources.set(code.trim().toUpperCase(), { type, path: sourcePath })
+      } else {
+        console.warn(`Ignoring invalid FLIGHT_DATA_SOURCES entry: ${entry}`)
+      }
+    }
+  }
+
+  /**
+   * Get the data source configured for an airport
+   */
+  getDataSource(airportCode: string): FlightDataSource | undefined {
+    return this.dataSources.get(airportCode.toUpperCase())
+  }
+
+  /**
+   * Get the codes of all airports with a configured data source
+   */
+  getConfiguredAirports(): string[] {
+    return Array.from(this.dataSources.keys())
+  }
+
+  /**
+   * Get when the cached flight data for an airport was last loaded
+   */
+  getLastUpdated(airportCode: string): Date | undefined {
+    return this.lastUpdated.get(airportCode.toUpperCase())
+  }
+
+  /**
+   * Drop cached flight data so the next request reloads it from its source
+   */
+  invalidateCache(airportCode?: string): void {
+    if (airportCode) {
+      this.dataCache.delete(airportCode)
+      this.lastUpdated.delete(airportCode)
+    } else {
+      this.dataCache.clear()
+      this.lastUpdated.clear()
+      this.timeZones = null
+    }
+  }
+
+  /**
+   * Get the IANA time zone of every airport in the Airport table
+   */
+  async getAirportTimeZones(): Promise<Record<string, string>> {
+    if (!this.timeZones) {
+      try {
+        const airports = await db.airport.findMany({ select: { code: true, timezone: true } })
+        this.timeZones = Object.fromEntries(
+          airports.filter(a => isValidTimeZone(a.timezone)).map(a => [a.code, a.timezone])
+        )
+      } catch (error) {
+        // Don't retry on every call; invalidateCache() clears this
+        console.error('Error loading airport time zones:', error)
+        this.timeZones = {}
+      }
+    }
+    return this.timeZones
+  }
+
+  /**
+   * Get the IANA time zone of an airport, falling back to DEFAULT_TIME_ZONE
+   */
+  async getAirportTimeZone(airportCode: string): Promise<string> {
+    const timeZones = await this.getAirportTimeZones()
+    return timeZones[airportCode.toUpperCase()] || DEFAULT_TIME_ZONE
+  }
+
+  /**
+   * Load flight data for an airport from its configured source and cache it
+   */
+  async loadFlightData(airportCode: string): Promise<ProcessedFlightData[]> {
+    const code = airportCode.toUpperCase()
+    const source = this.dataSources.get(code)
+    if (!source) {
+      throw new AirportDataNotConfiguredError(code)
+    }
+
+    switch (source.type) {
+      case 'csv':
+        return this.loadFlightDataFromCSV(source.path, code)
+      case 'directory':
+        return this.loadFlightDataFromDirectory(source.path, code)
+      case 'database':
+        return this.loadFlightDataFromDatabase(code)
+    }
+  }
+
   /**
    * Load and process flight data from CSV file
    */
-  async loadFlightDataFromCSV(filePath: string = './flight_data_cleaned.csv'): Promise<ProcessedFlightData[]> {
+  async loadFlightDataFromCSV(filePath: string = './flight_data_cleaned.csv', airportCode: string = 'BOM'): Promise<ProcessedFlightData[]> {
     try {
-      // For now, we'll simulate loading the CSV data
-      // In a real implementation, this would use the Python analysis.py functions
-      const flightData = await this.simulateCSVLoading(filePath)
-      
-      // Cache the data
-      this.dataCache.set('BOM', flightData)
-      this.lastUpdated.set('BOM', new Date())
-      
-      return flightData
+      const content = await readFile(path.resolve(process.cwd(), filePath), 'utf-8')
+      const timeZones = await this.getAirportTimeZones()
+      const result = parseFlightCSV(content, { airportCode, timeZones })
+
+      if (result.rejected.length > 0) {
+        console.warn(`Rejected ${result.rejected.length} of ${result.totalRows} rows from ${filePath}`)
+      }
+
+      this.cacheFlightData(airportCode, result.flights)
+      this.ingestionReports.set(airportCode, { ...result, source: filePath, loadedAt: new Date() })
+
+      return result.flights
     } catch (error) {
       console.error('Error loading flight data:', error)
       throw error
@@ -78,110 +277,123 @@ export class FlightDataProcessor {
   }
 
   /**
-   * Simulate CSV loading (in production, this would call the Python analysis.py)
+   * Load and merge every CSV file in a directory
    */
-  private async simulateCSVLoading(filePath: string): Promise<ProcessedFlightData[]> {
-    // Simulated flight data based on the CSV structure
-    const simulatedData: ProcessedFlightData[] = [
-      {
-        id: '1',
-        flightNumber: 'AI101',
-        origin: 'BOM',
-        destination: 'IXC',
-        scheduledDeparture: new Date('2025-07-25T06:00:00'),
-        scheduledArrival: new Date('2025-07-25T08:10:00'),
-        actualDeparture: new Date('2025-07-25T06:20:00'),
-        actualArrival: new Date('2025-07-25T08:14:00'),
-        status: FlightStatus.DEPARTED,
-        delayMinutes: 20,
-        aircraft: 'A20N (VT-EXU)',
-        airportCode: 'BOM',
-        scheduledHour: 6,
-        dayOfWeek: 4, // Friday
-        flightDuration: 114 // minutes
-      },
-      {
-        id: '2',
-        flightNumber: 'AI102',
-        origin: 'BOM',
-        destination: 'HYD',
-        scheduledDeparture: new Date('2025-07-25T06:00:00'),
-        scheduledArrival: new Date('2025-07-25T07:25:00'),
-        actualDeparture: new Date('2025-07-25T06:17:00'),
-        actualArrival: new Date('2025-07-25T07:26:00'),
-        status: FlightStatus.DEPARTED,
-        delayMinutes: 17,
-        aircraft: 'A20N (VT-TQW)',
-        airportCode: 'BOM',
-        scheduledHour: 6,
-        dayOfWeek: 4,
-        flightDuration: 69
-      },
-      {
-        id: '3',
-        flightNumber: 'AI103',
-        origin: 'BOM',
-        destination: 'DEL',
-        scheduledDeparture: new Date('2025-07-25T06:00:00'),
-        scheduledArrival: new Date('2025-07-25T07:55:00'),
-        actualDeparture: new Date('2025-07-25T06:08:00'),
-        actualArrival: new Date('2025-07-25T07:49:00'),
-        status: FlightStatus.DEPARTED,
-        delayMinutes: 8,
-        aircraft: 'A21N (VT-NCB)',
-        airportCode: 'BOM',
-        scheduledHour: 6,
-        dayOfWeek: 4,
-        flightDuration: 102
-      },
-      {
-        id: '4',
-        flightNumber: 'AI104',
-        origin: 'BOM',
-        destination: 'BLR',
-        scheduledDeparture: new Date('2025-07-25T06:05:00'),
-        scheduledArrival: new Date('2025-07-25T07:55:00'),
-        actualDeparture: new Date('2025-07-25T06:05:00'),
-        actualArrival: new Date('2025-07-25T07:22:00'),
-        status: FlightStatus.ARRIVED,
-        delayMinutes: 0,
-        aircraft: 'A21N (VT-IWU)',
-        airportCode: 'BOM',
-        scheduledHour: 6,
-        dayOfWeek: 4,
-        flightDuration: 77
-      },
-      {
-        id: '5',
-        flightNumber: 'AI105',
-        origin: 'BOM',
-        destination: 'CMB',
-        scheduledDeparture: new Date('2025-07-25T06:10:00'),
-        scheduledArrival: new Date('2025-07-25T08:45:00'),
-        actualDeparture: new Date('2025-07-25T06:54:00'),
-        actualArrival: new Date('2025-07-25T09:00:00'),
-        status: FlightStatus.DELAYED,
-        delayMinutes: 44,
-        aircraft: 'A20N (VT-IJZ)',
-        airportCode: 'BOM',
-        scheduledHour: 6,
-        dayOfWeek: 4,
-        flightDuration: 127
+  async loadFlightDataFromDirectory(dirPath: string, airportCode: string): Promise<ProcessedFlightData[]> {
+    try {
+      const resolved = path.resolve(process.cwd(), dirPath)
+      const files = (await readdir(resolved)).filter(f => f.toLowerCase().endsWith('.csv')).sort()
+
+      const timeZones = await this.getAirportTimeZones()
+      const flights: ProcessedFlightData[] = []
+      const rejected: IngestionReport['rejected'] = []
+      const unnamedColumns = new Set<string>()
+      let totalRows = 0
+
+      for (const file of files) {
+        const content = await readFile(path.join(resolved, file), 'utf-8')
+        const result = parseFlightCSV(content, { airportCode, timeZones })
+        // Prefix ids with the file name so they stay unique across files
+        flights.push(...result.flights.map(f => ({ ...f, id: `${file}:${f.id}` })))
+        rejected.push(...result.rejected.map(r => ({ ...r, reason: `${file}: ${r.reason}` })))
+        totalRows += result.totalRows
+        result.unnamedColumns.forEach(column => unnamedColumns.add(column))
+      }
+
+      if (rejected.length > 0) {
+        console.warn(`Rejected ${rejected.length} of ${totalRows} rows from ${dirPath}`)
       }
-    ]
 
-    return simulatedData
+      this.cacheFlightData(airportCode, flights)
+      this.ingestionReports.set(airportCode, {
+        flights,
+        rejected,
+        totalRows,
+        unnamedColumns: Array.from(unnamedColumns),
+        source: dirPath,
+        loadedAt: new Date()
+      })
+
+      return flights
+    } catch (error) {
+      console.error('Error loading flight data directory:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Load flight data for an airport from the Flight table
+   */
+  async loadFlightDataFromDatabase(airportCode: string): Promise<ProcessedFlightData[]> {
+    try {
+      const flights = await db.flight.findMany({
+        where: { airportCode },
+        orderBy: { scheduledDeparture: 'asc' }
+      })
+
+      const timeZone = await this.getAirportTimeZone(airportCode)
+      const flightData = flights.map(flight => this.toProcessedFlight(flight, timeZone))
+      this.cacheFlightData(airportCode, flightData)
+
+      return flightData
+    } catch (error) {
+      console.error('Error loading flight data from database:', error)
+      throw error
+    }
+  }
+
+  private cacheFlightData(airportCode: string, flightData: ProcessedFlightData[]): void {
+    this.dataCache.set(airportCode, flightData)
+    this.lastUpdated.set(airportCode, new Date())
+  }
+
+  private toProcessedFlight(flight: Flight, timeZone: string): ProcessedFlightData {
+    const departure = flight.actualDeparture || flight.scheduledDeparture
+    const arrival = flight.actualArrival || flight.scheduledArrival
+    const localDeparture = getLocalParts(flight.scheduledDeparture, timeZone)
+    const processed = {
+      id: flight.id,
+      flightNumber: flight.flightNumber,
+      airlineCode: flight.airlineCode ?? undefined,
+      origin: flight.origin,
+      destination: flight.destination,
+      scheduledDeparture: flight.scheduledDeparture,
+      scheduledArrival: flight.scheduledArrival,
+      actualDeparture: flight.actualDeparture ?? undefined,
+      actualArrival: flight.actualArrival ?? undefined,
+      status: flight.status as FlightStatus,
+      delayMinutes: flight.delayMinutes ?? undefined,
+      aircraft: flight.aircraft ?? undefined,
+      aircraftType: parseAircraftField(flight.aircraft)?.icaoType,
+      registration: flight.registration ?? parseAircraftField(flight.aircraft)?.registration,
+      gate: flight.gate ?? undefined,
+      terminal: flight.terminal ?? undefined,
+      gateId: flight.gateId ?? undefined,
+      airportCode: flight.airportCode,
+      scheduledHour: localDeparture.hour,
+      dayOfWeek: localDeparture.dayOfWeek,
+      flightDuration: Math.round((arrival.getTime() - departure.getTime()) / 60000)
+    }
+
+    return { ...processed, localTimes: getLocalFlightTimes(processed, timeZone) }
+  }
+
+  /**
+   * Get the report of the last CSV ingestion for an airport, including rejected rows
+   */
+  getIngestionReport(airportCode: string): IngestionReport | undefined {
+    return this.ingestionReports.get(airportCode)
   }
 
   /**
    * Get airport statistics
    */
-  async getAirportStatistics(airportCode: string): Promise<AirportStatistics> {
-    const flightData = await this.getFlightData(airportCode)
+  async getAirportStatistics(airportCode: string, filter?: FlightDateFilter): Promise<AirportStatistics> {
+    const flightData = await this.getFlightData(airportCode, filter)
     
     const totalFlights = flightData.length
     const delayedFlights = flightData.filter(f => f.delayMinutes && f.delayMinutes > 0).length
-    const avgDelay = flightData.reduce((sum, f) => sum + (f.delayMinutes || 0), 0) / totalFlights
+    const avgDelay = totalFlights > 0 ? flightData.reduce((sum, f) => sum + (f.delayMinutes || 0), 0) / totalFlights : 0
     
     // Calculate peak hour
     const hourlyCounts = new Map<number, number>()
@@ -206,8 +418,7 @@ export class FlightDataProcessor {
       critical: flightData.filter(f => Math.abs(f.delayMinutes || 0) >= 60).length
     }
     
-    // Simplified capacity utilization
-    const capacityUtilization = (totalFlights / (peakFlights * 24)) * 100
+    const capacity = await measureCapacity(airportCode.toUpperCase(), flightData, await this.getAirportTimeZone(airportCode))
     
     return {
       totalFlights,
@@ -216,15 +427,17 @@ export class FlightDataProcessor {
       peakHour,
       peakFlights,
       delayDistribution,
-      capacityUtilization: Math.round(capacityUtilization * 100) / 100
+      capacityUtilization: capacity.utilization,
+      peakHourUtilization: capacity.peakHourUtilization,
+      completenessScore: calculateCompletenessScore(flightData)
     }
   }
 
   /**
    * Get peak hour analysis
    */
-  async getPeakHourAnalysis(airportCode: string): Promise<PeakHourAnalysis[]> {
-    const flightData = await this.getFlightData(airportCode)
+  async getPeakHourAnalysis(airportCode: string, filter?: FlightDateFilter): Promise<PeakHourAnalysis[]> {
+    const flightData = await this.getFlightData(airportCode, filter)
     
     const hourlyCounts = new Map<number, number>()
     flightData.forEach(f => {
@@ -232,31 +445,120 @@ export class FlightDataProcessor {
       hourlyCounts.set(f.scheduledHour, count + 1)
     })
     
-    const maxFlights = Math.max(...hourlyCounts.values())
+    // Utilization of each clock hour against the declaration, averaged over the days it occurs on
+    const capacity = await measureCapacity(airportCode.toUpperCase(), flightData, await this.getAirportTimeZone(airportCode))
+    const hourlyUtilization = new Map<number, number[]>()
+    capacity.hourly.forEach(period => {
+      if (period.utilization === null) return
+      const hour = parseInt(period.start.substring(11, 13))
+      hourlyUtilization.set(hour, [...(hourlyUtilization.get(hour) || []), period.utilization])
+    })
     
-    return Array.from(hourlyCounts.entries()).map(([hour, flightCount]) => ({
-      hour,
-      flightCount,
-      utilization: Math.round((flightCount / maxFlights) * 100)
-    })).sort((a, b) => b.flightCount - a.flightCount)
+    return Array.from(hourlyCounts.entries()).map(([hour, flightCount]) => {
+      const utilization = hourlyUtilization.get(hour)
+      return {
+        hour,
+        flightCount,
+        utilization: utilization ? Math.round(utilization.reduce((sum, u) => sum + u, 0) / utilization.length) : null
+      }
+    }).sort((a, b) => b.flightCount - a.flightCount)
   }
 
   /**
-   * Get flight data for a specific airport
+   * Count scheduled and actual arrivals and departures in rolling 5, 15 or 60
+   * minute windows, sliding or fixed to the clock, and find the busiest one
    */
-  async getFlightData(airportCode: string): Promise<ProcessedFlightData[]> {
-    // Check cache first
-    const cachedData = this.dataCache.get(airportCode)
-    const lastUpdate = this.lastUpdated.get(airportCode)
-    
-    // Use cached data if it's less than 5 minutes old
-    if (cachedData && lastUpdate && (Date.now() - lastUpdate.getTime()) < 5 * 60 * 1000) {
-      return cachedData
+  async getMovementWindows(airportCode: string, filter?: FlightDateFilter, windowMinutes?: number, mode?: string): Promise<MovementWindowAnalysis> {
+    const code = airportCode.toUpperCase()
+    return analyzeMovementWindows(code, await this.getFlightData(code, filter), await this.getAirportTimeZone(code), windowMinutes, mode)
+  }
+
+  /**
+   * Get each aircraft's rotations through an airport, with turnaround checks and
+   * departure delay split between late inbound aircraft and local causes
+   */
+  async getAircraftRotations(airportCode: string, filter?: FlightDateFilter, registration?: string): Promise<RotationAnalysis> {
+    const code = airportCode.toUpperCase()
+    const flightData = await this.getFlightData(code, filter)
+    return analyzeRotations(code, flightData, await this.getAirportTimeZone(code), registration?.toUpperCase())
+  }
+
+  /**
+   * Split an airport's departure delays into primary and reactionary minutes
+   * along each aircraft's rotation, and follow them to later legs
+   */
+  async getDelayPropagation(airportCode: string, filter?: FlightDateFilter): Promise<DelayPropagationReport> {
+    const code = airportCode.toUpperCase()
+    return attributeDelays(code, await this.getFlightData(code, filter))
+  }
+
+  /**
+   * Get D0/D15/A0/A15, cancellation rate and completion factor for an airport's
+   * departures and arrivals, broken down by airline, route, hour, day and type
+   */
+  async getOnTimePerformance(airportCode: string, filter?: FlightDateFilter): Promise<OnTimePerformance> {
+    const code = airportCode.toUpperCase()
+    return measureOnTimePerformance(code, await this.getFlightData(code, filter), await this.getAirportTimeZone(code))
+  }
+
+  /**
+   * Compare actual with scheduled block times per route and hour, suggesting
+   * the block time that the given percentile of flights achieved
+   */
+  async getBlockTimeAnalysis(airportCode: string, filter?: FlightDateFilter, percentile?: number): Promise<BlockTimeAnalysis> {
+    const code = airportCode.toUpperCase()
+    return analyzeBlockTimes(await this.getFlightData(code, filter), await this.getAirportTimeZone(code), percentile)
+  }
+
+  /**
+   * Cross day of the week with hour or quarter hour of an airport's movements:
+   * counts, mean and P90 delay and on-time rate per cell
+   */
+  async getDelayHeatmap(airportCode: string, filter?: FlightDateFilter, bucketMinutes?: number): Promise<DelayHeatmap> {
+    const code = airportCode.toUpperCase()
+    return buildDelayHeatmap(code, await this.getFlightData(code, filter), await this.getAirportTimeZone(code), bucketMinutes)
+  }
+
+  /**
+   * Get flight data for a specific airport, optionally limited to a date range or days of the week
+   */
+  async getFlightData(airportCode: string, filter?: FlightDateFilter): Promise<ProcessedFlightData[]> {
+    const code = airportCode.toUpperCase()
+    const resolved = resolveDateFilter(filter, await this.getAirportTimeZone(code))
+
+    // Database sources get the date range pushed into the query instead of filtering everything in memory
+    if (resolved && this.dataSources.get(code)?.type === 'database') {
+      return this.queryFlightData(code, filter)
     }
+
+    // Check cache first
+    const cachedData = this.dataCache.get(code)
+    const lastUpdate = this.lastUpdated.get(code)
     
-    // Load fresh data
-    const freshData = await this.loadFlightDataFromCSV()
-    return freshData
+    // Use cached data if it's less than 5 minutes old, otherwise load fresh data from the airport's own source
+    const flightData = cachedData && lastUpdate && (Date.now() - lastUpdate.getTime()) < 5 * 60 * 1000
+      ? cachedData
+      : await this.loadFlightData(code)
+
+    return resolved ? flightData.filter(f => matchesDateFilter(f, resolved)) : flightData
+  }
+
+  /**
+   * Query the Flight table for an airport and date filter, bypassing the cache
+   */
+  async queryFlightData(airportCode: string, filter?: FlightDateFilter): Promise<ProcessedFlightData[]> {
+    const code = airportCode.toUpperCase()
+    const timeZone = await this.getAirportTimeZone(code)
+    const resolved = resolveDateFilter(filter, timeZone)
+
+    const flights = await db.flight.findMany({
+      where: { airportCode: code, ...scheduledDepartureWhere(resolved) },
+      orderBy: { scheduledDeparture: 'asc' }
+    })
+
+    return flights
+      .map(flight => this.toProcessedFlight(flight, timeZone))
+      .filter(f => matchesDateFilter(f, resolved))
   }
 
   /**
@@ -265,7 +567,19 @@ export class FlightDataProcessor {
   async seedDatabase(): Promise<void> {
     try {
       // Clear existing data
+      await db.slot.deleteMany()
+      await db.flightEvent.deleteMany()
+      await db.delayAnalysis.deleteMany()
+      await db.flightDelay.deleteMany()
+      await db.connection.deleteMany()
       await db.flight.deleteMany()
+      await db.schedule.deleteMany()
+      await db.gate.deleteMany()
+      await db.terminal.deleteMany()
+      await db.capacityDeclaration.deleteMany()
+      await db.runwayConfiguration.deleteMany()
+      await db.runway.deleteMany()
+      await db.minimumConnectingTime.deleteMany()
       await db.airport.deleteMany()
       await db.analytics.deleteMany()
 
@@ -277,22 +591,36 @@ export class FlightDataProcessor {
           city: 'Mumbai',
           country: 'India',
           timezone: 'Asia/Kolkata',
-          coordinates: JSON.stringify({ lat: 19.0896, lng: 72.8656 }),
+          latitude: 19.0896,
+          longitude: 72.8656,
           terminals: 2,
-          runways: 2,
-          capacity: 950
+          runways: 2
         }
       })
 
+      // Create airlines from the reference file
+      await seedAirlines()
+      const airlines = AirlineRegistry.getInstance()
+
+      // Create terminals, gates, runways and declared capacity from the reference files
+      await seedAirportResources()
+      await seedCapacityDeclarations()
+
+      // Create the IATA delay code catalogue
+      await seedDelayCodes()
+
       // Get flight data
       const flightData = await this.getFlightData('BOM')
+      const gates = await allocateGates('BOM', flightData)
 
       // Create flights
       for (const flight of flightData) {
+        const carrier = await airlines.getFlightAirlineFields(flight.flightNumber)
+        const gate = gates.get(flight.id)
         await db.flight.create({
           data: {
             flightNumber: flight.flightNumber,
-            airline: this.extractAirline(flight.flightNumber),
+            ...carrier,
             origin: flight.origin,
             destination: flight.destination,
             scheduledDeparture: flight.scheduledDeparture,
@@ -302,6 +630,10 @@ export class FlightDataProcessor {
             status: flight.status as any,
             delayMinutes: flight.delayMinutes,
             aircraft: flight.aircraft,
+            registration: await registerAircraft(flight.aircraft, carrier.airlineCode),
+            gate: gate?.gate,
+            terminal: gate?.terminal,
+            gateId: gate?.gateId,
             airportCode: flight.airportCode
           }
         })
@@ -309,23 +641,9 @@ export class FlightDataProcessor {
 
       // Create analytics
       const stats = await this.getAirportStatistics('BOM')
-      await db.analytics.create({
-        data: {
-          airportCode: 'BOM',
-          type: 'PEAK_HOURS',
-          data: JSON.stringify(await this.getPeakHourAnalysis('BOM')),
-          confidence: 0.95
-        }
-      })
-
-      await db.analytics.create({
-        data: {
-          airportCode: 'BOM',
-          type: 'DELAYS',
-          data: JSON.stringify(stats),
-          confidence: 0.90
-        }
-      })
+      await createAnalytics('BOM', 'PEAK_HOURS', await this.getPeakHourAnalysis('BOM'), 0.95)
+      await createAnalytics('BOM', 'DELAYS', stats, 0.90)
+      await createAnalytics('BOM', 'DELAY_PROPAGATION', toAnalyticsPayload(await this.getDelayPropagation('BOM')), 0.80)
 
       console.log('Database seeded successfully with real flight data')
     } catch (error) {
@@ -334,28 +652,10 @@ export class FlightDataProcessor {
     }
   }
 
-  /**
-   * Extract airline from flight number
-   */
-  private extractAirline(flightNumber: string): string {
-    const airlineCodes: Record<string, string> = {
-      'AI': 'Air India',
-      '6E': 'IndiGo',
-      'SG': 'SpiceJet',
-      'UK': 'Vistara',
-      'G8': 'GoAir',
-      'IX': 'Air India Express',
-      'QP': 'Akasa Air'
-    }
-
-    const code = flightNumber.substring(0, 2).toUpperCase()
-    return airlineCodes[code] || 'Unknown Airline'
-  }
-
   /**
    * Get real-time flight updates
    */
-  async getRealTimeUpdates(airportCode: string): Promise<ProcessedFlightData[]> {
+  async getRealTimeUpdates(airportCode: string, filter?: FlightDateFilter): Promise<ProcessedFlightData[]> {
     const flightData = await this.getFlightData(airportCode)
     
     // Simulate real-time updates by modifying some flight statuses
@@ -373,9 +673,9 @@ export class FlightDataProcessor {
     })
 
     // Update cache
-    this.dataCache.set(airportCode, updatedData)
-    this.lastUpdated.set(airportCode, new Date())
+    this.cacheFlightData(airportCode.toUpperCase(), updatedData)
 
-    return updatedData
+    const resolved = resolveDateFilter(filter, await this.getAirportTimeZone(airportCode))
+    return resolved ? updatedData.filter(f => matchesDateFilter(f, resolved)) : updatedData
   }
 }
\ No newline at end of file
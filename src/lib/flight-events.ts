@@ -0,0 +1,160 @@
+import { Flight, FlightEvent, FlightEventSource, Prisma } from '@prisma/client'
+import { db } from '@/lib/db'
+
+// Flight fields whose changes are recorded in the event history
+export const TRACKED_FLIGHT_FIELDS = [
+  'status',
+  'delayMinutes',
+  'scheduledDeparture',
+  'scheduledArrival',
+  'actualDeparture',
+  'actualArrival',
+  'gate',
+  'gateId',
+  'terminal',
+  'aircraft',
+  'registration',
+  'airline',
+  'airlineCode'
+] as const
+
+export type TrackedFlightField = typeof TRACKED_FLIGHT_FIELDS[number]
+
+export interface FlightFieldChange {
+  field: string
+  oldValue: string | null
+  newValue: string | null
+}
+
+// The changes written together by one source at one time
+export interface FlightTimelineEntry {
+  timestamp: Date
+  source: FlightEventSource
+  reference: string | null
+  changes: FlightFieldChange[]
+}
+
+/**
+ * Record the tracked fields that differ between two versions of a flight.
+ * Pass `before` as null for a newly created flight. Returns the number of events written.
+ */
+export async function recordFlightChanges(
+  before: Flight | null,
+  after: Flight,
+  source: FlightEventSource,
+  reference?: string,
+  client: Prisma.TransactionClient = db
+): Promise<number> {
+  const changes = diffFlight(before, after)
+  if (changes.length === 0) return 0
+
+  const timestamp = new Date()
+  const created = await client.flightEvent.createMany({
+    data: changes.map(change => ({ ...change, flightId: after.id, source, reference: reference ?? null, timestamp }))
+  })
+  return created.count
+}
+
+/**
+ * Update a flight and append its changed fields to the event history in one transaction
+ */
+export async function updateFlightWithHistory(
+  id: string,
+  data: Prisma.FlightUncheckedUpdateInput,
+  source: FlightEventSource,
+  reference?: string
+): Promise<Flight> {
+  return db.$transaction(async tx => {
+    const before = await tx.flight.findUniqueOrThrow({ where: { id } })
+    const after = await tx.flight.update({ where: { id }, data })
+    await recordFlightChanges(before, after, source, reference, tx)
+    return after
+  })
+}
+
+/**
+ * Update every flight matching `where` and append each one's changed fields to
+ * the event history. Runs in its own transaction unless given one. Returns the
+ * number of flights updated.
+ */
+export async function updateFlightsWithHistory(
+  where: Prisma.FlightWhereInput,
+  data: Prisma.FlightUncheckedUpdateManyInput,
+  source: FlightEventSource,
+  reference?: string,
+  client?: Prisma.TransactionClient
+): Promise<number> {
+  const update = async (tx: Prisma.TransactionClient) => {
+    const before = await tx.flight.findMany({ where })
+    if (before.length === 0) return 0
+
+    const ids = before.map(flight => flight.id)
+    await tx.flight.updateMany({ where: { id: { in: ids } }, data })
+    const after = await tx.flight.findMany({ where: { id: { in: ids } } })
+    const previous = new Map(before.map(flight => [flight.id, flight]))
+    for (const flight of after) {
+      await recordFlightChanges(previous.get(flight.id)!, flight, source, reference, tx)
+    }
+    return before.length
+  }
+
+  return client ? update(client) : db.$transaction(update)
+}
+
+/**
+ * Create a flight and record its initial values in the event history
+ */
+export async function createFlightWithHistory(
+  data: Prisma.FlightUncheckedCreateInput,
+  source: FlightEventSource,
+  reference?: string
+): Promise<Flight> {
+  return db.$transaction(async tx => {
+    const flight = await tx.flight.create({ data })
+    await recordFlightChanges(null, flight, source, reference, tx)
+    return flight
+  })
+}
+
+/**
+ * Get a flight's events in order, grouped into the writes they came from
+ */
+export async function getFlightTimeline(flightId: string): Promise<FlightTimelineEntry[]> {
+  const events = await db.flightEvent.findMany({
+    where: { flightId },
+    orderBy: [{ timestamp: 'asc' }, { id: 'asc' }]
+  })
+  return groupEvents(events)
+}
+
+function groupEvents(events: FlightEvent[]): FlightTimelineEntry[] {
+  const entries: FlightTimelineEntry[] = []
+
+  for (const event of events) {
+    const last = entries[entries.length - 1]
+    const change = { field: event.field, oldValue: event.oldValue, newValue: event.newValue }
+    if (last && last.timestamp.getTime() === event.timestamp.getTime() && last.source === event.source && last.reference === event.reference) {
+      last.changes.push(change)
+    } else {
+      entries.push({ timestamp: event.timestamp, source: event.source, reference: event.reference, changes: [change] })
+    }
+  }
+
+  return entries
+}
+
+function diffFlight(before: Flight | null, after: Flight): FlightFieldChange[] {
+  return TRACKED_FLIGHT_FIELDS
+    .map(field => ({
+      field,
+      oldValue: before ? serializeValue(before[field]) : null,
+      newValue: serializeValue(after[field])
+    }))
+    .filter(change => change.oldValue !== change.newValue)
+}
+
+function serializeValue(value: Flight[TrackedFlightField]): string | null {
+  if (value === null || value === undefined) return null
+  if (value instanceof Date) return value.toISOString()
+  return String(value)
+}
@@ -0,0 +1,316 @@
+import { z } from 'zod'
+import { FlightEventSource, FlightStatus } from '@prisma/client'
+import { db } from '@/lib/db'
+import { FlightDataProcessor, ProcessedFlightData } from '@/lib/flight-data-processor'
+import { AirlineRegistry } from '@/lib/airlines'
+import { parseAircraftField, registerAircraft } from '@/lib/aircraft'
+import { CSVParseOptions, parseFlightCSV, splitCSVLine } from '@/lib/flight-csv-parser'
+import { getLocalParts, parseDateTimeInZone, zonedTimeToUtc } from '@/lib/timezone'
+import { createFlightWithHistory, updateFlightWithHistory } from '@/lib/flight-events'
+
+export type ImportFormat = 'csv' | 'json'
+
+export type ImportRowOutcome = 'inserted' | 'updated' | 'skipped' | 'rejected'
+
+export interface ImportRowResult {
+  row: number
+  source?: string
+  outcome: ImportRowOutcome
+  flightNumber?: string
+  flightId?: string
+  reason?: string
+  errors?: string[]
+}
+
+export interface FlightImportReport {
+  airportCode: string
+  dryRun: boolean
+  totalRows: number
+  inserted: number
+  updated: number
+  skipped: number
+  rejected: number
+  rows: ImportRowResult[]
+}
+
+export interface RawImportRow {
+  row: number
+  source?: string
+  values: Record<string, unknown>
+}
+
+// Blank CSV cells and JSON nulls both mean "not provided"
+const optionalString = z.preprocess(blankToUndefined, z.string().trim().optional())
+const optionalDate = z.preprocess(blankToUndefined, z.coerce.date().optional())
+const iataCode = (field: string) =>
+  z.string().trim().toUpperCase().regex(/^[A-Z0-9]{3}$/, `${field} must be a 3-letter IATA airport code`)
+
+// Mirrors the writable columns of the Prisma Flight model
+export const flightImportRowSchema = z
+  .object({
+    flightNumber: z.string().trim().min(1, 'Flight number is required'),
+    airline: optionalString,
+    origin: iataCode('Origin'),
+    destination: iataCode('Destination'),
+    scheduledDeparture: z.coerce.date(),
+    scheduledArrival: z.coerce.date(),
+    actualDeparture: optionalDate,
+    actualArrival: optionalDate,
+    status: z.preprocess(
+      value => (typeof value === 'string' && value.trim() ? value.trim().toUpperCase() : undefined),
+      z.enum(FlightStatus).default(FlightStatus.SCHEDULED)
+    ),
+    delayMinutes: z.preprocess(blankToUndefined, z.coerce.number().int().optional()),
+    gate: optionalString,
+    terminal: optionalString,
+    aircraft: optionalString
+  })
+  .refine(row => row.scheduledArrival > row.scheduledDeparture, {
+    message: 'Scheduled arrival must be after scheduled departure',
+    path: ['scheduledArrival']
+  })
+  .refine(row => !row.actualDeparture || !row.actualArrival || row.actualArrival > row.actualDeparture, {
+    message: 'Actual arrival must be after actual departure',
+    path: ['actualArrival']
+  })
+
+export type FlightImportRow = z.infer<typeof flightImportRowSchema>
+
+/**
+ * Split an uploaded CSV or JSON document into raw rows.
+ *
+ * CSV uploads may either use the flight_data_cleaned.csv layout (detected by
+ * its STD column) or have one column per Flight field. Rows the cleaned-CSV
+ * parser already rejects are returned as rejections; `csvOptions` carries the
+ * time zones it reads local times in.
+ */
+export function parseImportPayload(
+  content: string,
+  format: ImportFormat,
+  csvOptions: CSVParseOptions = {}
+): { rows: RawImportRow[]; rejected: ImportRowResult[] } {
+  if (format === 'json') {
+    const parsed = JSON.parse(content)
+    const records = Array.isArray(parsed) ? parsed : parsed?.flights
+    if (!Array.isArray(records)) {
+      throw new Error('JSON upload must be an array of flights or an object with a "flights" array')
+    }
+    return {
+      rows: records.map((values, index) => ({ row: index + 1, values: values ?? {} })),
+      rejected: []
+    }
+  }
+
+  const lines = content.split(/\r?\n/)
+  const header = splitCSVLine(lines[0] || '').map(h => h.trim())
+
+  if (header.includes('STD')) {
+    return parseCleanedCSVLayout(content, lines, csvOptions)
+  }
+
+  const rows: RawImportRow[] = []
+  for (let i = 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue
+    const fields = splitCSVLine(lines[i])
+    const values: Record<string, unknown> = {}
+    header.forEach((column, index) => {
+      values[column] = fields[index]?.trim()
+    })
+    rows.push({ row: i + 1, values })
+  }
+
+  return { rows, rejected: [] }
+}
+
+/**
+ * Validate and upsert flights for an airport, keyed by flight number, route and
+ * scheduled departure date at that airport. Rows that neither depart from nor
+ * arrive at the airport are rejected. With `dryRun` the report is produced
+ * without writing to the database.
+ */
+export async function importFlights(
+  airportCode: string,
+  rows: RawImportRow[],
+  preRejected: ImportRowResult[] = [],
+  dryRun: boolean = false
+): Promise<FlightImportReport> {
+  const processor = FlightDataProcessor.getInstance()
+  const airlines = AirlineRegistry.getInstance()
+  const timeZone = await processor.getAirportTimeZone(airportCode)
+  const results: ImportRowResult[] = [...preRejected]
+  const seenKeys = new Map<string, number>()
+
+  for (const { row, source, values } of rows) {
+    const parsed = flightImportRowSchema.safeParse(localizeDateFields(values, timeZone))
+    if (!parsed.success) {
+      results.push({
+        row,
+        source,
+        outcome: 'rejected',
+        flightNumber: typeof values.flightNumber === 'string' ? values.flightNumber : undefined,
+        errors: parsed.error.issues.map(issue => `${issue.path.join('.') || 'row'}: ${issue.message}`)
+      })
+      continue
+    }
+
+    const flight = parsed.data
+    // A flight that neither leaves nor lands here is not one of the airport's movements
+    if (flight.origin !== airportCode && flight.destination !== airportCode) {
+      results.push({
+        row,
+        source,
+        outcome: 'rejected',
+        flightNumber: flight.flightNumber,
+        errors: [`route: neither origin ${flight.origin} nor destination ${flight.destination} is ${airportCode}`]
+      })
+      continue
+    }
+
+    const { start, end } = dayBounds(flight.scheduledDeparture, timeZone)
+    // Legs of a through flight share a number, so the route is part of the key
+    const key = `${airportCode}|${flight.flightNumber}|${flight.origin}|${flight.destination}|${start.toISOString()}`
+
+    const duplicateOf = seenKeys.get(key)
+    if (duplicateOf !== undefined) {
+      results.push({
+        row,
+        source,
+        outcome: 'skipped',
+        flightNumber: flight.flightNumber,
+        reason: `Duplicate of row ${duplicateOf} in this upload`
+      })
+      continue
+    }
+    seenKeys.set(key, row)
+
+    const carrier = await airlines.getFlightAirlineFields(flight.flightNumber)
+    const data = {
+      ...flight,
+      airline: flight.airline || carrier.airline,
+      airlineCode: carrier.airlineCode,
+      registration: parseAircraftField(flight.aircraft)?.registration,
+      airportCode
+    }
+
+    const existing = await db.flight.findFirst({
+      where: {
+        airportCode,
+        flightNumber: flight.flightNumber,
+        origin: flight.origin,
+        destination: flight.destination,
+        scheduledDeparture: { gte: start, lt: end }
+      }
+    })
+
+    if (!dryRun) {
+      await registerAircraft(flight.aircraft, carrier.airlineCode)
+    }
+
+    if (!existing) {
+      const created = dryRun ? undefined : await createFlightWithHistory(data, FlightEventSource.IMPORT, importReference(source, row))
+      results.push({ row, source, outcome: 'inserted', flightNumber: flight.flightNumber, flightId: created?.id })
+      continue
+    }
+
+    if (isUnchanged(existing, data)) {
+      results.push({ row, source, outcome: 'skipped', flightNumber: flight.flightNumber, flightId: existing.id, reason: 'No changes' })
+      continue
+    }
+
+    if (!dryRun) {
+      await updateFlightWithHistory(existing.id, data, FlightEventSource.IMPORT, importReference(source, row))
+    }
+    results.push({ row, source, outcome: 'updated', flightNumber: flight.flightNumber, flightId: existing.id })
+  }
+
+  if (!dryRun) {
+    processor.invalidateCache(airportCode)
+  }
+
+  results.sort((a, b) => a.row - b.row)
+  const count = (outcome: ImportRowOutcome) => results.filter(r => r.outcome === outcome).length
+
+  return {
+    airportCode,
+    dryRun,
+    totalRows: results.length,
+    inserted: count('inserted'),
+    updated: count('updated'),
+    skipped: count('skipped'),
+    rejected: count('rejected'),
+    rows: results
+  }
+}
+
+function parseCleanedCSVLayout(content: string, lines: string[], options: CSVParseOptions): { rows: RawImportRow[]; rejected: ImportRowResult[] } {
+  const result = parseFlightCSV(content, options)
+  const rejectedLines = new Set(result.rejected.map(r => r.line))
+
+  // Accepted flights come back in file order, so pair them with the remaining line numbers
+  const acceptedLines: number[] = []
+  for (let i = 1; i < lines.length; i++) {
+    if (lines[i].trim() && !rejectedLines.has(i + 1)) acceptedLines.push(i + 1)
+  }
+
+  return {
+    rows: result.flights.map((flight, index) => ({ row: acceptedLines[index], values: toImportValues(flight) })),
+    rejected: result.rejected.map(r => ({ row: r.line, outcome: 'rejected' as const, errors: [r.reason] }))
+  }
+}
+
+function toImportValues(flight: ProcessedFlightData): Record<string, unknown> {
+  return {
+    flightNumber: flight.flightNumber,
+    origin: flight.origin,
+    destination: flight.destination,
+    scheduledDeparture: flight.scheduledDeparture,
+    scheduledArrival: flight.scheduledArrival,
+    actualDeparture: flight.actualDeparture,
+    actualArrival: flight.actualArrival,
+    status: flight.status,
+    delayMinutes: flight.delayMinutes,
+    aircraft: flight.aircraft
+  }
+}
+
+function isUnchanged(existing: Record<string, unknown>, data: Record<string, unknown>): boolean {
+  // Fields left out of the upload are not touched by the update, so ignore them here too
+  return Object.entries(data).filter(([, value]) => value !== undefined).every(([field, value]) => {
+    const current = existing[field]
+    if (value instanceof Date || current instanceof Date) {
+      return current instanceof Date && value instanceof Date && current.getTime() === value.getTime()
+    }
+    return current === value
+  })
+}
+
+// Where an imported value came from, for the flight's event history
+function importReference(source: string | undefined, row: number): string {
+  return source ? `${source} row ${row}` : `row ${row}`
+}
+
+// Times without a "Z" or offset are wall-clock times at the importing airport
+function localizeDateFields(values: Record<string, unknown>, timeZone: string): Record<string, unknown> {
+  const localized = { ...values }
+  for (const field of ['scheduledDeparture', 'scheduledArrival', 'actualDeparture', 'actualArrival']) {
+    const value = localized[field]
+    if (typeof value === 'string' && value.trim()) {
+      localized[field] = parseDateTimeInZone(value, timeZone) ?? value
+    }
+  }
+  return localized
+}
+
+// The airport-local calendar day containing `date`
+function dayBounds(date: Date, timeZone: string): { start: Date; end: Date } {
+  const { year, month, day } = getLocalParts(date, timeZone)
+  const start = zonedTimeToUtc(year, month, day, 0, timeZone)
+  const end = zonedTimeToUtc(year, month, day + 1, 0, timeZone)
+  return { start, end }
+}
+
+function blankToUndefined(value: unknown): unknown {
+  if (value === null || value === undefined) return undefined
+  if (typeof value === 'string' && value.trim() === '') return undefined
+  return value
+}
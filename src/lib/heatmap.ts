@@ -0,0 +1,97 @@
+import type { ProcessedFlightData } from '@/lib/flight-data-processor'
+import { getMovement } from '@/lib/capacity'
+import { OTP_TOLERANCE_MINUTES, movementDelay } from '@/lib/otp'
+import { quantile, round } from '@/lib/stats'
+import { DAY_NAMES, getLocalParts } from '@/lib/timezone'
+
+export const HEATMAP_BUCKET_MINUTES = [60, 15] as const
+
+export type HeatmapBucketMinutes = (typeof HEATMAP_BUCKET_MINUTES)[number]
+
+export interface HeatmapCell {
+  dayOfWeek: number
+  // Local start of the bucket, "HH:MM"
+  time: string
+  // Scheduled arrivals and departures, cancelled ones included
+  movements: number
+  // Operated movements with a known delay, the base of the figures below
+  measured: number
+  meanDelay: number | null
+  p90Delay: number | null
+  // Share (%) less than OTP_TOLERANCE_MINUTES late
+  onTimeRate: number | null
+}
+
+export interface DelayHeatmap {
+  airportCode: string
+  bucketMinutes: HeatmapBucketMinutes
+  toleranceMinutes: number
+  days: string[]
+  times: string[]
+  // One row per day of the week, Monday first, with a cell per bucket of the day
+  cells: HeatmapCell[][]
+}
+
+export class InvalidHeatmapBucketError extends Error {
+  constructor(value: unknown) {
+    super(`Heatmap buckets must be ${HEATMAP_BUCKET_MINUTES.join(' or ')} minutes, got ${JSON.stringify(value)}`)
+    this.name = 'InvalidHeatmapBucketError'
+  }
+}
+
+/**
+ * Cross the local day of the week with the time of day of an airport's
+ * movements: a 7x24 matrix of hours, or 7x96 of quarter hours. Each movement
+ * counts at its scheduled local time there, departure time for departures and
+ * arrival time for arrivals, and brings its departure or arrival delay.
+ */
+export function buildDelayHeatmap(
+  airportCode: string,
+  flights: ProcessedFlightData[],
+  timeZone: string,
+  bucketMinutes: number = 60
+): DelayHeatmap {
+  if (!HEATMAP_BUCKET_MINUTES.includes(bucketMinutes as HeatmapBucketMinutes)) {
+    throw new InvalidHeatmapBucketError(bucketMinutes)
+  }
+
+  const bucketsPerDay = (24 * 60) / bucketMinutes
+  const times = Array.from({ length: bucketsPerDay }, (_, bucket) => formatMinutes(bucket * bucketMinutes))
+  const counts = DAY_NAMES.map(() => times.map(() => ({ movements: 0, delays: [] as number[] })))
+
+  for (const flight of flights) {
+    const movement = getMovement(flight, airportCode)
+    if (!movement) continue
+    const { dayOfWeek, hour, minute } = getLocalParts(movement.time, timeZone)
+    const cell = counts[dayOfWeek][Math.floor((hour * 60 + minute) / bucketMinutes)]
+    cell.movements++
+    const delay = movementDelay(flight, airportCode)
+    if (delay !== null) cell.delays.push(delay)
+  }
+
+  return {
+    airportCode,
+    bucketMinutes: bucketMinutes as HeatmapBucketMinutes,
+    toleranceMinutes: OTP_TOLERANCE_MINUTES,
+    days: DAY_NAMES,
+    times,
+    cells: counts.map((row, dayOfWeek) => row.map(({ movements, delays }, bucket) => {
+      const sorted = [...delays].sort((a, b) => a - b)
+      return {
+        dayOfWeek,
+        time: times[bucket],
+        movements,
+        measured: delays.length,
+        meanDelay: delays.length > 0 ? round(delays.reduce((sum, d) => sum + d, 0) / delays.length) : null,
+        p90Delay: delays.length > 0 ? round(quantile(sorted, 90)) : null,
+        onTimeRate: delays.length > 0
+          ? round((delays.filter(d => d < OTP_TOLERANCE_MINUTES).length / delays.length) * 100)
+          : null
+      }
+    }))
+  }
+}
+
+function formatMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+}
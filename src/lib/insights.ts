@@ -0,0 +1,189 @@
+import { round } from '@/lib/stats'
+
+// Changes smaller than this many percent between periods are treated as noise
+const MIN_CHANGE_PERCENT = 5
+// Samples this many standard deviations from the mean are outliers
+const OUTLIER_Z_SCORE = 2
+const MIN_OUTLIER_SAMPLES = 5
+
+export type InsightKind = 'CHANGE' | 'OUTLIER' | 'CONTRIBUTOR' | 'THRESHOLD'
+
+export type InsightSeverity = 'low' | 'medium' | 'high'
+
+export interface Insight {
+  kind: InsightKind
+  metric: string
+  value: number
+  unit: string
+  severity: InsightSeverity
+  message: string
+  // The numbers the statement was computed from
+  evidence: Record<string, number | string | null>
+}
+
+export interface InsightSample {
+  key: string
+  label: string
+  value: number
+}
+
+interface InsightOptions {
+  // Whether a rise in the metric is bad news; leave unset for neutral metrics
+  higherIsWorse?: boolean
+}
+
+/**
+ * Compare a metric with the previous period. Returns null when there is no
+ * previous value or the change is within MIN_CHANGE_PERCENT.
+ */
+export function describeChange(
+  metric: string,
+  label: string,
+  current: number,
+  previous: number | null | undefined,
+  unit: string,
+  periods: { current: string; previous: string },
+  options: InsightOptions = {}
+): Insight | null {
+  if (previous === null || previous === undefined) return null
+
+  const change = round(current - previous)
+  const changePercent = previous !== 0 ? round((change / Math.abs(previous)) * 100) : null
+  if (change === 0 || (changePercent !== null && Math.abs(changePercent) < MIN_CHANGE_PERCENT)) return null
+
+  const worse = options.higherIsWorse === undefined ? null : (change > 0) === options.higherIsWorse
+  const size = changePercent === null ? 100 : Math.abs(changePercent)
+
+  return {
+    kind: 'CHANGE',
+    metric,
+    value: round(current),
+    unit,
+    severity: worse && size >= 25 ? 'high' : worse && size >= 10 ? 'medium' : 'low',
+    message: `${label} ${change > 0 ? 'rose' : 'fell'} from ${formatValue(previous, unit)} to ${formatValue(current, unit)}` +
+      // Changes in a percentage are given in points; anything else relative to before
+      (unit === '%' ? ` (${change > 0 ? '+' : ''}${change} points)` : changePercent !== null ? ` (${change > 0 ? '+' : ''}${changePercent}%)` : '') +
+      ` compared with ${periods.previous}`,
+    evidence: {
+      previous: round(previous),
+      change,
+      changePercent,
+      currentPeriod: periods.current,
+      previousPeriod: periods.previous
+    }
+  }
+}
+
+/**
+ * Find samples more than OUTLIER_Z_SCORE standard deviations from the mean,
+ * furthest first. Needs at least MIN_OUTLIER_SAMPLES samples.
+ */
+export function findOutliers(
+  metric: string,
+  label: string,
+  samples: InsightSample[],
+  unit: string,
+  options: InsightOptions & { limit?: number } = {}
+): Insight[] {
+  if (samples.length < MIN_OUTLIER_SAMPLES) return []
+
+  const mean = samples.reduce((sum, s) => sum + s.value, 0) / samples.length
+  const standardDeviation = Math.sqrt(samples.reduce((sum, s) => sum + (s.value - mean) ** 2, 0) / samples.length)
+  if (standardDeviation === 0) return []
+
+  return samples
+    .map(sample => ({ sample, zScore: (sample.value - mean) / standardDeviation }))
+    .filter(({ zScore }) => Math.abs(zScore) >= OUTLIER_Z_SCORE)
+    .sort((a, b) => Math.abs(b.zScore) - Math.abs(a.zScore))
+    .slice(0, options.limit ?? samples.length)
+    .map(({ sample, zScore }) => {
+      const worse = options.higherIsWorse === undefined || (zScore > 0) === options.higherIsWorse
+      return {
+        kind: 'OUTLIER' as const,
+        metric,
+        value: round(sample.value),
+        unit,
+        severity: !worse ? 'low' as const : Math.abs(zScore) >= 3 ? 'high' as const : 'medium' as const,
+        message: `${sample.label} at ${formatValue(sample.value, unit)} is well ${zScore > 0 ? 'above' : 'below'} ` +
+          `the average of ${formatValue(mean, unit)} for ${label}`,
+        evidence: {
+          key: sample.key,
+          mean: round(mean),
+          standardDeviation: round(standardDeviation),
+          zScore: round(zScore),
+          samples: samples.length
+        }
+      }
+    })
+}
+
+/**
+ * Name the sample that makes up the largest share of the total. Returns null
+ * when the total is zero.
+ */
+export function findTopContributor(metric: string, label: string, samples: InsightSample[], unit: string): Insight | null {
+  const total = samples.reduce((sum, s) => sum + s.value, 0)
+  if (samples.length === 0 || total <= 0) return null
+
+  const [top, runnerUp] = [...samples].sort((a, b) => b.value - a.value)
+  const share = round((top.value / total) * 100)
+
+  return {
+    kind: 'CONTRIBUTOR',
+    metric,
+    value: round(top.value),
+    unit,
+    severity: share >= 50 && samples.length > 2 ? 'medium' : 'low',
+    message: `${top.label} accounts for ${share}% of ${label} (${formatValue(top.value, unit)} of ${formatValue(total, unit)})`,
+    evidence: {
+      key: top.key,
+      total: round(total),
+      share,
+      runnerUp: runnerUp?.label ?? null,
+      runnerUpValue: runnerUp ? round(runnerUp.value) : null
+    }
+  }
+}
+
+/**
+ * Flag a metric past a threshold. Returns null when it is within it.
+ */
+export function checkThreshold(
+  metric: string,
+  label: string,
+  value: number | null,
+  threshold: number,
+  unit: string,
+  options: { direction?: 'above' | 'below'; severity?: InsightSeverity; evidence?: Insight['evidence'] } = {}
+): Insight | null {
+  const direction = options.direction || 'above'
+  if (value === null || (direction === 'above' ? value <= threshold : value >= threshold)) return null
+
+  return {
+    kind: 'THRESHOLD',
+    metric,
+    value: round(value),
+    unit,
+    severity: options.severity || 'medium',
+    message: `${label} is ${formatValue(value, unit)}, ${direction} the ${formatValue(threshold, unit)} threshold`,
+    evidence: {
+      threshold,
+      margin: round(Math.abs(value - threshold)),
+      ...options.evidence
+    }
+  }
+}
+
+/**
+ * Drop empty results and put the most severe insights first
+ */
+export function rankInsights(insights: (Insight | null | undefined)[]): Insight[] {
+  const order: Record<InsightSeverity, number> = { high: 0, medium: 1, low: 2 }
+  return insights
+    .filter((insight): insight is Insight => Boolean(insight))
+    .sort((a, b) => order[a.severity] - order[b.severity])
+}
+
+function formatValue(value: number, unit: string): string {
+  return unit === '%' ? `${round(value)}%` : `${round(value)} ${unit}`
+}
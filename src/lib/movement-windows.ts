@@ -0,0 +1,141 @@
+import { MovementType } from '@prisma/client'
+import type { ProcessedFlightData } from '@/lib/flight-data-processor'
+import { getMovement, getPeriodStart } from '@/lib/capacity'
+import { formatLocalDateTime } from '@/lib/timezone'
+
+export const MOVEMENT_WINDOW_MINUTES = [5, 15, 60] as const
+export const DEFAULT_MOVEMENT_WINDOW_MINUTES = 60
+
+export type MovementWindowMinutes = (typeof MOVEMENT_WINDOW_MINUTES)[number]
+
+// Sliding windows start at every movement, fixed ones on the local clock
+export type MovementWindowMode = 'sliding' | 'fixed'
+
+export interface MovementCounts {
+  arrivals: number
+  departures: number
+  movements: number
+}
+
+export interface MovementWindow {
+  start: string
+  end: string
+  scheduled: MovementCounts
+  // By actual times, for flights that have departed or arrived
+  actual: MovementCounts
+}
+
+export interface MovementWindowAnalysis {
+  windowMinutes: MovementWindowMinutes
+  mode: MovementWindowMode
+  // Windows with at least one scheduled or actual movement, in time order
+  windows: MovementWindow[]
+  // Busiest window by movements, the earliest on a tie
+  peak: { scheduled: MovementWindow | null; actual: MovementWindow | null }
+  // Most arrivals, departures and movements seen in any one window, not necessarily the same one
+  peakCounts: { scheduled: MovementCounts; actual: MovementCounts }
+}
+
+export class InvalidMovementWindowError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvalidMovementWindowError'
+  }
+}
+
+interface MovementTimes {
+  arrivals: number[]
+  departures: number[]
+}
+
+/**
+ * Count an airport's arrivals and departures in rolling windows of
+ * `windowMinutes`, by scheduled and by actual times. Sliding windows start at
+ * each movement, which is where a window's count can peak, so the busiest one
+ * is found exactly; fixed windows follow the local clock like the capacity
+ * periods do.
+ */
+export function analyzeMovementWindows(
+  airportCode: string,
+  flights: ProcessedFlightData[],
+  timeZone: string,
+  windowMinutes: number = DEFAULT_MOVEMENT_WINDOW_MINUTES,
+  mode: string = 'sliding'
+): MovementWindowAnalysis {
+  if (!MOVEMENT_WINDOW_MINUTES.includes(windowMinutes as MovementWindowMinutes)) {
+    throw new InvalidMovementWindowError(`Window must be one of ${MOVEMENT_WINDOW_MINUTES.join(', ')} minutes, got ${JSON.stringify(windowMinutes)}`)
+  }
+  if (mode !== 'sliding' && mode !== 'fixed') {
+    throw new InvalidMovementWindowError(`Window mode must be "sliding" or "fixed", got ${JSON.stringify(mode)}`)
+  }
+
+  const scheduled: MovementTimes = { arrivals: [], departures: [] }
+  const actual: MovementTimes = { arrivals: [], departures: [] }
+  for (const flight of flights) {
+    const movement = getMovement(flight, airportCode)
+    if (!movement) continue
+    const arrival = movement.movement === MovementType.ARRIVAL
+    const actualTime = arrival ? flight.actualArrival : flight.actualDeparture
+    ;(arrival ? scheduled.arrivals : scheduled.departures).push(movement.time.getTime())
+    if (actualTime) (arrival ? actual.arrivals : actual.departures).push(actualTime.getTime())
+  }
+  for (const times of [scheduled.arrivals, scheduled.departures, actual.arrivals, actual.departures]) {
+    times.sort((a, b) => a - b)
+  }
+
+  const times = [...scheduled.arrivals, ...scheduled.departures, ...actual.arrivals, ...actual.departures]
+  const starts = new Set(mode === 'sliding'
+    ? times
+    : times.map(time => getPeriodStart(new Date(time), windowMinutes, timeZone).getTime()))
+  const width = windowMinutes * 60000
+
+  const windows = Array.from(starts)
+    .sort((a, b) => a - b)
+    .map(start => ({
+      start: formatLocalDateTime(new Date(start), timeZone),
+      end: formatLocalDateTime(new Date(start + width), timeZone),
+      scheduled: countMovements(scheduled, start, start + width),
+      actual: countMovements(actual, start, start + width)
+    }))
+
+  const busiest = (basis: 'scheduled' | 'actual') => windows.reduce<MovementWindow | null>(
+    (max, window) => window[basis].movements > (max?.[basis].movements ?? 0) ? window : max,
+    null
+  )
+  const most = (basis: 'scheduled' | 'actual'): MovementCounts => ({
+    arrivals: Math.max(0, ...windows.map(w => w[basis].arrivals)),
+    departures: Math.max(0, ...windows.map(w => w[basis].departures)),
+    movements: Math.max(0, ...windows.map(w => w[basis].movements))
+  })
+
+  return {
+    windowMinutes: windowMinutes as MovementWindowMinutes,
+    mode,
+    windows,
+    peak: { scheduled: busiest('scheduled'), actual: busiest('actual') },
+    peakCounts: { scheduled: most('scheduled'), actual: most('actual') }
+  }
+}
+
+// Movements at or after `from` and before `to`
+function countMovements(times: MovementTimes, from: number, to: number): MovementCounts {
+  const arrivals = countBetween(times.arrivals, from, to)
+  const departures = countBetween(times.departures, from, to)
+  return { arrivals, departures, movements: arrivals + departures }
+}
+
+function countBetween(sortedTimes: number[], from: number, to: number): number {
+  return firstAtOrAfter(sortedTimes, to) - firstAtOrAfter(sortedTimes, from)
+}
+
+// Binary search for the index of the first time not before `time`
+function firstAtOrAfter(sortedTimes: number[], time: number): number {
+  let low = 0
+  let high = sortedTimes.length
+  while (low < high) {
+    const middle = (low + high) >> 1
+    if (sortedTimes[middle] < time) low = middle + 1
+    else high = middle
+  }
+  return low
+}
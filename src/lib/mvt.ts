@@ -0,0 +1,329 @@
+import { Flight, FlightEventSource, FlightStatus } from '@prisma/client'
+import { db } from '@/lib/db'
+import { registerAircraft } from '@/lib/aircraft'
+import { updateFlightWithHistory } from '@/lib/flight-events'
+import { FlightDelayInput, resolveDelayCode, setFlightDelays } from '@/lib/delay-codes'
+import { minutesBetween } from '@/lib/timezone'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// A time as written in an MVT line: HHMM or DDHHMM, always UTC
+export interface MVTTime {
+  day?: number
+  hours: number
+  minutes: number
+}
+
+export interface MVTDelay {
+  code: string
+  minutes?: number
+}
+
+export interface MVTMessage {
+  raw: string
+  flightNumber: string
+  dayOfMonth: number
+  registration?: string
+  station: string
+  departure?: { offBlock?: MVTTime; airborne?: MVTTime }
+  arrival?: { touchdown?: MVTTime; onBlock?: MVTTime }
+  estimatedDeparture?: MVTTime
+  estimatedArrival?: { time: MVTTime; station?: string }
+  delays: MVTDelay[]
+  supplementaryInfo: string[]
+}
+
+export interface MVTParseError {
+  raw: string
+  reason: string
+}
+
+export interface MVTApplyResult {
+  flightNumber: string
+  outcome: 'applied' | 'unmatched'
+  flightId?: string
+  airportCode?: string
+  reason?: string
+  changes?: {
+    status: FlightStatus
+    registration?: string
+    delayMinutes?: number
+    actualDeparture?: Date
+    actualArrival?: Date
+    estimatedDeparture?: Date
+    estimatedArrival?: Date
+  }
+  delays: MVTDelay[]
+}
+
+/**
+ * Parse one or more IATA MVT movement messages.
+ * Messages are separated by "MVT" header lines or blank lines.
+ */
+export function parseMVT(content: string): { messages: MVTMessage[]; errors: MVTParseError[] } {
+  const messages: MVTMessage[] = []
+  const errors: MVTParseError[] = []
+
+  for (const block of splitMessages(content)) {
+    const result = parseMessage(block)
+    if (typeof result === 'string') {
+      errors.push({ raw: block.join('\n'), reason: result })
+    } else {
+      messages.push(result)
+    }
+  }
+
+  return { messages, errors }
+}
+
+/**
+ * Find the flight an MVT message refers to and write its actual times,
+ * delay and status. `referenceDate` anchors the day-of-month in the message.
+ */
+export async function applyMVTMessage(message: MVTMessage, referenceDate: Date = new Date()): Promise<MVTApplyResult> {
+  const flight = await findFlightForMessage(message, referenceDate)
+  if (!flight) {
+    return {
+      flightNumber: message.flightNumber,
+      outcome: 'unmatched',
+      reason: `No ${message.flightNumber} flight on day ${message.dayOfMonth} touching ${message.station}`,
+      delays: message.delays
+    }
+  }
+
+  const anchor = flight.scheduledDeparture
+  const changes: NonNullable<MVTApplyResult['changes']> = { status: flight.status }
+
+  if (message.estimatedDeparture) {
+    changes.estimatedDeparture = resolveTime(message.estimatedDeparture, anchor)
+    changes.delayMinutes = minutesBetween(flight.scheduledDeparture, changes.estimatedDeparture)
+    changes.status = changes.delayMinutes > 0 ? FlightStatus.DELAYED : flight.status
+  }
+
+  if (message.departure) {
+    // Off-block is the actual departure; fall back to airborne when only that was sent
+    const departureTime = message.departure.offBlock || message.departure.airborne
+    if (departureTime) {
+      changes.actualDeparture = resolveTime(departureTime, anchor)
+      changes.delayMinutes = minutesBetween(flight.scheduledDeparture, changes.actualDeparture)
+      changes.status = FlightStatus.DEPARTED
+    }
+  }
+
+  if (message.estimatedArrival) {
+    changes.estimatedArrival = resolveTime(message.estimatedArrival.time, flight.scheduledArrival)
+  }
+
+  if (message.arrival) {
+    const arrivalTime = message.arrival.onBlock || message.arrival.touchdown
+    if (arrivalTime) {
+      changes.actualArrival = resolveTime(arrivalTime, flight.scheduledArrival)
+      changes.status = FlightStatus.ARRIVED
+    }
+  }
+
+  // The registration in the message wins over the planned tail (aircraft swaps)
+  if (message.registration && message.registration !== flight.registration) {
+    changes.registration = await registerAircraft(message.registration, flight.airlineCode) ?? undefined
+  }
+
+  await updateFlightWithHistory(
+    flight.id,
+    {
+      registration: changes.registration,
+      status: changes.status,
+      delayMinutes: changes.delayMinutes,
+      actualDeparture: changes.actualDeparture,
+      actualArrival: changes.actualArrival
+    },
+    FlightEventSource.MVT,
+    message.raw
+  )
+
+  // Coded delay reasons in the message replace the flight's earlier ones
+  const codedDelays = await toCodedDelays(message.delays, changes.delayMinutes)
+  if (codedDelays.length > 0) {
+    await setFlightDelays(flight.id, codedDelays)
+  }
+
+  return {
+    flightNumber: message.flightNumber,
+    outcome: 'applied',
+    flightId: flight.id,
+    airportCode: flight.airportCode,
+    changes,
+    delays: message.delays
+  }
+}
+
+function splitMessages(content: string): string[][] {
+  const blocks: string[][] = []
+  let current: string[] = []
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim().toUpperCase()
+    if (line === 'MVT' || line === '') {
+      if (current.length > 0) blocks.push(current)
+      current = []
+      continue
+    }
+    current.push(line)
+  }
+  if (current.length > 0) blocks.push(current)
+
+  return blocks
+}
+
+function parseMessage(lines: string[]): MVTMessage | string {
+  // Flight identification, e.g. "6E201/25.VTEXU.BOM"
+  const id = lines[0].match(/^([A-Z0-9]{2}[A-Z]?)(\d{1,4})([A-Z]?)\/(\d{2})(?:\.([A-Z0-9-]+))?\.([A-Z]{3})$/)
+  if (!id) {
+    return `Unrecognised flight identification line "${lines[0]}"`
+  }
+
+  const message: MVTMessage = {
+    raw: ['MVT', ...lines].join('\n'),
+    flightNumber: `${id[1]}${parseInt(id[2])}${id[3]}`,
+    dayOfMonth: parseInt(id[4]),
+    registration: id[5] ? formatRegistration(id[5]) : undefined,
+    station: id[6],
+    delays: [],
+    supplementaryInfo: []
+  }
+
+  for (const line of lines.slice(1)) {
+    if (line.startsWith('SI')) {
+      message.supplementaryInfo.push(line.substring(2).trim())
+      continue
+    }
+
+    // A line may carry several elements, e.g. "AD2310/2325 EA0140 DEL"
+    const tokens = line.split(/\s+/)
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i]
+      const element = token.substring(0, 2)
+      const value = token.substring(2)
+
+      switch (element) {
+        case 'AD': {
+          const [offBlock, airborne] = value.split('/').map(parseMVTTime)
+          if (!offBlock && !airborne) return `Invalid AD element "${token}"`
+          message.departure = { offBlock: offBlock || undefined, airborne: airborne || undefined }
+          break
+        }
+        case 'AA': {
+          const [touchdown, onBlock] = value.split('/').map(parseMVTTime)
+          if (!touchdown && !onBlock) return `Invalid AA element "${token}"`
+          message.arrival = { touchdown: touchdown || undefined, onBlock: onBlock || undefined }
+          break
+        }
+        case 'ED': {
+          const time = parseMVTTime(value)
+          if (!time) return `Invalid ED element "${token}"`
+          message.estimatedDeparture = time
+          break
+        }
+        case 'EA': {
+          const time = parseMVTTime(value)
+          if (!time) return `Invalid EA element "${token}"`
+          const station = tokens[i + 1]?.match(/^[A-Z]{3}$/) ? tokens[++i] : undefined
+          message.estimatedArrival = { time, station }
+          break
+        }
+        case 'DL':
+          message.delays.push(...parseDelays(value))
+          break
+        default:
+          // Other elements (PX passengers, FLD fuel, ...) are not used
+          break
+      }
+    }
+  }
+
+  if (!message.departure && !message.arrival && !message.estimatedDeparture && !message.estimatedArrival) {
+    return `Message for ${message.flightNumber} has no AD, AA, ED or EA element`
+  }
+
+  return message
+}
+
+// "93/17/0015/0010" -> codes 93 and 17 with 15 and 10 minutes
+function parseDelays(value: string): MVTDelay[] {
+  const parts = value.split('/').filter(Boolean)
+  const codes = parts.filter(p => /^(\d{2}|[A-Z]{2})[A-Z]?$/.test(p))
+  const durations = parts.filter(p => /^\d{4}$/.test(p)).map(p => parseInt(p.substring(0, 2)) * 60 + parseInt(p.substring(2)))
+
+  return codes.map((code, index) => ({ code, minutes: durations[index] }))
+}
+
+// Codes outside the IATA catalogue are dropped; a lone code without a duration takes the whole delay
+async function toCodedDelays(delays: MVTDelay[], delayMinutes?: number): Promise<FlightDelayInput[]> {
+  const coded: FlightDelayInput[] = []
+  for (const delay of delays) {
+    const minutes = delay.minutes ?? (delays.length === 1 ? delayMinutes : undefined)
+    if (!minutes || minutes <= 0 || !(await resolveDelayCode(delay.code))) continue
+    coded.push({ code: delay.code, minutes })
+  }
+  return coded
+}
+
+function parseMVTTime(value: string | undefined): MVTTime | null {
+  if (!value) return null
+  const match = value.match(/^(\d{2})?(\d{2})(\d{2})$/)
+  if (!match) return null
+  const hours = parseInt(match[2])
+  const minutes = parseInt(match[3])
+  if (hours > 23 || minutes > 59) return null
+  return { day: match[1] ? parseInt(match[1]) : undefined, hours, minutes }
+}
+
+// Pick the instant for an MVT time closest to the anchor (scheduled) time
+function resolveTime(time: MVTTime, anchor: Date): Date {
+  const candidates: Date[] = []
+  const year = anchor.getUTCFullYear()
+  const month = anchor.getUTCMonth()
+
+  if (time.day !== undefined) {
+    for (const monthShift of [-1, 0, 1]) {
+      const candidate = new Date(Date.UTC(year, month + monthShift, time.day, time.hours, time.minutes))
+      if (candidate.getUTCDate() === time.day) candidates.push(candidate)
+    }
+  } else {
+    for (const dayShift of [-1, 0, 1]) {
+      candidates.push(new Date(Date.UTC(year, month, anchor.getUTCDate() + dayShift, time.hours, time.minutes)))
+    }
+  }
+
+  return candidates.reduce((best, candidate) =>
+    Math.abs(candidate.getTime() - anchor.getTime()) < Math.abs(best.getTime() - anchor.getTime()) ? candidate : best,
+    candidates[0] || anchor
+  )
+}
+
+async function findFlightForMessage(message: MVTMessage, referenceDate: Date): Promise<Flight | null> {
+  const candidates = await db.flight.findMany({
+    where: {
+      flightNumber: message.flightNumber,
+      scheduledDeparture: {
+        gte: new Date(referenceDate.getTime() - 45 * DAY_MS),
+        lte: new Date(referenceDate.getTime() + 45 * DAY_MS)
+      }
+    }
+  })
+
+  const onDay = candidates.filter(f => f.scheduledDeparture.getUTCDate() === message.dayOfMonth)
+  // The sending station is the origin for departure messages and the destination for arrivals
+  const atStation = onDay.filter(f => (message.arrival && !message.departure ? f.destination : f.origin) === message.station)
+  const pool = atStation.length > 0 ? atStation : onDay
+
+  return pool.reduce<Flight | null>((best, flight) =>
+    !best || Math.abs(flight.scheduledDeparture.getTime() - referenceDate.getTime()) < Math.abs(best.scheduledDeparture.getTime() - referenceDate.getTime())
+      ? flight
+      : best, null)
+}
+
+// "VTEXU" -> "VT-EXU", matching the registrations in Flight.aircraft
+function formatRegistration(value: string): string {
+  if (value.includes('-')) return value
+  return /^VT[A-Z]{3}$/.test(value) ? `VT-${value.substring(2)}` : value
+}
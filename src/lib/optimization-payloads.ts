@@ -0,0 +1,41 @@
+import { z } from 'zod'
+
+// Models answer with text or bare numbers alike; both are kept as text
+const estimateSchema = z.union([z.string(), z.number()]).transform(String).optional()
+
+// Optimization.expectedImprovement: free-text estimates per KPI, e.g. { delayReduction: '18 minutes average' }
+export const expectedImprovementSchema = z.object({
+  delayReduction: estimateSchema,
+  capacityIncrease: estimateSchema,
+  costSavings: estimateSchema,
+  passengerExperience: estimateSchema,
+  passengerSatisfaction: estimateSchema
+})
+
+// Optimization.riskAssessment
+export const riskAssessmentSchema = z.object({
+  risks: z.array(z.string()).default([]),
+  mitigation: z.array(z.string()).default([]),
+  successProbability: estimateSchema
+})
+
+export type ExpectedImprovement = z.infer<typeof expectedImprovementSchema>
+export type RiskAssessment = z.infer<typeof riskAssessmentSchema>
+
+/**
+ * Bring a model's expected improvements into the stored shape. An answer that
+ * does not fit is stored empty rather than dropped.
+ */
+export function normalizeExpectedImprovement(value: unknown): ExpectedImprovement {
+  const parsed = expectedImprovementSchema.safeParse(value ?? {})
+  return parsed.success ? parsed.data : {}
+}
+
+/**
+ * Bring a model's risk assessment into the stored shape, with no risks or
+ * mitigations when it does not fit
+ */
+export function normalizeRiskAssessment(value: unknown): RiskAssessment {
+  const parsed = riskAssessmentSchema.safeParse(value ?? {})
+  return parsed.success ? parsed.data : { risks: [], mitigation: [] }
+}
@@ -0,0 +1,162 @@
+import { FlightStatus } from '@prisma/client'
+import type { ProcessedFlightData } from '@/lib/flight-data-processor'
+import { AirlineRegistry, extractAirlineDesignator } from '@/lib/airlines'
+import { DAY_NAMES, getLocalParts, minutesBetween } from '@/lib/timezone'
+
+// A flight is on time at D15/A15 when it is less than this many minutes late
+export const OTP_TOLERANCE_MINUTES = 15
+
+export interface PunctualityMetrics {
+  scheduled: number
+  cancelled: number
+  operated: number
+  // Operated flights with a known actual departure or arrival, the base of the rates
+  departuresMeasured: number
+  arrivalsMeasured: number
+  // Percentages, null when nothing could be measured
+  d0: number | null
+  d15: number | null
+  a0: number | null
+  a15: number | null
+  cancellationRate: number | null
+  completionFactor: number | null
+}
+
+export interface PunctualityGroup extends PunctualityMetrics {
+  key: string
+  label: string
+}
+
+export interface DirectionalPerformance {
+  overall: PunctualityMetrics
+  byAirline: PunctualityGroup[]
+  byRoute: PunctualityGroup[]
+  byHour: PunctualityGroup[]
+  byDayOfWeek: PunctualityGroup[]
+  byAircraftType: PunctualityGroup[]
+}
+
+export interface OnTimePerformance {
+  airportCode: string
+  toleranceMinutes: number
+  departures: DirectionalPerformance
+  arrivals: DirectionalPerformance
+}
+
+/**
+ * Measure on-time performance of an airport's departures and arrivals
+ * separately. D0/A0 count flights leaving or arriving no later than scheduled,
+ * D15/A15 those less than OTP_TOLERANCE_MINUTES late. Hours and days are the
+ * local scheduled time at the airport: departure time for departures, arrival
+ * time for arrivals.
+ */
+export async function measureOnTimePerformance(airportCode: string, flights: ProcessedFlightData[], timeZone: string): Promise<OnTimePerformance> {
+  // Name each airline from one of its flight numbers, which also resolves ICAO designators
+  const airlines = AirlineRegistry.getInstance()
+  const samples = new Map(flights.map(f => [airlineKey(f), f.airlineCode || f.flightNumber]))
+  const airlineNames = new Map(await Promise.all(Array.from(samples.entries()).map(async ([code, sample]) =>
+    [code, code === 'UNKNOWN' ? 'Unknown Airline' : await airlines.getAirlineName(sample)] as const
+  )))
+
+  const measure = (direction: ProcessedFlightData[], scheduledTime: (f: ProcessedFlightData) => Date): DirectionalPerformance => ({
+    overall: measurePunctuality(direction),
+    byAirline: groupBy(direction, f => {
+      const code = airlineKey(f)
+      return { key: code, label: airlineNames.get(code) || code }
+    }).sort(byScheduled),
+    byRoute: groupBy(direction, f => {
+      const route = `${f.origin}-${f.destination}`
+      return { key: route, label: route }
+    }).sort(byScheduled),
+    byHour: groupBy(direction, f => {
+      const hour = getLocalParts(scheduledTime(f), timeZone).hour
+      return { key: String(hour), label: `${String(hour).padStart(2, '0')}:00` }
+    }).sort((a, b) => Number(a.key) - Number(b.key)),
+    byDayOfWeek: groupBy(direction, f => {
+      const day = getLocalParts(scheduledTime(f), timeZone).dayOfWeek
+      return { key: String(day), label: DAY_NAMES[day] }
+    }).sort((a, b) => Number(a.key) - Number(b.key)),
+    byAircraftType: groupBy(direction, f => {
+      const type = f.aircraftType || 'UNKNOWN'
+      return { key: type, label: f.aircraftType || 'Unknown type' }
+    }).sort(byScheduled)
+  })
+
+  return {
+    airportCode,
+    toleranceMinutes: OTP_TOLERANCE_MINUTES,
+    departures: measure(flights.filter(f => f.origin === airportCode), f => f.scheduledDeparture),
+    arrivals: measure(flights.filter(f => f.destination === airportCode), f => f.scheduledArrival)
+  }
+}
+
+/**
+ * Count the punctuality KPIs for a set of flights
+ */
+export function measurePunctuality(flights: ProcessedFlightData[]): PunctualityMetrics {
+  const cancelled = flights.filter(f => f.status === FlightStatus.CANCELLED)
+  const operated = flights.filter(f => f.status !== FlightStatus.CANCELLED)
+  const departureDelays = operated.map(departureDelay).filter((delay): delay is number => delay !== null)
+  const arrivalDelays = operated.map(arrivalDelay).filter((delay): delay is number => delay !== null)
+  const rate = (count: number, total: number) => total > 0 ? Math.round((count / total) * 1000) / 10 : null
+
+  return {
+    scheduled: flights.length,
+    cancelled: cancelled.length,
+    operated: operated.length,
+    departuresMeasured: departureDelays.length,
+    arrivalsMeasured: arrivalDelays.length,
+    d0: rate(departureDelays.filter(delay => delay <= 0).length, departureDelays.length),
+    d15: rate(departureDelays.filter(delay => delay < OTP_TOLERANCE_MINUTES).length, departureDelays.length),
+    a0: rate(arrivalDelays.filter(delay => delay <= 0).length, arrivalDelays.length),
+    a15: rate(arrivalDelays.filter(delay => delay < OTP_TOLERANCE_MINUTES).length, arrivalDelays.length),
+    cancellationRate: rate(cancelled.length, flights.length),
+    completionFactor: rate(operated.length, flights.length)
+  }
+}
+
+/**
+ * Minutes late of a flight's departure from or arrival at an airport, or null
+ * when the flight was cancelled or that movement has not happened yet
+ */
+export function movementDelay(flight: ProcessedFlightData, airportCode: string): number | null {
+  if (flight.status === FlightStatus.CANCELLED) return null
+  return flight.origin === airportCode ? departureDelay(flight) : arrivalDelay(flight)
+}
+
+// Minutes late off the gate, or null when the flight has not departed
+function departureDelay(flight: ProcessedFlightData): number | null {
+  if (flight.actualDeparture) {
+    return minutesBetween(flight.scheduledDeparture, flight.actualDeparture)
+  }
+  const departed = flight.status === FlightStatus.DEPARTED || flight.status === FlightStatus.ARRIVED
+  return departed && flight.delayMinutes !== undefined ? flight.delayMinutes : null
+}
+
+// Minutes late on arrival, or null when the flight has not arrived
+function arrivalDelay(flight: ProcessedFlightData): number | null {
+  if (flight.actualArrival) {
+    return minutesBetween(flight.scheduledArrival, flight.actualArrival)
+  }
+  return flight.arrivalDelayMinutes ?? null
+}
+
+function airlineKey(flight: ProcessedFlightData): string {
+  return flight.airlineCode || (flight.flightNumber ? extractAirlineDesignator(flight.flightNumber) : 'UNKNOWN')
+}
+
+function groupBy(flights: ProcessedFlightData[], keyOf: (flight: ProcessedFlightData) => { key: string; label: string }): PunctualityGroup[] {
+  const groups = new Map<string, { label: string; flights: ProcessedFlightData[] }>()
+  for (const flight of flights) {
+    const { key, label } = keyOf(flight)
+    const group = groups.get(key) || { label, flights: [] }
+    group.flights.push(flight)
+    groups.set(key, group)
+  }
+
+  return Array.from(groups.entries()).map(([key, group]) => ({ key, label: group.label, ...measurePunctuality(group.flights) }))
+}
+
+function byScheduled(a: PunctualityGroup, b: PunctualityGroup): number {
+  return b.scheduled - a.scheduled || a.key.localeCompare(b.key)
+}
@@ -0,0 +1,269 @@
+import { loadAircraftTypes } from '@/lib/aircraft'
+import type { ProcessedFlightData } from '@/lib/flight-data-processor'
+import { formatLocalDateTime, minutesBetween } from '@/lib/timezone'
+
+// Used for tails whose aircraft type is unknown or missing from the reference data
+export const DEFAULT_MIN_TURNAROUND_MINUTES = 30
+// Longer than this on the ground is a night stop or a swap, not a turn
+const MAX_TURN_GROUND_MINUTES = 12 * 60
+
+export interface RotationLeg {
+  flightId: string
+  flightNumber: string
+  origin: string
+  destination: string
+  scheduledDeparture: string
+  scheduledArrival: string
+  actualDeparture?: string
+  actualArrival?: string
+  departureDelayMinutes: number
+  arrivalDelayMinutes: number | null
+}
+
+export interface Turnaround {
+  registration: string
+  // Station the aircraft turns at
+  station: string
+  inboundFlightId: string
+  inboundFlightNumber: string
+  outboundFlightId: string
+  outboundFlightNumber: string
+  scheduledGroundMinutes: number
+  actualGroundMinutes: number | null
+  minTurnaroundMinutes: number
+  scheduledShort: boolean
+  actualShort: boolean
+}
+
+export interface DelayAttribution {
+  flightId: string
+  flightNumber: string
+  delayMinutes: number
+  // Minutes carried in by the late inbound aircraft
+  reactionaryMinutes: number
+  // Minutes that started at the departure station
+  primaryMinutes: number
+  inboundFlightId: string | null
+  inboundFlightNumber: string | null
+}
+
+export interface AircraftRotation {
+  registration: string
+  icaoType: string | null
+  // Local date of the first departure
+  date: string
+  legs: RotationLeg[]
+  turns: Turnaround[]
+}
+
+export interface RotationSummary {
+  aircraft: number
+  legs: number
+  turns: number
+  shortScheduledTurns: number
+  shortActualTurns: number
+  avgScheduledGroundMinutes: number
+  avgActualGroundMinutes: number | null
+  delayedDepartures: number
+  departureDelayMinutes: number
+  reactionaryMinutes: number
+  primaryMinutes: number
+}
+
+export interface RotationAnalysis {
+  airportCode: string
+  summary: RotationSummary
+  rotations: AircraftRotation[]
+  shortTurns: Turnaround[]
+  attribution: DelayAttribution[]
+}
+
+// A leg and the one the same aircraft flew into its origin, if any
+export interface LinkedLeg {
+  flight: ProcessedFlightData
+  registration: string
+  minTurnaroundMinutes: number
+  inbound: ProcessedFlightData | null
+}
+
+/**
+ * Chain each tail's legs in departure order. A leg follows the previous one when
+ * it departs from where that one arrived, within a turn's worth of ground time.
+ */
+export async function linkRotations(flights: ProcessedFlightData[]): Promise<LinkedLeg[]> {
+  const aircraftTypes = await loadAircraftTypes()
+  const byTail = new Map<string, ProcessedFlightData[]>()
+  for (const flight of flights) {
+    if (!flight.registration) continue
+    byTail.set(flight.registration, [...(byTail.get(flight.registration) || []), flight])
+  }
+
+  const linked: LinkedLeg[] = []
+  byTail.forEach((legs, registration) => {
+    const sorted = [...legs].sort((a, b) => a.scheduledDeparture.getTime() - b.scheduledDeparture.getTime())
+    sorted.forEach((flight, index) => {
+      const previous = index > 0 ? sorted[index - 1] : null
+      const groundMinutes = previous ? minutesBetween(previous.scheduledArrival, flight.scheduledDeparture) : -1
+      const inbound = previous && previous.destination === flight.origin &&
+        groundMinutes >= 0 && groundMinutes <= MAX_TURN_GROUND_MINUTES ? previous : null
+      const type = flight.aircraftType ? aircraftTypes.get(flight.aircraftType) : undefined
+
+      linked.push({
+        flight,
+        registration,
+        minTurnaroundMinutes: type?.minTurnaroundMinutes ?? DEFAULT_MIN_TURNAROUND_MINUTES,
+        inbound
+      })
+    })
+  })
+
+  return linked
+}
+
+/**
+ * Split a departure delay into the part inherited from the inbound aircraft and
+ * the part that started at the departure station. The aircraft is ready once its
+ * inbound has arrived and the minimum turn has passed; any delay up to that point
+ * is reactionary. Without a known inbound leg, all of it is primary.
+ */
+export function attributeDelay(leg: LinkedLeg): DelayAttribution {
+  const { flight, inbound } = leg
+  const delayMinutes = departureDelay(flight)
+  let reactionaryMinutes = 0
+
+  if (inbound && delayMinutes > 0) {
+    const arrival = estimatedArrival(inbound)
+    const readyAt = arrival.getTime() + leg.minTurnaroundMinutes * 60000
+    const inherited = Math.max(0, Math.round((readyAt - flight.scheduledDeparture.getTime()) / 60000))
+    reactionaryMinutes = Math.min(delayMinutes, inherited)
+  }
+
+  return {
+    flightId: flight.id,
+    flightNumber: flight.flightNumber,
+    delayMinutes,
+    reactionaryMinutes,
+    primaryMinutes: delayMinutes - reactionaryMinutes,
+    inboundFlightId: inbound?.id ?? null,
+    inboundFlightNumber: inbound?.flightNumber ?? null
+  }
+}
+
+/**
+ * Build each aircraft's daily rotations from the airport's flights, check every
+ * turn against the type's minimum, and attribute the airport's departure delays.
+ */
+export async function analyzeRotations(
+  airportCode: string,
+  flights: ProcessedFlightData[],
+  timeZone: string,
+  registration?: string
+): Promise<RotationAnalysis> {
+  const linked = (await linkRotations(flights))
+    .filter(leg => !registration || leg.registration === registration)
+
+  const rotations = new Map<string, AircraftRotation>()
+  const rotationOf = new Map<string, string>()
+  for (const leg of linked) {
+    // Legs that continue a rotation stay on the day it started, even past midnight
+    const date = formatLocalDateTime(leg.flight.scheduledDeparture, timeZone).substring(0, 10)
+    const key = (leg.inbound && rotationOf.get(leg.inbound.id)) || `${leg.registration}|${date}`
+    const rotation = rotations.get(key) || {
+      registration: leg.registration,
+      icaoType: leg.flight.aircraftType ?? null,
+      date,
+      legs: [],
+      turns: []
+    }
+
+    rotation.legs.push(toRotationLeg(leg.flight, timeZone))
+    if (leg.inbound) rotation.turns.push(toTurnaround(leg))
+    rotations.set(key, rotation)
+    rotationOf.set(leg.flight.id, key)
+  }
+
+  const turns = Array.from(rotations.values()).flatMap(rotation => rotation.turns)
+  const actualTurns = turns.filter(turn => turn.actualGroundMinutes !== null)
+  const attribution = linked
+    .filter(leg => leg.flight.origin === airportCode)
+    .map(attributeDelay)
+  const delayed = attribution.filter(a => a.delayMinutes > 0)
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+
+  return {
+    airportCode,
+    summary: {
+      aircraft: new Set(linked.map(leg => leg.registration)).size,
+      legs: linked.length,
+      turns: turns.length,
+      shortScheduledTurns: turns.filter(turn => turn.scheduledShort).length,
+      shortActualTurns: turns.filter(turn => turn.actualShort).length,
+      avgScheduledGroundMinutes: turns.length > 0 ? Math.round(sum(turns.map(turn => turn.scheduledGroundMinutes)) / turns.length) : 0,
+      avgActualGroundMinutes: actualTurns.length > 0 ? Math.round(sum(actualTurns.map(turn => turn.actualGroundMinutes!)) / actualTurns.length) : null,
+      delayedDepartures: delayed.length,
+      departureDelayMinutes: sum(delayed.map(a => a.delayMinutes)),
+      reactionaryMinutes: sum(delayed.map(a => a.reactionaryMinutes)),
+      primaryMinutes: sum(delayed.map(a => a.primaryMinutes))
+    },
+    rotations: Array.from(rotations.values())
+      .sort((a, b) => a.date.localeCompare(b.date) || a.registration.localeCompare(b.registration)),
+    shortTurns: turns.filter(turn => turn.scheduledShort || turn.actualShort)
+      .sort((a, b) => (a.actualGroundMinutes ?? a.scheduledGroundMinutes) - (b.actualGroundMinutes ?? b.scheduledGroundMinutes)),
+    attribution: delayed.sort((a, b) => b.reactionaryMinutes - a.reactionaryMinutes || b.delayMinutes - a.delayMinutes)
+  }
+}
+
+/**
+ * Minutes a flight left late; early departures count as on time
+ */
+export function departureDelay(flight: ProcessedFlightData): number {
+  const delay = flight.actualDeparture
+    ? minutesBetween(flight.scheduledDeparture, flight.actualDeparture)
+    : flight.delayMinutes ?? 0
+  return Math.max(0, delay)
+}
+
+// Actual arrival, else scheduled arrival plus any recorded arrival delay
+function estimatedArrival(flight: ProcessedFlightData): Date {
+  return flight.actualArrival ||
+    new Date(flight.scheduledArrival.getTime() + (flight.arrivalDelayMinutes ?? 0) * 60000)
+}
+
+function toTurnaround(leg: LinkedLeg): Turnaround {
+  const inbound = leg.inbound!
+  const scheduledGroundMinutes = minutesBetween(inbound.scheduledArrival, leg.flight.scheduledDeparture)
+  const actualGroundMinutes = inbound.actualArrival && leg.flight.actualDeparture
+    ? minutesBetween(inbound.actualArrival, leg.flight.actualDeparture)
+    : null
+
+  return {
+    registration: leg.registration,
+    station: leg.flight.origin,
+    inboundFlightId: inbound.id,
+    inboundFlightNumber: inbound.flightNumber,
+    outboundFlightId: leg.flight.id,
+    outboundFlightNumber: leg.flight.flightNumber,
+    scheduledGroundMinutes,
+    actualGroundMinutes,
+    minTurnaroundMinutes: leg.minTurnaroundMinutes,
+    scheduledShort: scheduledGroundMinutes < leg.minTurnaroundMinutes,
+    actualShort: actualGroundMinutes !== null && actualGroundMinutes < leg.minTurnaroundMinutes
+  }
+}
+
+function toRotationLeg(flight: ProcessedFlightData, timeZone: string): RotationLeg {
+  return {
+    flightId: flight.id,
+    flightNumber: flight.flightNumber,
+    origin: flight.origin,
+    destination: flight.destination,
+    scheduledDeparture: formatLocalDateTime(flight.scheduledDeparture, timeZone),
+    scheduledArrival: formatLocalDateTime(flight.scheduledArrival, timeZone),
+    actualDeparture: flight.actualDeparture ? formatLocalDateTime(flight.actualDeparture, timeZone) : undefined,
+    actualArrival: flight.actualArrival ? formatLocalDateTime(flight.actualArrival, timeZone) : undefined,
+    departureDelayMinutes: departureDelay(flight),
+    arrivalDelayMinutes: flight.actualArrival
+      ? minutesBetween(flight.scheduledArrival, flight.actualArrival)
+      : flight.arrivalDelayMinutes ?? null
+  }
+}
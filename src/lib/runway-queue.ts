@@ -0,0 +1,211 @@
+import type { ProcessedFlightData } from '@/lib/flight-data-processor'
+import type { CapacityMeasurement } from '@/lib/capacity'
+import { round } from '@/lib/stats'
+
+// Taxi-out with an empty runway queue, used unless the caller knows better
+export const DEFAULT_UNIMPEDED_TAXI_OUT_MINUTES = 12
+const PERIOD_MINUTES = 15
+// Randomness of the service time in the time-dependent queue, 0.5 for M/D/1
+const SERVICE_RANDOMNESS = 0.5
+
+// Expected runway queue in one quarter hour with traffic
+export interface RunwayQueuePeriod {
+  start: string
+  runwayConfiguration: string | null
+  arrivals: number
+  departures: number
+  movements: number
+  // Declared movements per quarter hour, null without a declaration
+  throughput: number | null
+  // Aircraft still waiting or on the runway from earlier quarter hours
+  carriedOver: number
+  // Scheduled plus carried-over demand as a share (%) of the throughput
+  utilization: number | null
+  // Average aircraft waiting, not counting the one on the runway
+  expectedQueueLength: number | null
+  queueDelayMinutes: number | null
+  expectedTaxiOutMinutes: number | null
+  // Mean ATD - STD of the departures scheduled in the quarter hour that have left
+  departuresMeasured: number
+  observedDepartureDelay: number | null
+  // Observed minus expected queue delay
+  residualMinutes: number | null
+}
+
+export interface RunwayQueueComparison {
+  // Quarter hours with both an estimate and measured departures
+  periods: number
+  // Averages over the measured departures
+  meanEstimatedMinutes: number | null
+  meanObservedMinutes: number | null
+  meanAbsoluteErrorMinutes: number | null
+  // Pearson correlation of estimated and observed delay per quarter hour, null below 3 periods
+  correlation: number | null
+}
+
+export interface RunwayQueueModel {
+  runwayConfigurations: Record<string, string | null>
+  unimpededTaxiOutMinutes: number
+  periods: RunwayQueuePeriod[]
+  modelledPeriods: number
+  peakQueueLength: number | null
+  peakQueueDelayMinutes: number | null
+  peakPeriod: string | null
+  // Weighted by movements and departures respectively
+  averageQueueDelayMinutes: number | null
+  averageTaxiOutMinutes: number | null
+  comparison: RunwayQueueComparison
+}
+
+/**
+ * Model the single runway's mixed arrival and departure stream as an M/D/1
+ * queue per local quarter hour, served at the declared movements per 15
+ * minutes. Queues are time-dependent (Kimber-Hollis coordinate transform): they
+ * build up under random bunching below the throughput, grow by the excess
+ * demand above it, and carry over into the following quarter hours until
+ * worked off. The expected delay is compared with the departures' observed
+ * ATD - STD.
+ */
+export function modelRunwayQueue(
+  airportCode: string,
+  flights: ProcessedFlightData[],
+  capacity: CapacityMeasurement,
+  options: { unimpededTaxiOutMinutes?: number } = {}
+): RunwayQueueModel {
+  const unimpededTaxiOutMinutes = options.unimpededTaxiOutMinutes ?? DEFAULT_UNIMPEDED_TAXI_OUT_MINUTES
+  const observed = collectDepartureDelays(airportCode, flights)
+
+  let backlog = 0
+  let previousStart: number | null = null
+  let previousThroughput: number | null = null
+
+  const periods = capacity.quarterHourly.map((period): RunwayQueuePeriod => {
+    const start = Date.parse(period.start)
+    const throughput = period.declared?.movements ?? null
+    // Quarter hours without traffic in between still work the backlog off
+    if (previousStart !== null && previousThroughput !== null) {
+      const idlePeriods = (start - previousStart) / (PERIOD_MINUTES * 60000) - 1
+      if (idlePeriods > 0) backlog = queueAfter(backlog, 0, previousThroughput * idlePeriods)
+    }
+    previousStart = start
+    previousThroughput = throughput
+
+    const delays = observed.get(start) || []
+    const observedDepartureDelay = delays.length > 0 ? round(delays.reduce((sum, d) => sum + d, 0) / delays.length) : null
+    const unmodelled = {
+      start: period.start,
+      runwayConfiguration: period.runwayConfiguration,
+      arrivals: period.arrivals,
+      departures: period.departures,
+      movements: period.movements,
+      throughput,
+      carriedOver: 0,
+      utilization: null,
+      expectedQueueLength: null,
+      queueDelayMinutes: null,
+      expectedTaxiOutMinutes: null,
+      departuresMeasured: delays.length,
+      observedDepartureDelay,
+      residualMinutes: null
+    }
+    // Without a declared throughput there is nothing to queue against
+    if (throughput === null) {
+      backlog = 0
+      return unmodelled
+    }
+
+    const carriedOver = backlog
+    const rho = period.movements / throughput
+    backlog = queueAfter(carriedOver, rho, throughput)
+    // Simpson's rule over the start, middle and end of the quarter hour
+    const inSystem = (carriedOver + 4 * queueAfter(carriedOver, rho, throughput / 2) + backlog) / 6
+    const busy = Math.min(1, (carriedOver + period.movements) / throughput)
+    const expectedQueueLength = Math.max(0, inSystem - busy)
+    // A movement waits for those queueing ahead and, on average, half of the one on the runway
+    const queueDelayMinutes = round((expectedQueueLength + busy / 2) * (PERIOD_MINUTES / throughput))
+
+    return {
+      ...unmodelled,
+      carriedOver: round(carriedOver),
+      utilization: round(((carriedOver + period.movements) / throughput) * 100),
+      expectedQueueLength: round(expectedQueueLength),
+      queueDelayMinutes,
+      expectedTaxiOutMinutes: round(unimpededTaxiOutMinutes + queueDelayMinutes),
+      residualMinutes: observedDepartureDelay !== null ? round(observedDepartureDelay - queueDelayMinutes) : null
+    }
+  })
+
+  const modelled = periods.filter(p => p.queueDelayMinutes !== null)
+  const peak = modelled.reduce<RunwayQueuePeriod | null>((max, p) => !max || p.queueDelayMinutes! > max.queueDelayMinutes! ? p : max, null)
+
+  return {
+    runwayConfigurations: capacity.runwayConfigurations,
+    unimpededTaxiOutMinutes,
+    periods,
+    modelledPeriods: modelled.length,
+    peakQueueLength: modelled.length > 0 ? Math.max(...modelled.map(p => p.expectedQueueLength!)) : null,
+    peakQueueDelayMinutes: peak?.queueDelayMinutes ?? null,
+    peakPeriod: peak?.start ?? null,
+    averageQueueDelayMinutes: weightedMean(modelled.map(p => [p.queueDelayMinutes!, p.movements])),
+    averageTaxiOutMinutes: weightedMean(modelled.map(p => [p.expectedTaxiOutMinutes!, p.departures])),
+    comparison: compare(modelled.filter(p => p.observedDepartureDelay !== null))
+  }
+}
+
+// Aircraft in the system after `served` service times at utilization `rho`, starting from `initial`
+function queueAfter(initial: number, rho: number, served: number): number {
+  const demand = initial + rho * served
+  const a = ((1 - rho) * served * served + (1 - initial) * served - 2 * (1 - SERVICE_RANDOMNESS) * demand) /
+    (served + 1 - SERVICE_RANDOMNESS)
+  const b = (4 * demand * (served - (1 - SERVICE_RANDOMNESS) * demand)) / (served + 1 - SERVICE_RANDOMNESS)
+  return Math.max(0, (Math.sqrt(a * a + b) - a) / 2)
+}
+
+// ATD - STD of each departed flight, keyed by the start of its scheduled quarter hour
+function collectDepartureDelays(airportCode: string, flights: ProcessedFlightData[]): Map<number, number[]> {
+  const delays = new Map<number, number[]>()
+  for (const flight of flights) {
+    if (flight.origin !== airportCode || !flight.actualDeparture) continue
+    // UTC offsets are whole quarter hours, so UTC and local quarter hours start together
+    const start = Math.floor(flight.scheduledDeparture.getTime() / (PERIOD_MINUTES * 60000)) * PERIOD_MINUTES * 60000
+    const delay = (flight.actualDeparture.getTime() - flight.scheduledDeparture.getTime()) / 60000
+    delays.set(start, [...(delays.get(start) || []), delay])
+  }
+  return delays
+}
+
+function compare(periods: RunwayQueuePeriod[]): RunwayQueueComparison {
+  const estimated = periods.map(p => p.queueDelayMinutes!)
+  const observed = periods.map(p => p.observedDepartureDelay!)
+  const weights = periods.map(p => p.departuresMeasured)
+
+  return {
+    periods: periods.length,
+    meanEstimatedMinutes: weightedMean(estimated.map((value, i) => [value, weights[i]])),
+    meanObservedMinutes: weightedMean(observed.map((value, i) => [value, weights[i]])),
+    meanAbsoluteErrorMinutes: weightedMean(periods.map(p => [Math.abs(p.residualMinutes!), p.departuresMeasured])),
+    correlation: correlate(estimated, observed)
+  }
+}
+
+function correlate(xs: number[], ys: number[]): number | null {
+  if (xs.length < 3) return null
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length
+  let covariance = 0
+  let varianceX = 0
+  let varianceY = 0
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY)
+    varianceX += (x - meanX) ** 2
+    varianceY += (ys[i] - meanY) ** 2
+  })
+  if (varianceX === 0 || varianceY === 0) return null
+  return Math.round((covariance / Math.sqrt(varianceX * varianceY)) * 100) / 100
+}
+
+function weightedMean(values: [value: number, weight: number][]): number | null {
+  const totalWeight = values.reduce((sum, [, weight]) => sum + weight, 0)
+  if (totalWeight === 0) return null
+  return round(values.reduce((sum, [value, weight]) => sum + value * weight, 0) / totalWeight)
+}
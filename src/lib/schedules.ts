@@ -0,0 +1,565 @@
+import { z } from 'zod'
+import { Flight, FlightEventSource, FlightStatus, Schedule, ScheduledFlight, ScheduleStatus } from '@prisma/client'
+import { db } from '@/lib/db'
+import { FlightDataProcessor } from '@/lib/flight-data-processor'
+import { AirlineRegistry } from '@/lib/airlines'
+import { getIATASeasonBounds } from '@/lib/ssim'
+import { getLocalParts, zonedTimeToUtc } from '@/lib/timezone'
+import { createFlightWithHistory, updateFlightWithHistory } from '@/lib/flight-events'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const localTime = (field: string) =>
+  z.string().trim().regex(/^([01]\d|2[0-3]):[0-5]\d$/, `${field} must be HH:MM`)
+const iataCode = (field: string) =>
+  z.string().trim().toUpperCase().regex(/^[A-Z0-9]{3}$/, `${field} must be a 3-letter IATA airport code`)
+const localDate = z.string().trim().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD')
+
+export const scheduleSchema = z.object({
+  season: z.string().trim().toUpperCase().regex(/^[SW]\d{2}$/, 'Season must look like "S25" or "W25"'),
+  name: z.string().trim().min(1).optional(),
+  // Start the draft with the flights of another version at the airport
+  copyFrom: z.string().min(1).optional()
+})
+
+export const scheduledFlightFields = z.object({
+  flightNumber: z.string().trim().toUpperCase().min(1, 'Flight number is required'),
+  origin: iataCode('Origin'),
+  destination: iataCode('Destination'),
+  // Local time at the origin
+  departureTime: localTime('Departure time'),
+  // Local time at the destination
+  arrivalTime: localTime('Arrival time'),
+  // Days after departure the flight arrives; left out means the same day
+  arrivalDayOffset: z.number().int().min(0).max(2).optional(),
+  daysOfOperation: z
+    .string()
+    .trim()
+    .regex(/^[1-7]{1,7}$/, 'Days of operation must be digits 1 (Monday) to 7 (Sunday)')
+    .transform(days => Array.from(new Set(days)).sort().join('')),
+  effectiveFrom: z.coerce.date().nullable().optional(),
+  effectiveTo: z.coerce.date().nullable().optional(),
+  aircraft: z.string().trim().min(1).nullable().optional()
+})
+
+export const scheduledFlightSchema = scheduledFlightFields
+  .refine(f => (f.arrivalDayOffset || 0) > 0 || f.arrivalTime > f.departureTime, {
+    message: 'Arrival must be after departure; set arrivalDayOffset for overnight flights',
+    path: ['arrivalTime']
+  })
+  .refine(f => !f.effectiveFrom || !f.effectiveTo || f.effectiveTo >= f.effectiveFrom, {
+    message: 'Effective end must not be before its start',
+    path: ['effectiveTo']
+  })
+
+export type ScheduledFlightInput = z.infer<typeof scheduledFlightSchema>
+
+// Local dates (YYYY-MM-DD) to generate flights for, clamped to the season
+export const flightGenerationSchema = z.object({
+  from: localDate.optional(),
+  to: localDate.optional()
+})
+
+export type ScheduleWithFlights = Schedule & { flights: ScheduledFlight[] }
+
+// A scheduled flight on some days of the week, as shown in a diff
+export interface ScheduledFlightPattern {
+  flightNumber: string
+  origin: string
+  destination: string
+  days: string
+  departureTime: string
+  arrivalTime: string
+  arrivalDayOffset: number
+  aircraft: string | null
+}
+
+export interface ScheduleChange {
+  flightNumber: string
+  origin: string
+  destination: string
+  days: string
+  before: Omit<ScheduledFlightPattern, 'flightNumber' | 'origin' | 'destination' | 'days'> & { effectiveFrom: Date | null; effectiveTo: Date | null }
+  after: ScheduleChange['before']
+}
+
+export interface ScheduleDiff {
+  from: Pick<Schedule, 'id' | 'season' | 'version' | 'status'>
+  to: Pick<Schedule, 'id' | 'season' | 'version' | 'status'>
+  added: ScheduledFlightPattern[]
+  cancelled: ScheduledFlightPattern[]
+  // Same flight and day with a different departure or arrival time
+  retimed: ScheduleChange[]
+  // Same times but a different aircraft or period of operation
+  changed: ScheduleChange[]
+  unchanged: number
+}
+
+export interface FlightGenerationReport {
+  scheduleId: string
+  season: string
+  version: number
+  from: string | null
+  to: string | null
+  created: number
+  updated: number
+  cancelled: number
+  unchanged: number
+  // Flights that have already operated or did not come from a schedule are left as they are
+  skipped: number
+}
+
+export class ScheduleNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Unknown schedule ${id}`)
+    this.name = 'ScheduleNotFoundError'
+  }
+}
+
+export class ScheduleStateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ScheduleStateError'
+  }
+}
+
+export class ScheduleConflictError extends Error {
+  constructor(flight: PlannedDays, clash: PlannedDays) {
+    super(`${flight.flightNumber} ${flight.origin}-${flight.destination} already operates on days ${clash.daysOfOperation} in this schedule`)
+    this.name = 'ScheduleConflictError'
+  }
+}
+
+/**
+ * Create the next draft version of an airport's schedule for a season
+ */
+export async function createSchedule(airportCode: string, input: z.infer<typeof scheduleSchema>): Promise<ScheduleWithFlights> {
+  const source = input.copyFrom
+    ? await db.schedule.findUnique({ where: { id: input.copyFrom, airportCode }, include: { flights: true } })
+    : null
+  if (input.copyFrom && !source) throw new ScheduleNotFoundError(input.copyFrom)
+
+  return db.$transaction(async tx => {
+    const latest = await tx.schedule.findFirst({
+      where: { airportCode, season: input.season },
+      orderBy: { version: 'desc' }
+    })
+
+    return tx.schedule.create({
+      data: {
+        airportCode,
+        season: input.season,
+        version: (latest?.version || 0) + 1,
+        name: input.name,
+        flights: {
+          // Periods of operation only carry over within the same season
+          create: (source?.flights || []).map(flight => ({
+            ...toFlightData(flight),
+            effectiveFrom: source?.season === input.season ? flight.effectiveFrom : null,
+            effectiveTo: source?.season === input.season ? flight.effectiveTo : null
+          }))
+        }
+      },
+      include: { flights: { orderBy: [{ departureTime: 'asc' }, { flightNumber: 'asc' }] } }
+    })
+  })
+}
+
+/**
+ * Get a schedule version with its flights in departure time order
+ */
+export async function getSchedule(airportCode: string, id: string): Promise<ScheduleWithFlights> {
+  const schedule = await db.schedule.findUnique({
+    where: { id, airportCode },
+    include: { flights: { orderBy: [{ departureTime: 'asc' }, { flightNumber: 'asc' }] } }
+  })
+  if (!schedule) throw new ScheduleNotFoundError(id)
+  return schedule
+}
+
+/**
+ * Add flights to a draft. Throws ScheduleStateError when the schedule is not a
+ * draft and ScheduleConflictError when a flight already operates on one of the days.
+ */
+export async function addScheduledFlights(airportCode: string, scheduleId: string, flights: ScheduledFlightInput[]): Promise<ScheduledFlight[]> {
+  const schedule = await getDraft(airportCode, scheduleId)
+  const seen: PlannedDays[] = [...schedule.flights]
+  for (const flight of flights) {
+    assertNoOverlap(flight, seen)
+    seen.push(flight)
+  }
+
+  return db.$transaction(flights.map(flight => db.scheduledFlight.create({ data: { ...flight, scheduleId } })))
+}
+
+/**
+ * Change a flight in a draft. The changed flight is validated as a whole and
+ * a ZodError thrown when it no longer holds together.
+ */
+export async function updateScheduledFlight(
+  airportCode: string,
+  scheduleId: string,
+  id: string,
+  changes: Partial<z.input<typeof scheduledFlightFields>>
+): Promise<ScheduledFlight> {
+  const schedule = await getDraft(airportCode, scheduleId)
+  const existing = schedule.flights.find(flight => flight.id === id)
+  if (!existing) throw new ScheduleNotFoundError(`flight ${id}`)
+
+  const flight = scheduledFlightSchema.parse({ ...toFlightData(existing), ...changes })
+  assertNoOverlap(flight, schedule.flights.filter(other => other.id !== id))
+  return db.scheduledFlight.update({ where: { id }, data: flight })
+}
+
+/**
+ * Remove a flight from a draft
+ */
+export async function deleteScheduledFlight(airportCode: string, scheduleId: string, id: string): Promise<ScheduledFlight> {
+  const schedule = await getDraft(airportCode, scheduleId)
+  if (!schedule.flights.some(flight => flight.id === id)) throw new ScheduleNotFoundError(`flight ${id}`)
+  return db.scheduledFlight.delete({ where: { id } })
+}
+
+/**
+ * Publish a draft. The version published before it for the season becomes superseded.
+ */
+export async function publishSchedule(airportCode: string, id: string): Promise<Schedule> {
+  const schedule = await getDraft(airportCode, id)
+  if (schedule.flights.length === 0) {
+    throw new ScheduleStateError(`${describe(schedule)} has no flights to publish`)
+  }
+
+  return db.$transaction(async tx => {
+    await tx.schedule.updateMany({
+      where: { airportCode, season: schedule.season, status: ScheduleStatus.PUBLISHED },
+      data: { status: ScheduleStatus.SUPERSEDED }
+    })
+    return tx.schedule.update({
+      where: { id },
+      data: { status: ScheduleStatus.PUBLISHED, publishedAt: new Date() }
+    })
+  })
+}
+
+/**
+ * Compare two schedule versions flight by flight and day by day
+ */
+export function diffSchedules(from: ScheduleWithFlights, to: ScheduleWithFlights): ScheduleDiff {
+  const before = expandByDay(from.flights)
+  const after = expandByDay(to.flights)
+  const added: DayEntry[] = []
+  const cancelled: DayEntry[] = []
+  const retimed: [DayEntry, DayEntry][] = []
+  const changed: [DayEntry, DayEntry][] = []
+  let unchanged = 0
+
+  for (const [key, entry] of after) {
+    const previous = before.get(key)
+    if (!previous) {
+      added.push(entry)
+    } else if (timesOf(previous.flight) !== timesOf(entry.flight)) {
+      retimed.push([previous, entry])
+    } else if (detailsOf(previous.flight) !== detailsOf(entry.flight)) {
+      changed.push([previous, entry])
+    } else {
+      unchanged++
+    }
+  }
+  for (const [key, entry] of before) {
+    if (!after.has(key)) cancelled.push(entry)
+  }
+
+  const summary = (schedule: Schedule) => ({ id: schedule.id, season: schedule.season, version: schedule.version, status: schedule.status })
+  return {
+    from: summary(from),
+    to: summary(to),
+    added: toPatterns(added),
+    cancelled: toPatterns(cancelled),
+    retimed: toChanges(retimed),
+    changed: toChanges(changed),
+    unchanged
+  }
+}
+
+/**
+ * Create or update the airport's flights from a published schedule for the
+ * season's remaining days, or the given part of it.
+ *
+ * Departure times are local at the origin and arrival times local at the
+ * destination, on the days of operation at the origin. Flights are matched by
+ * number, route and local departure date at the origin. Flights that
+ * have operated are left alone, as are flights that did not come from a
+ * schedule; flights generated from another version that are no longer planned
+ * are cancelled. Every change goes into the flight event history.
+ */
+export async function generateFlights(
+  airportCode: string,
+  scheduleId: string,
+  options: z.infer<typeof flightGenerationSchema> = {}
+): Promise<FlightGenerationReport> {
+  const schedule = await getSchedule(airportCode, scheduleId)
+  if (schedule.status !== ScheduleStatus.PUBLISHED) {
+    throw new ScheduleStateError(`${describe(schedule)} is ${schedule.status}; only the published version generates flights`)
+  }
+
+  const processor = FlightDataProcessor.getInstance()
+  const airlines = AirlineRegistry.getInstance()
+  const timeZone = await processor.getAirportTimeZone(airportCode)
+  const season = getIATASeasonBounds(schedule.season)!
+  const today = getLocalParts(new Date(), timeZone)
+
+  const first = Math.max(
+    season.start.getTime(),
+    Date.UTC(today.year, today.month - 1, today.day),
+    options.from ? Date.parse(options.from) : 0
+  )
+  const last = Math.min(season.end.getTime() - DAY_MS, options.to ? Date.parse(options.to) : Infinity)
+
+  const report: FlightGenerationReport = {
+    scheduleId: schedule.id,
+    season: schedule.season,
+    version: schedule.version,
+    from: first <= last ? toISODate(first) : null,
+    to: first <= last ? toISODate(last) : null,
+    created: 0,
+    updated: 0,
+    cancelled: 0,
+    unchanged: 0,
+    skipped: 0
+  }
+  if (first > last) return report
+
+  const reference = describe(schedule)
+  // A day either side, since the origin's date can differ from the airport's
+  const existing = await db.flight.findMany({
+    where: {
+      airportCode,
+      scheduledDeparture: { gte: toInstant(first - DAY_MS, 0, timeZone), lt: toInstant(last + 2 * DAY_MS, 0, timeZone) }
+    }
+  })
+  const byKey = new Map<string, Flight>()
+  for (const flight of existing) {
+    const { year, month, day } = getLocalParts(flight.scheduledDeparture, await processor.getAirportTimeZone(flight.origin))
+    const departureDay = Date.UTC(year, month - 1, day)
+    if (departureDay >= first && departureDay <= last) byKey.set(flightKey(flight, departureDay), flight)
+  }
+  const planned = new Set<string>()
+
+  for (let day = first; day <= last; day += DAY_MS) {
+    const ssimDay = String(((new Date(day).getUTCDay() + 6) % 7) + 1)
+
+    for (const planFlight of schedule.flights) {
+      if (!planFlight.daysOfOperation.includes(ssimDay)) continue
+      if (planFlight.effectiveFrom && day < planFlight.effectiveFrom.getTime()) continue
+      if (planFlight.effectiveTo && day > planFlight.effectiveTo.getTime()) continue
+
+      const key = flightKey(planFlight, day)
+      planned.add(key)
+      const scheduledDeparture = toInstant(day, toMinutes(planFlight.departureTime), await processor.getAirportTimeZone(planFlight.origin))
+      const scheduledArrival = toInstant(
+        day,
+        toMinutes(planFlight.arrivalTime) + planFlight.arrivalDayOffset * 1440,
+        await processor.getAirportTimeZone(planFlight.destination)
+      )
+      const flight = byKey.get(key)
+
+      if (!flight) {
+        const carrier = await airlines.getFlightAirlineFields(planFlight.flightNumber)
+        await createFlightWithHistory({
+          flightNumber: planFlight.flightNumber,
+          airline: carrier.airline,
+          airlineCode: carrier.airlineCode,
+          origin: planFlight.origin,
+          destination: planFlight.destination,
+          scheduledDeparture,
+          scheduledArrival,
+          status: FlightStatus.SCHEDULED,
+          aircraft: planFlight.aircraft,
+          scheduleId: schedule.id,
+          airportCode
+        }, FlightEventSource.SCHEDULE, reference)
+        report.created++
+      } else if (hasOperated(flight) || !flight.scheduleId) {
+        // Live data and flights from imports or feeds are not the schedule's to retime
+        report.skipped++
+      } else if (
+        flight.scheduleId === schedule.id &&
+        flight.status !== FlightStatus.CANCELLED &&
+        flight.scheduledDeparture.getTime() === scheduledDeparture.getTime() &&
+        flight.scheduledArrival.getTime() === scheduledArrival.getTime()
+      ) {
+        report.unchanged++
+      } else {
+        await updateFlightWithHistory(flight.id, {
+          scheduledDeparture,
+          scheduledArrival,
+          scheduleId: schedule.id,
+          ...(flight.status === FlightStatus.CANCELLED && { status: FlightStatus.SCHEDULED })
+        }, FlightEventSource.SCHEDULE, reference)
+        report.updated++
+      }
+    }
+  }
+
+  // Flights an earlier version planned that this one drops
+  for (const [key, flight] of byKey) {
+    if (planned.has(key) || !flight.scheduleId || flight.scheduleId === schedule.id) continue
+    if (hasOperated(flight) || flight.status === FlightStatus.CANCELLED) continue
+    await updateFlightWithHistory(flight.id, { status: FlightStatus.CANCELLED, scheduleId: schedule.id }, FlightEventSource.SCHEDULE, reference)
+    report.cancelled++
+  }
+
+  processor.invalidateCache(airportCode)
+  return report
+}
+
+interface DayEntry {
+  day: string
+  flight: ScheduledFlight
+}
+
+type PlannedDays = Pick<ScheduledFlight, 'flightNumber' | 'origin' | 'destination' | 'daysOfOperation'>
+
+async function getDraft(airportCode: string, id: string): Promise<ScheduleWithFlights> {
+  const schedule = await getSchedule(airportCode, id)
+  if (schedule.status !== ScheduleStatus.DRAFT) {
+    throw new ScheduleStateError(`${describe(schedule)} is ${schedule.status}; only drafts can be changed`)
+  }
+  return schedule
+}
+
+// A flight may only be planned once per route and day of the week in a version
+function assertNoOverlap(flight: PlannedDays, others: PlannedDays[]) {
+  const clash = others.find(other =>
+    other.flightNumber === flight.flightNumber &&
+    other.origin === flight.origin &&
+    other.destination === flight.destination &&
+    other.daysOfOperation.split('').some(day => flight.daysOfOperation.includes(day))
+  )
+  if (clash) throw new ScheduleConflictError(flight, clash)
+}
+
+function expandByDay(flights: ScheduledFlight[]): Map<string, DayEntry> {
+  const entries = new Map<string, DayEntry>()
+  for (const flight of flights) {
+    for (const day of flight.daysOfOperation) {
+      entries.set(`${flight.flightNumber}|${flight.origin}|${flight.destination}|${day}`, { day, flight })
+    }
+  }
+  return entries
+}
+
+function timesOf(flight: ScheduledFlight): string {
+  return `${flight.departureTime}|${flight.arrivalTime}|${flight.arrivalDayOffset}`
+}
+
+function detailsOf(flight: ScheduledFlight): string {
+  return `${flight.aircraft}|${flight.effectiveFrom?.getTime()}|${flight.effectiveTo?.getTime()}`
+}
+
+// Merge per-day entries with the same flight and timings back into day-of-week patterns
+function toPatterns(entries: DayEntry[]): ScheduledFlightPattern[] {
+  const patterns = new Map<string, ScheduledFlightPattern>()
+  for (const { day, flight } of entries) {
+    const key = `${flight.flightNumber}|${flight.origin}|${flight.destination}|${timesOf(flight)}|${flight.aircraft}`
+    const pattern = patterns.get(key)
+    if (pattern) {
+      pattern.days = sortDays(pattern.days + day)
+    } else {
+      patterns.set(key, {
+        flightNumber: flight.flightNumber,
+        origin: flight.origin,
+        destination: flight.destination,
+        days: day,
+        departureTime: flight.departureTime,
+        arrivalTime: flight.arrivalTime,
+        arrivalDayOffset: flight.arrivalDayOffset,
+        aircraft: flight.aircraft
+      })
+    }
+  }
+  return sortPatterns(Array.from(patterns.values()))
+}
+
+function toChanges(pairs: [DayEntry, DayEntry][]): ScheduleChange[] {
+  const changes = new Map<string, ScheduleChange>()
+  const version = (flight: ScheduledFlight) => ({
+    departureTime: flight.departureTime,
+    arrivalTime: flight.arrivalTime,
+    arrivalDayOffset: flight.arrivalDayOffset,
+    aircraft: flight.aircraft,
+    effectiveFrom: flight.effectiveFrom,
+    effectiveTo: flight.effectiveTo
+  })
+
+  for (const [previous, next] of pairs) {
+    const flight = next.flight
+    const key = `${flight.flightNumber}|${flight.origin}|${flight.destination}|${timesOf(previous.flight)}|${detailsOf(previous.flight)}|${timesOf(flight)}|${detailsOf(flight)}`
+    const change = changes.get(key)
+    if (change) {
+      change.days = sortDays(change.days + next.day)
+    } else {
+      changes.set(key, {
+        flightNumber: flight.flightNumber,
+        origin: flight.origin,
+        destination: flight.destination,
+        days: next.day,
+        before: version(previous.flight),
+        after: version(flight)
+      })
+    }
+  }
+  return sortPatterns(Array.from(changes.values()))
+}
+
+function sortDays(days: string): string {
+  return days.split('').sort().join('')
+}
+
+function sortPatterns<T extends { flightNumber: string; days: string }>(patterns: T[]): T[] {
+  return patterns.sort((a, b) => a.flightNumber.localeCompare(b.flightNumber) || a.days.localeCompare(b.days))
+}
+
+function toFlightData(flight: ScheduledFlight) {
+  return {
+    flightNumber: flight.flightNumber,
+    origin: flight.origin,
+    destination: flight.destination,
+    departureTime: flight.departureTime,
+    arrivalTime: flight.arrivalTime,
+    arrivalDayOffset: flight.arrivalDayOffset,
+    daysOfOperation: flight.daysOfOperation,
+    effectiveFrom: flight.effectiveFrom,
+    effectiveTo: flight.effectiveTo,
+    aircraft: flight.aircraft
+  }
+}
+
+function flightKey(flight: Pick<Flight, 'flightNumber' | 'origin' | 'destination'>, day: number): string {
+  return `${flight.flightNumber}|${flight.origin}|${flight.destination}|${day}`
+}
+
+function hasOperated(flight: Flight): boolean {
+  return Boolean(flight.actualDeparture || flight.actualArrival) ||
+    flight.status === FlightStatus.DEPARTED ||
+    flight.status === FlightStatus.ARRIVED
+}
+
+// `day` is a local date as a UTC midnight
+function toInstant(day: number, minutes: number, timeZone: string): Date {
+  const date = new Date(day)
+  return zonedTimeToUtc(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), minutes, timeZone)
+}
+
+function toMinutes(hhmm: string): number {
+  const [hours, minutes] = hhmm.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+function toISODate(day: number): string {
+  return new Date(day).toISOString().substring(0, 10)
+}
+
+function describe(schedule: Schedule): string {
+  return `Schedule ${schedule.season} v${schedule.version}`
+}
@@ -1,5 +1,14 @@
 import { Server } from 'socket.io'
+import { AnalyticsType, FlightEventSource, FlightStatus } from '@prisma/client'
 import { db } from '@/lib/db'
+import { updateFlightWithHistory } from '@/lib/flight-events'
+import { analyticsPayloadSchemas } from '@/lib/analytics-payloads'
+
+// server.ts and the Next.js route bundles load this module separately,
+// so the Socket.IO server is shared through globalThis like the Prisma client
+const globalForSocket = globalThis as unknown as {
+  io: Server | undefined
+}
 
 interface FlightUpdate {
   flightId: string
@@ -7,6 +16,9 @@ interface FlightUpdate {
   delayMinutes?: number
   gate?: string
   terminal?: string
+  actualDeparture?: string
+  actualArrival?: string
+  source?: string
   timestamp: string
 }
 
@@ -25,7 +37,17 @@ interface AnalyticsUpdate {
   timestamp: string
 }
 
+/**
+ * Broadcast a flight change to everyone in the flight's airport room.
+ * Does nothing when no Socket.IO server is running (e.g. in scripts).
+ */
+export const broadcastFlightStatus = (airportCode: string, update: FlightUpdate) => {
+  globalForSocket.io?.to(`airport-${airportCode}`).emit('flight-status-changed', update)
+}
+
 export const setupSocket = (io: Server) => {
+  globalForSocket.io = io
+
   io.on('connection', (socket) => {
     console.log('Client connected:', socket.id)
 
@@ -134,20 +156,27 @@ export const setupSocket = (io: Server) => {
 
     // Handle flight status updates
     socket.on('update-flight-status', async (update: FlightUpdate) => {
+      if (!Object.values(FlightStatus).includes(update.status as FlightStatus)) {
+        socket.emit('error', { message: `Invalid flight status "${update.status}"` })
+        return
+      }
+
       try {
-        await db.flight.update({
-          where: { id: update.flightId },
-          data: {
-            status: update.status as any,
+        const flight = await updateFlightWithHistory(
+          update.flightId,
+          {
+            status: update.status as FlightStatus,
             delayMinutes: update.delayMinutes,
             gate: update.gate,
             terminal: update.terminal,
             updatedAt: new Date()
-          }
-        })
+          },
+          FlightEventSource.SOCKET,
+          update.source || socket.id
+        )
 
         // Broadcast update to all clients in the airport room
-        io.to(`airport-${update.flightId.substring(0, 3)}`).emit('flight-status-changed', update)
+        io.to(`airport-${flight.airportCode}`).emit('flight-status-changed', { ...update, source: 'socket' })
         
         console.log('Flight status updated:', update)
       } catch (error) {
@@ -180,12 +209,23 @@ export const setupSocket = (io: Server) => {
     // Handle custom analytics events
     socket.on('analytics-event', async (event: AnalyticsUpdate) => {
       try {
+        if (!(event.type in analyticsPayloadSchemas)) {
+          socket.emit('error', { message: `Unknown analytics type ${event.type}` })
+          return
+        }
+        const type = event.type as AnalyticsType
+        const parsed = analyticsPayloadSchemas[type].safeParse(event.data)
+        if (!parsed.success) {
+          socket.emit('error', { message: `Invalid ${type} analytics data` })
+          return
+        }
+
         // Store analytics event
         await db.analytics.create({
           data: {
             airportCode: event.airportCode,
-            type: event.type as any,
-            data: JSON.stringify(event.data),
+            type,
+            data: parsed.data,
             confidence: 0.9,
             timestamp: new Date()
           }
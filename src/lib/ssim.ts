@@ -0,0 +1,511 @@
+import { RejectedRow } from '@/lib/flight-csv-parser'
+import { formatUtcOffset, getUtcOffsetMinutes, parseUtcOffset } from '@/lib/timezone'
+
+// IATA SSIM Chapter 7 records are fixed width
+const RECORD_LENGTH = 200
+const BLOCK_SIZE = 5
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// SSIM carries IATA aircraft type codes, Flight.aircraft uses ICAO ones
+export const IATA_TO_ICAO_AIRCRAFT: Record<string, string> = {
+  '32N': 'A20N',
+  '32Q': 'A21N',
+  '319': 'A319',
+  '320': 'A320',
+  '321': 'A321',
+  '333': 'A333',
+  '359': 'A359',
+  '73H': 'B738',
+  '7M8': 'B38M',
+  '788': 'B788',
+  '789': 'B789',
+  '77W': 'B77W',
+  'AT7': 'AT76'
+}
+
+const ICAO_TO_IATA_AIRCRAFT: Record<string, string> = Object.fromEntries(
+  Object.entries(IATA_TO_ICAO_AIRCRAFT).map(([iata, icao]) => [icao, iata])
+)
+
+// Type 3 flight leg record
+export interface SSIMFlightLeg {
+  line: number
+  airline: string
+  flightNumber: string
+  operationalSuffix: string
+  itineraryVariation: string
+  legSequence: string
+  serviceType: string
+  periodFrom: Date
+  periodTo: Date | null
+  daysOfOperation: number[]
+  frequencyRate: number
+  departureStation: string
+  scheduledDepartureTime: string
+  departureUtcOffset: number
+  arrivalStation: string
+  scheduledArrivalTime: string
+  arrivalUtcOffset: number
+  aircraftType: string
+  departureDateVariation: number
+  arrivalDateVariation: number
+}
+
+export interface SSIMParseResult {
+  timeMode: 'L' | 'U'
+  airline?: string
+  season?: string
+  legs: SSIMFlightLeg[]
+  rejected: RejectedRow[]
+}
+
+// A leg expanded onto a single operating date
+export interface SSIMDatedFlight {
+  source: string
+  flightNumber: string
+  origin: string
+  destination: string
+  scheduledDeparture: Date
+  scheduledArrival: Date
+  aircraft?: string
+}
+
+// Minimal flight shape the exporter needs; Flight rows satisfy it
+export interface SSIMExportFlight {
+  flightNumber: string
+  origin: string
+  destination: string
+  scheduledDeparture: Date
+  scheduledArrival: Date
+  aircraft?: string | null
+  status?: string
+}
+
+export interface SSIMExportOptions {
+  // Station code -> IANA time zone, used to write local times
+  timeZones: Record<string, string>
+  defaultTimeZone: string
+  airline?: string
+  title?: string
+  creationDate?: Date
+}
+
+export interface SSIMExportResult {
+  content: string
+  legCount: number
+  skipped: { flightNumber: string; reason: string }[]
+}
+
+/**
+ * Parse an SSIM Chapter 7 file, keeping its type 3 flight leg records
+ */
+export function parseSSIM(content: string): SSIMParseResult {
+  const lines = content.split(/\r?\n/)
+  const legs: SSIMFlightLeg[] = []
+  const rejected: RejectedRow[] = []
+  let timeMode: 'L' | 'U' = 'L'
+  let airline: string | undefined
+  let season: string | undefined
+
+  lines.forEach((raw, index) => {
+    const line = index + 1
+    const record = raw.padEnd(RECORD_LENGTH, ' ')
+    const field = (start: number, end: number) => record.substring(start - 1, end)
+
+    switch (record[0]) {
+      case '2':
+        timeMode = field(2, 2) === 'U' ? 'U' : 'L'
+        airline = field(3, 5).trim() || undefined
+        season = field(11, 13).trim() || undefined
+        return
+      case '3': {
+        const leg = parseFlightLegRecord(field, line)
+        if (typeof leg === 'string') {
+          rejected.push({ line, reason: leg, raw })
+        } else {
+          legs.push(leg)
+        }
+        return
+      }
+      default:
+        // Header (1), segment data (4), trailer (5) and zero filler records carry no legs
+        return
+    }
+  })
+
+  return { timeMode, airline, season, legs, rejected }
+}
+
+/**
+ * Expand flight leg records into dated flights for the days they operate within [from, to]
+ */
+export function expandSSIMLegs(result: SSIMParseResult, from: Date, to: Date): SSIMDatedFlight[] {
+  const flights: SSIMDatedFlight[] = []
+  const rangeStart = startOfUTCDay(from)
+  const rangeEnd = startOfUTCDay(to)
+
+  for (const leg of result.legs) {
+    const first = Math.max(leg.periodFrom.getTime(), rangeStart.getTime())
+    const last = Math.min((leg.periodTo || rangeEnd).getTime(), rangeEnd.getTime())
+
+    for (let day = first; day <= last; day += DAY_MS) {
+      const operatingDate = new Date(day)
+      // SSIM numbers days Monday = 1 ... Sunday = 7
+      const ssimDay = ((operatingDate.getUTCDay() + 6) % 7) + 1
+      if (!leg.daysOfOperation.includes(ssimDay)) continue
+
+      // Frequency rate 2 means the leg only operates every other week of the period
+      const weeksSinceStart = Math.floor((day - leg.periodFrom.getTime()) / (7 * DAY_MS))
+      if (leg.frequencyRate > 1 && weeksSinceStart % leg.frequencyRate !== 0) continue
+
+      const departureOffset = result.timeMode === 'U' ? 0 : leg.departureUtcOffset
+      const arrivalOffset = result.timeMode === 'U' ? 0 : leg.arrivalUtcOffset
+
+      flights.push({
+        source: `SSIM line ${leg.line}, ${formatISODate(operatingDate)}`,
+        flightNumber: leg.flightNumber,
+        origin: leg.departureStation,
+        destination: leg.arrivalStation,
+        scheduledDeparture: toInstant(operatingDate, leg.departureDateVariation, leg.scheduledDepartureTime, departureOffset),
+        scheduledArrival: toInstant(operatingDate, leg.arrivalDateVariation, leg.scheduledArrivalTime, arrivalOffset),
+        aircraft: IATA_TO_ICAO_AIRCRAFT[leg.aircraftType] || leg.aircraftType || undefined
+      })
+    }
+  }
+
+  return flights.sort((a, b) => a.scheduledDeparture.getTime() - b.scheduledDeparture.getTime())
+}
+
+/**
+ * Write dated flights out as an SSIM Chapter 7 file in local time mode.
+ *
+ * Flights with the same number, stations, local times and aircraft type are
+ * collapsed into one leg record per uninterrupted period of operation.
+ * Cancelled flights are left out.
+ */
+export function exportSSIM(flights: SSIMExportFlight[], options: SSIMExportOptions): SSIMExportResult {
+  const skipped: SSIMExportResult['skipped'] = []
+  const groups = new Map<string, { leg: Omit<SSIMFlightLeg, 'line' | 'periodFrom' | 'periodTo' | 'daysOfOperation' | 'itineraryVariation'>; dates: Set<number> }>()
+
+  for (const flight of flights) {
+    if (flight.status === 'CANCELLED') continue
+
+    const designator = splitFlightDesignator(flight.flightNumber)
+    if (!designator) {
+      skipped.push({ flightNumber: flight.flightNumber, reason: 'Flight number is not an IATA airline designator plus number' })
+      continue
+    }
+
+    const departureZone = options.timeZones[flight.origin] || options.defaultTimeZone
+    const arrivalZone = options.timeZones[flight.destination] || options.defaultTimeZone
+    const departureOffset = getUtcOffsetMinutes(departureZone, flight.scheduledDeparture)
+    const arrivalOffset = getUtcOffsetMinutes(arrivalZone, flight.scheduledArrival)
+    const localDeparture = new Date(flight.scheduledDeparture.getTime() + departureOffset * 60000)
+    const localArrival = new Date(flight.scheduledArrival.getTime() + arrivalOffset * 60000)
+    const operatingDate = startOfUTCDay(localDeparture)
+    const arrivalDateVariation = Math.round((startOfUTCDay(localArrival).getTime() - operatingDate.getTime()) / DAY_MS)
+    const aircraftType = toIATAAircraftType(flight.aircraft)
+
+    const leg = {
+      airline: designator.airline,
+      flightNumber: flight.flightNumber,
+      operationalSuffix: designator.suffix,
+      legSequence: '01',
+      serviceType: 'J',
+      frequencyRate: 1,
+      departureStation: flight.origin,
+      scheduledDepartureTime: formatHHMM(localDeparture),
+      departureUtcOffset: departureOffset,
+      arrivalStation: flight.destination,
+      scheduledArrivalTime: formatHHMM(localArrival),
+      arrivalUtcOffset: arrivalOffset,
+      aircraftType,
+      departureDateVariation: 0,
+      arrivalDateVariation
+    }
+
+    const key = [
+      flight.flightNumber, leg.departureStation, leg.arrivalStation, leg.scheduledDepartureTime,
+      leg.scheduledArrivalTime, departureOffset, arrivalOffset, aircraftType, arrivalDateVariation
+    ].join('|')
+
+    const group = groups.get(key) || { leg, dates: new Set<number>() }
+    group.dates.add(operatingDate.getTime())
+    groups.set(key, group)
+  }
+
+  const legRecords: string[] = []
+  const variationsByFlight = new Map<string, number>()
+  const sortedGroups = Array.from(groups.values()).sort((a, b) =>
+    a.leg.flightNumber.localeCompare(b.leg.flightNumber) || Math.min(...a.dates) - Math.min(...b.dates)
+  )
+
+  for (const { leg, dates } of sortedGroups) {
+    for (const period of toPeriods(Array.from(dates))) {
+      const variation = (variationsByFlight.get(leg.flightNumber) || 0) + 1
+      variationsByFlight.set(leg.flightNumber, variation)
+      legRecords.push(formatFlightLegRecord({
+        ...leg,
+        itineraryVariation: String(variation % 100).padStart(2, '0'),
+        periodFrom: period.from,
+        periodTo: period.to,
+        daysOfOperation: period.days
+      }))
+    }
+  }
+
+  const allDates = Array.from(groups.values()).flatMap(g => Array.from(g.dates))
+  const periodFrom = allDates.length > 0 ? new Date(Math.min(...allDates)) : new Date()
+  const periodTo = allDates.length > 0 ? new Date(Math.max(...allDates)) : new Date()
+  const creationDate = options.creationDate || new Date()
+  const airline = options.airline || sortedGroups[0]?.leg.airline || 'ZZ'
+
+  const content = assembleDataSet(
+    [
+      formatField('1AIRLINE STANDARD SCHEDULE DATA SET', RECORD_LENGTH)
+    ],
+    [
+      formatField('2', 1) + 'L' + formatField(airline, 3) + formatField('', 5) + formatField(getIATASeason(periodFrom), 3) +
+        ' ' + formatSSIMDate(periodFrom) + formatSSIMDate(periodTo) + formatSSIMDate(creationDate) +
+        formatField(options.title || 'FLIGHT SCHEDULER EXPORT', 29) + formatSSIMDate(creationDate) + 'P'
+    ],
+    legRecords,
+    airline,
+    creationDate
+  )
+
+  return { content, legCount: legRecords.length, skipped }
+}
+
+/**
+ * Get the IATA scheduling season ("S25" / "W25") a date falls in.
+ * Summer runs from the last Sunday of March to the Saturday before the last Sunday of October.
+ */
+export function getIATASeason(date: Date): string {
+  const year = date.getUTCFullYear()
+  const summerStart = lastSundayOf(year, 2)
+  const winterStart = lastSundayOf(year, 9)
+
+  if (date >= summerStart && date < winterStart) {
+    return `S${String(year % 100).padStart(2, '0')}`
+  }
+  // January to March belong to the winter season that started the previous October
+  const winterYear = date < summerStart ? year - 1 : year
+  return `W${String(winterYear % 100).padStart(2, '0')}`
+}
+
+/**
+ * Get the first day of an IATA season ("S25" / "W25") and the first day of the
+ * next one, as UTC midnights. Returns null for anything that is not a season.
+ */
+export function getIATASeasonBounds(season: string): { start: Date; end: Date } | null {
+  const match = season.trim().toUpperCase().match(/^([SW])(\d{2})$/)
+  if (!match) return null
+
+  const year = 2000 + parseInt(match[2])
+  return match[1] === 'S'
+    ? { start: lastSundayOf(year, 2), end: lastSundayOf(year, 9) }
+    : { start: lastSundayOf(year, 9), end: lastSundayOf(year + 1, 2) }
+}
+
+function parseFlightLegRecord(field: (start: number, end: number) => string, line: number): SSIMFlightLeg | string {
+  const airline = field(3, 5).trim()
+  const number = field(6, 9).trim()
+  if (!airline || !/^\d+$/.test(number)) {
+    return 'Missing airline designator or flight number'
+  }
+
+  const periodFrom = parseSSIMDate(field(15, 21))
+  if (!periodFrom) {
+    return `Invalid period of operation start "${field(15, 21)}"`
+  }
+  const periodToRaw = field(22, 28)
+  const periodTo = periodToRaw === '00XXX00' ? null : parseSSIMDate(periodToRaw)
+  if (periodToRaw !== '00XXX00' && !periodTo) {
+    return `Invalid period of operation end "${periodToRaw}"`
+  }
+
+  const daysOfOperation = field(29, 35).split('').filter(d => /[1-7]/.test(d)).map(d => parseInt(d))
+  if (daysOfOperation.length === 0) {
+    return 'No days of operation'
+  }
+
+  const departureTime = field(44, 47).trim() || field(40, 43).trim()
+  const arrivalTime = field(58, 61).trim() || field(62, 65).trim()
+  if (!/^\d{4}$/.test(departureTime) || !/^\d{4}$/.test(arrivalTime)) {
+    return 'Invalid scheduled departure or arrival time'
+  }
+
+  const departureUtcOffset = parseUtcOffset(field(48, 52))
+  const arrivalUtcOffset = parseUtcOffset(field(66, 70))
+  if (departureUtcOffset === null || arrivalUtcOffset === null) {
+    return 'Invalid UTC/local time variation'
+  }
+
+  const departureStation = field(37, 39).trim()
+  const arrivalStation = field(55, 57).trim()
+  if (!/^[A-Z]{3}$/.test(departureStation) || !/^[A-Z]{3}$/.test(arrivalStation)) {
+    return 'Invalid departure or arrival station'
+  }
+
+  const suffix = field(2, 2).trim()
+
+  return {
+    line,
+    airline,
+    flightNumber: `${airline}${parseInt(number)}${suffix}`,
+    operationalSuffix: suffix,
+    itineraryVariation: field(10, 11),
+    legSequence: field(12, 13),
+    serviceType: field(14, 14),
+    periodFrom,
+    periodTo,
+    daysOfOperation,
+    frequencyRate: parseInt(field(36, 36)) || 1,
+    departureStation,
+    scheduledDepartureTime: departureTime,
+    departureUtcOffset,
+    arrivalStation,
+    scheduledArrivalTime: arrivalTime,
+    arrivalUtcOffset,
+    aircraftType: field(73, 75).trim(),
+    departureDateVariation: parseDateVariation(field(193, 193)),
+    arrivalDateVariation: parseDateVariation(field(194, 194))
+  }
+}
+
+function formatFlightLegRecord(leg: Omit<SSIMFlightLeg, 'line'>): string {
+  const number = splitFlightDesignator(leg.flightNumber)?.number || ''
+  const days = [1, 2, 3, 4, 5, 6, 7].map(d => (leg.daysOfOperation.includes(d) ? String(d) : ' ')).join('')
+
+  let record = '3' + formatField(leg.operationalSuffix, 1) + formatField(leg.airline, 3) + number.padStart(4, ' ') +
+    leg.itineraryVariation + leg.legSequence + leg.serviceType +
+    formatSSIMDate(leg.periodFrom) + (leg.periodTo ? formatSSIMDate(leg.periodTo) : '00XXX00') +
+    days + ' ' +
+    leg.departureStation + leg.scheduledDepartureTime + leg.scheduledDepartureTime + formatUtcOffset(leg.departureUtcOffset) + '  ' +
+    leg.arrivalStation + leg.scheduledArrivalTime + leg.scheduledArrivalTime + formatUtcOffset(leg.arrivalUtcOffset) + '  ' +
+    formatField(leg.aircraftType, 3)
+
+  record = record.padEnd(192, ' ')
+  return record + formatDateVariation(leg.departureDateVariation) + formatDateVariation(leg.arrivalDateVariation)
+}
+
+// Each record group is padded with zero records to a block of five, and every
+// non-filler record ends with its serial number
+function assembleDataSet(header: string[], carrier: string[], legs: string[], airline: string, creationDate: Date): string {
+  const out: string[] = []
+  let serial = 0
+
+  const addGroup = (records: string[]) => {
+    for (const record of records) {
+      serial++
+      out.push(record.padEnd(194, ' ').substring(0, 194) + String(serial).padStart(6, '0'))
+    }
+    while (out.length % BLOCK_SIZE !== 0) {
+      out.push('0'.repeat(RECORD_LENGTH))
+    }
+  }
+
+  addGroup(header)
+  addGroup(carrier)
+  addGroup(legs)
+
+  const lastSerial = serial
+  addGroup([
+    ('5 ' + formatField(airline, 3) + formatSSIMDate(creationDate)).padEnd(187, ' ') +
+      String(lastSerial).padStart(6, '0') + 'E'
+  ])
+
+  return out.join('\n') + '\n'
+}
+
+// Split dates into periods with no missing operating day inside them
+function toPeriods(dates: number[]): { from: Date; to: Date; days: number[] }[] {
+  const sorted = Array.from(new Set(dates)).sort((a, b) => a - b)
+  const weekdays = new Set(sorted.map(d => ((new Date(d).getUTCDay() + 6) % 7) + 1))
+  const present = new Set(sorted)
+  const periods: { from: Date; to: Date; days: number[] }[] = []
+  let current: number[] = []
+
+  const close = () => {
+    if (current.length === 0) return
+    periods.push({
+      from: new Date(current[0]),
+      to: new Date(current[current.length - 1]),
+      days: Array.from(new Set(current.map(d => ((new Date(d).getUTCDay() + 6) % 7) + 1))).sort()
+    })
+    current = []
+  }
+
+  for (let day = sorted[0]; sorted.length > 0 && day <= sorted[sorted.length - 1]; day += DAY_MS) {
+    const weekday = ((new Date(day).getUTCDay() + 6) % 7) + 1
+    if (present.has(day)) {
+      current.push(day)
+    } else if (weekdays.has(weekday)) {
+      close()
+    }
+  }
+  close()
+
+  return periods
+}
+
+function splitFlightDesignator(flightNumber: string): { airline: string; number: string; suffix: string } | null {
+  const match = flightNumber.trim().toUpperCase().match(/^([A-Z0-9]{2})(\d{1,4})([A-Z]?)$/)
+  return match ? { airline: match[1], number: match[2], suffix: match[3] } : null
+}
+
+function toIATAAircraftType(aircraft?: string | null): string {
+  const type = (aircraft || '').split(' ')[0].toUpperCase()
+  return ICAO_TO_IATA_AIRCRAFT[type] || type.substring(0, 3)
+}
+
+function toInstant(operatingDate: Date, dateVariation: number, hhmm: string, utcOffset: number): Date {
+  const hours = parseInt(hhmm.substring(0, 2))
+  const minutes = parseInt(hhmm.substring(2, 4))
+  return new Date(operatingDate.getTime() + dateVariation * DAY_MS + (hours * 60 + minutes - utcOffset) * 60000)
+}
+
+function parseSSIMDate(value: string): Date | null {
+  const match = value.match(/^(\d{2})([A-Z]{3})(\d{2})$/)
+  if (!match) return null
+  const month = MONTHS.indexOf(match[2])
+  if (month < 0) return null
+  const date = new Date(Date.UTC(2000 + parseInt(match[3]), month, parseInt(match[1])))
+  return date.getUTCDate() === parseInt(match[1]) ? date : null
+}
+
+function formatSSIMDate(date: Date): string {
+  return String(date.getUTCDate()).padStart(2, '0') + MONTHS[date.getUTCMonth()] + String(date.getUTCFullYear() % 100).padStart(2, '0')
+}
+
+function parseDateVariation(value: string): number {
+  if (value === 'A') return -1
+  return /\d/.test(value) ? parseInt(value) : 0
+}
+
+function formatDateVariation(variation: number): string {
+  return variation < 0 ? 'A' : String(variation)
+}
+
+function formatHHMM(date: Date): string {
+  return String(date.getUTCHours()).padStart(2, '0') + String(date.getUTCMinutes()).padStart(2, '0')
+}
+
+function formatField(value: string, length: number): string {
+  return value.padEnd(length, ' ').substring(0, length)
+}
+
+function formatISODate(date: Date): string {
+  return date.toISOString().substring(0, 10)
+}
+
+function startOfUTCDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+function lastSundayOf(year: number, month: number): Date {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0))
+  return new Date(lastDay.getTime() - lastDay.getUTCDay() * DAY_MS)
+}
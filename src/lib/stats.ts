@@ -0,0 +1,12 @@
+// Linear interpolation between the closest ranks of sorted values
+export function quantile(values: number[], percentile: number): number {
+  const rank = (percentile / 100) * (values.length - 1)
+  const lower = Math.floor(rank)
+  const upper = Math.ceil(rank)
+  return values[lower] + (values[upper] - values[lower]) * (rank - lower)
+}
+
+// One decimal, as the analytics report minutes and percentages
+export function round(value: number): number {
+  return Math.round(value * 10) / 10
+}
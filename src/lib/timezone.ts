@@ -0,0 +1,146 @@
+// Zone used for airports missing from the Airport table; the bundled data is Mumbai's
+export const DEFAULT_TIME_ZONE = process.env.DEFAULT_TIME_ZONE || 'Asia/Kolkata'
+
+/**
+ * Get the UTC offset (in minutes, east positive) of an IANA time zone at a given instant
+ */
+export function getUtcOffsetMinutes(timeZone: string, date: Date = new Date()): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date)
+
+  const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0')
+  const asUTC = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'))
+
+  return Math.round((asUTC - Math.floor(date.getTime() / 1000) * 1000) / 60000)
+}
+
+/**
+ * Format a UTC offset in minutes as "+0530" / "-0400"
+ */
+export function formatUtcOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? '-' : '+'
+  const abs = Math.abs(offsetMinutes)
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}${String(abs % 60).padStart(2, '0')}`
+}
+
+/**
+ * Parse a "+0530" / "-0400" UTC offset into minutes
+ */
+export function parseUtcOffset(value: string): number | null {
+  const match = value.trim().match(/^([+-])(\d{2})(\d{2})$/)
+  if (!match) return null
+  const minutes = parseInt(match[2]) * 60 + parseInt(match[3])
+  return match[1] === '-' ? -minutes : minutes
+}
+
+// Names for LocalDateTimeParts.dayOfWeek
+export const DAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday']
+
+export interface LocalDateTimeParts {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  // Monday = 0 ... Sunday = 6, as pandas' dt.dayofweek
+  dayOfWeek: number
+}
+
+/**
+ * Convert a wall-clock time in an IANA time zone to a UTC instant.
+ * `minutes` is minutes since local midnight of the given day and may exceed 1440.
+ */
+export function zonedTimeToUtc(year: number, month: number, day: number, minutes: number, timeZone: string): Date {
+  const wallClock = Date.UTC(year, month - 1, day, 0, Math.round(minutes))
+  const offset = getUtcOffsetMinutes(timeZone, new Date(wallClock))
+  const guess = wallClock - offset * 60000
+  // Re-check the offset at the result in case it falls on the other side of a DST change
+  const correctedOffset = getUtcOffsetMinutes(timeZone, new Date(guess))
+  return new Date(wallClock - correctedOffset * 60000)
+}
+
+/**
+ * Get the wall-clock date and time of an instant in an IANA time zone
+ */
+export function getLocalParts(date: Date, timeZone: string): LocalDateTimeParts {
+  const local = new Date(date.getTime() + getUtcOffsetMinutes(timeZone, date) * 60000)
+  return {
+    year: local.getUTCFullYear(),
+    month: local.getUTCMonth() + 1,
+    day: local.getUTCDate(),
+    hour: local.getUTCHours(),
+    minute: local.getUTCMinutes(),
+    dayOfWeek: (local.getUTCDay() + 6) % 7
+  }
+}
+
+/**
+ * Format an instant as local ISO 8601 with offset, e.g. "2025-07-25T06:00:00+05:30"
+ */
+export function formatLocalDateTime(date: Date, timeZone: string): string {
+  const offset = getUtcOffsetMinutes(timeZone, date)
+  const local = new Date(date.getTime() + offset * 60000).toISOString().substring(0, 19)
+  const formatted = formatUtcOffset(offset)
+  return `${local}${formatted.substring(0, 3)}:${formatted.substring(3)}`
+}
+
+/**
+ * Format an instant as local "HH:MM" in an IANA time zone
+ */
+export function formatLocalTime(date: Date, timeZone: string): string {
+  const { hour, minute } = getLocalParts(date, timeZone)
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`
+}
+
+/**
+ * Parse a date-time string, reading values without a "Z" or offset as wall-clock
+ * time in the given time zone rather than the server's
+ */
+export function parseDateTimeInZone(value: string, timeZone: string): Date | null {
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/)
+  if (match) {
+    const minutes = parseInt(match[4] || '0') * 60 + parseInt(match[5] || '0') + parseInt(match[6] || '0') / 60
+    return zonedTimeToUtc(parseInt(match[1]), parseInt(match[2]), parseInt(match[3]), minutes, timeZone)
+  }
+
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Check whether a string is a valid IANA time zone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Parse a "YYYY-MM-DD" calendar date to its UTC midnight, or null when it is
+ * malformed or rolls over, e.g. 2025-02-31
+ */
+export function parseCalendarDate(value: string): Date | null {
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  if (!match) return null
+  const date = new Date(Date.UTC(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3])))
+  return date.getUTCDate() === parseInt(match[3]) ? date : null
+}
+
+/**
+ * Whole minutes from one instant to another, negative when `to` is earlier
+ */
+export function minutesBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / 60000)
+}